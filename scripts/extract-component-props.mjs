@@ -2,6 +2,7 @@ import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import { createRequire } from "module";
+import ts from "typescript";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -14,194 +15,259 @@ const packages = [
 ];
 
 /**
- * Find all component classes by looking for classes that extend Node
+ * Create a program over the declaration files of all packages, so the type
+ * checker can resolve props inherited from other packages
  */
-function findComponents(packageName) {
-  const components = new Map(); // componentName -> { propsInterface, extendsFrom }
+function createProgram() {
+  const entries = [];
 
-  try {
-    // Use require.resolve which works more reliably across environments
-    const packageJsonPath = require.resolve(`${packageName}/package.json`);
-    const packagePath = path.dirname(packageJsonPath);
-    const componentsDir = path.join(packagePath, "lib", "components");
-
-    const files = [];
-
-    // Try the components directory first
-    if (fs.existsSync(componentsDir)) {
-      files.push(...fs.readdirSync(componentsDir).filter(f => f.endsWith(".d.ts")).map(f => path.join(componentsDir, f)));
+  for (const packageName of packages) {
+    try {
+      const packageJsonPath = require.resolve(`${packageName}/package.json`);
+      const { types, typings } = JSON.parse(
+        fs.readFileSync(packageJsonPath, "utf-8"),
+      );
+      entries.push({
+        packageName,
+        file: path.resolve(
+          path.dirname(packageJsonPath),
+          types ?? typings ?? "lib/index.d.ts",
+        ),
+      });
+    } catch (error) {
+      console.warn(`Failed to find ${packageName}:`, error.message);
     }
+  }
 
-    // If no components directory, try index.d.ts (for bundled libraries)
-    if (files.length === 0) {
-      const indexPath = path.join(packagePath, "lib", "index.d.ts");
-      if (fs.existsSync(indexPath)) {
-        files.push(indexPath);
-      } else {
-        console.warn(`No type definitions found for ${packageName}`);
-        return components;
-      }
-    }
+  const program = ts.createProgram(
+    entries.map((entry) => entry.file),
+    {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      lib: ["lib.es2020.d.ts", "lib.dom.d.ts"],
+      types: [],
+      skipLibCheck: true,
+      noEmit: true,
+    },
+  );
 
-    for (const filePath of files) {
-      const content = fs.readFileSync(filePath, "utf-8");
-
-      // Look for class declarations
-      // Pattern 1: export class ComponentName extends SomeBase {
-      // Pattern 2: export class Node implements ... {
-      // Pattern 3: declare class ComponentName extends SomeBase { (for bundled .d.ts files)
-      // Note: Also handles abstract classes
-      const classExtendsRegex = /(?:export\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+(\w+)\s+extends\s+(\w+)/g;
-      const classImplementsRegex = /(?:export\s+)?(?:declare\s+)?class\s+(\w+)\s+implements/g;
-
-      let match;
-
-      // Handle classes that extend
-      while ((match = classExtendsRegex.exec(content)) !== null) {
-        const [, className, extendsFrom] = match;
-
-        // Look for the corresponding Props interface
-        const propsInterfaceRegex = new RegExp(
-          `(?:export\\s+)?interface\\s+${className}Props(?:\\s+extends\\s+(\\w+))?`,
-          'g'
-        );
-
-        const propsMatch = propsInterfaceRegex.exec(content);
-
-        if (propsMatch) {
-          components.set(className, {
-            propsInterface: `${className}Props`,
-            extendsPropsFrom: propsMatch[1] || null,
-            extendsFrom: extendsFrom,
-            file: filePath,
-          });
-        }
-      }
+  return { program, entries };
+}
 
-      // Handle Node class specifically (it implements, not extends)
-      if (content.includes('export declare class Node implements') || content.includes('declare class Node implements')) {
-        const propsInterfaceRegex = /(?:export\s+)?interface\s+NodeProps/g;
-        if (propsInterfaceRegex.test(content)) {
-          components.set('Node', {
-            propsInterface: 'NodeProps',
-            extendsPropsFrom: null,
-            extendsFrom: null, // Root of the hierarchy
-            file: filePath,
-          });
-        }
-      }
-    }
-  } catch (error) {
-    console.warn(`Failed to scan ${packageName}:`, error.message);
+/**
+ * The names of the classes an instance type inherits from, nearest first
+ */
+function getInheritanceChain(checker, type) {
+  const chain = [];
+
+  for (
+    let [base] = checker.getBaseTypes(type) ?? [];
+    base;
+    [base] = checker.getBaseTypes(base) ?? []
+  ) {
+    chain.push(base.symbol.getName());
   }
 
-  return components;
+  return chain;
 }
 
 /**
- * Build a dependency graph of components based on inheritance
+ * Find the exported components of a package: values that construct a Node,
+ * including aliases like `MathGraph` and generic classes
  */
-function buildInheritanceGraph(allComponents) {
-  const graph = new Map();
+function findComponents(checker, sourceFile) {
+  const components = new Map(); // componentName -> { instanceType, propsType, chain }
 
-  for (const [componentName, info] of allComponents.entries()) {
-    graph.set(componentName, {
-      ...info,
-      children: [],
-    });
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) {
+    return components;
   }
 
-  // Build parent-child relationships
-  for (const [componentName, info] of allComponents.entries()) {
-    if (info.extendsFrom && graph.has(info.extendsFrom)) {
-      graph.get(info.extendsFrom).children.push(componentName);
+  for (let symbol of checker.getExportsOfModule(moduleSymbol)) {
+    if (symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
     }
+    if (!(symbol.flags & (ts.SymbolFlags.Class | ts.SymbolFlags.Variable))) {
+      continue;
+    }
+
+    const [signature] = checker
+      .getTypeOfSymbol(symbol)
+      .getConstructSignatures();
+    if (!signature) continue;
+
+    const instanceType = signature.getReturnType();
+    const name = symbol.getName();
+    const chain = getInheritanceChain(checker, instanceType);
+    if (name !== "Node" && !chain.includes("Node")) continue;
+
+    const [propsParameter] = signature.getParameters();
+    if (!propsParameter) continue;
+
+    components.set(name, {
+      instanceType,
+      propsType: checker.getNonNullableType(
+        checker.getTypeOfSymbol(propsParameter),
+      ),
+      chain,
+    });
   }
 
-  return graph;
+  return components;
 }
 
 /**
- * Find all components that descend from Node
+ * Turn JSDoc text into a single line, like the descriptions in the docs
  */
-function findNodeDescendants(graph) {
-  const descendants = new Set();
-  const queue = ["Node"];
-
-  while (queue.length > 0) {
-    const current = queue.shift();
-    const node = graph.get(current);
+function toSingleLine(text) {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join(" ");
+}
 
-    if (!node) continue;
+function getDescription(checker, symbol) {
+  return toSingleLine(
+    ts.displayPartsToString(symbol.getDocumentationComment(checker)),
+  );
+}
 
-    descendants.add(current);
+function getTag(symbol, checker, name) {
+  return symbol.getJsDocTags(checker).find((tag) => tag.name === name);
+}
 
-    if (node.children) {
-      queue.push(...node.children);
+/**
+ * The literal values a prop accepts, as source code, e.g. `'center'`. Signal
+ * values are unwrapped, so `SignalValue<CanvasTextAlign>` gives the text
+ * alignments.
+ */
+function getOptions(checker, type) {
+  const options = [];
+
+  for (const member of type.isUnion() ? type.types : [type]) {
+    if (member.isStringLiteral()) {
+      options.push(`'${member.value.replace(/'/g, "\\'")}'`);
+    } else if (member.isNumberLiteral()) {
+      options.push(String(member.value));
+    } else if (member.flags & ts.TypeFlags.EnumLiteral) {
+      options.push(checker.typeToString(member));
     }
   }
 
-  return descendants;
+  return options;
 }
 
 /**
- * Extract property names and JSDoc from an interface in a .d.ts file
+ * Find the initial value a signal is declared with. Packages that ship their
+ * sources declare it with `@initial(...)`, others document it with
+ * `@defaultValue`.
  */
-function extractPropsFromInterface(filePath, interfaceName) {
-  const content = fs.readFileSync(filePath, "utf-8");
-  const props = [];
+function getDefaultValue(checker, member) {
+  const tag = getTag(member, checker, "defaultValue");
+  if (tag) {
+    return toSingleLine(ts.displayPartsToString(tag.text));
+  }
+
+  for (const declaration of member.getDeclarations() ?? []) {
+    const sourcePath = declaration
+      .getSourceFile()
+      .fileName.replace(/\/lib\/(.+)\.d\.ts$/, "/src/lib/$1.ts");
+    if (!fs.existsSync(sourcePath)) continue;
 
-  // Find the interface definition - handle nested braces
-  const interfaceStart = content.indexOf(`interface ${interfaceName}`);
-  if (interfaceStart === -1) {
-    return props;
+    const initial = findInitialValue(sourcePath, member.getName());
+    if (initial !== undefined) {
+      return initial;
+    }
   }
 
-  // Find the opening brace
-  const openBraceIndex = content.indexOf('{', interfaceStart);
-  if (openBraceIndex === -1) {
-    return props;
+  return undefined;
+}
+
+const sourceFiles = new Map();
+
+function findInitialValue(sourcePath, memberName) {
+  if (!sourceFiles.has(sourcePath)) {
+    sourceFiles.set(
+      sourcePath,
+      ts.createSourceFile(
+        sourcePath,
+        fs.readFileSync(sourcePath, "utf-8"),
+        ts.ScriptTarget.ES2020,
+        true,
+      ),
+    );
   }
 
-  // Find the matching closing brace
-  let braceCount = 1;
-  let closeBraceIndex = openBraceIndex + 1;
-  while (closeBraceIndex < content.length && braceCount > 0) {
-    if (content[closeBraceIndex] === '{') {
-      braceCount++;
-    } else if (content[closeBraceIndex] === '}') {
-      braceCount--;
+  let initial;
+  const visit = (node) => {
+    if (ts.isPropertyDeclaration(node) && node.name.getText() === memberName) {
+      for (const decorator of ts.getDecorators(node) ?? []) {
+        const call = decorator.expression;
+        if (
+          ts.isCallExpression(call) &&
+          call.expression.getText() === "initial" &&
+          call.arguments.length > 0
+        ) {
+          initial = call.arguments[0].getText();
+        }
+      }
     }
-    closeBraceIndex++;
-  }
+    if (initial === undefined) {
+      ts.forEachChild(node, visit);
+    }
+  };
+  visit(sourceFiles.get(sourcePath));
+
+  return initial;
+}
+
+/**
+ * Extract the props of a component, including the ones inherited from its
+ * base classes and mixed in from other props interfaces
+ */
+function extractProps(checker, componentName, component) {
+  const props = [];
 
-  const interfaceBody = content.substring(openBraceIndex + 1, closeBraceIndex - 1);
-
-  // Extract properties with optional JSDoc
-  const propPattern = /(?:\/\*\*([^*]|\*(?!\/))*\*\/)?\s*(\w+)\??:\s*([^;]+);/g;
-
-  let propMatch;
-  while ((propMatch = propPattern.exec(interfaceBody)) !== null) {
-    const [, jsDoc, propName, propType] = propMatch;
-
-    // Clean up JSDoc
-    let description;
-    if (jsDoc) {
-      // Extract comment text, removing /** */ and * prefixes
-      description = jsDoc
-        .replace(/\/\*\*/, '')
-        .replace(/\*\//, '')
-        .split('\n')
-        .map(line => line.replace(/^\s*\*\s?/, '').trim())
-        .filter(line => line.length > 0)
-        .join(' ')
-        .trim();
+  for (const symbol of checker.getPropertiesOfType(component.propsType)) {
+    const name = symbol.getName();
+    const declaration = symbol.getDeclarations()?.[0];
+    const typeNode = declaration && declaration.type;
+
+    const type = typeNode
+      ? typeNode.getText()
+      : checker.typeToString(checker.getTypeOfSymbol(symbol));
+    const options = getOptions(
+      checker,
+      checker.getNonNullableType(
+        unwrapSignalValue(checker, checker.getTypeOfSymbol(symbol)),
+      ),
+    );
+
+    // The signal of the same name carries the default and the deprecation,
+    // and usually the documentation the prop only refers to
+    const member = checker.getPropertyOfType(component.instanceType, name);
+    const owner = getDeclaringComponent(declaration);
+
+    let description = getDescription(checker, symbol);
+    if ((!description || description.startsWith("{@inheritDoc")) && member) {
+      description = getDescription(checker, member);
     }
 
     props.push({
-      name: propName,
+      name,
       description: description || undefined,
-      type: propType.trim(),
+      type,
+      required: symbol.flags & ts.SymbolFlags.Optional ? undefined : true,
+      defaultValue: member ? getDefaultValue(checker, member) : undefined,
+      deprecated:
+        getTag(symbol, checker, "deprecated") ||
+        (member && getTag(member, checker, "deprecated"))
+          ? true
+          : undefined,
+      inheritedFrom: owner && owner !== componentName ? owner : undefined,
+      options: options.length > 0 ? options : undefined,
     });
   }
 
@@ -209,58 +275,65 @@ function extractPropsFromInterface(filePath, interfaceName) {
 }
 
 /**
- * Recursively collect all props for a component including inherited props
+ * `SignalValue<T>` is `T | (() => T)`; drop the function so the literal
+ * options of `T` are left
  */
-function collectAllProps(componentName, allComponents, propsCache = new Map()) {
-  if (propsCache.has(componentName)) {
-    return propsCache.get(componentName);
+function unwrapSignalValue(checker, type) {
+  if (!type.isUnion()) {
+    return type;
   }
 
-  const componentInfo = allComponents.get(componentName);
-  if (!componentInfo) {
-    return [];
-  }
-
-  const directProps = extractPropsFromInterface(
-    componentInfo.file,
-    componentInfo.propsInterface
+  const values = type.types.filter(
+    (member) => member.getCallSignatures().length === 0,
   );
+  return values.length === type.types.length
+    ? type
+    : checker.getUnionType(values);
+}
 
-  // Get inherited props
-  let inheritedProps = [];
-  if (componentInfo.extendsFrom && allComponents.has(componentInfo.extendsFrom)) {
-    inheritedProps = collectAllProps(componentInfo.extendsFrom, allComponents, propsCache);
-  }
-
-  // Combine and deduplicate (direct props override inherited)
-  const propMap = new Map();
-
-  for (const prop of inheritedProps) {
-    propMap.set(prop.name, prop);
-  }
-
-  for (const prop of directProps) {
-    propMap.set(prop.name, prop);
+/**
+ * The component a prop is declared for, from the name of its props
+ * interface, e.g. `Layout` for `LayoutProps`
+ */
+function getDeclaringComponent(declaration) {
+  const parent = declaration?.parent;
+  if (!parent || !ts.isInterfaceDeclaration(parent)) {
+    return undefined;
   }
+  return parent.name.getText().replace(/Props$/, "");
+}
 
-  const allProps = Array.from(propMap.values());
-  propsCache.set(componentName, allProps);
-
-  return allProps;
+/**
+ * Drop the undefined fields so they don't clutter the output
+ */
+function compact(prop) {
+  return Object.fromEntries(
+    Object.entries(prop).filter(([, value]) => value !== undefined),
+  );
 }
 
 function main() {
   console.log("Extracting component props from Motion Canvas packages...\n");
 
+  const { program, entries } = createProgram();
+  const checker = program.getTypeChecker();
+
   // Step 1: Find all components in all packages
   const allComponents = new Map();
 
-  for (const packageName of packages) {
+  for (const { packageName, file } of entries) {
     console.log(`Scanning ${packageName}...`);
-    const components = findComponents(packageName);
+    const sourceFile = program.getSourceFile(file);
+    if (!sourceFile) {
+      console.warn(`No type definitions found for ${packageName}`);
+      continue;
+    }
 
+    const components = findComponents(checker, sourceFile);
     for (const [name, info] of components.entries()) {
-      allComponents.set(name, info);
+      if (!allComponents.has(name)) {
+        allComponents.set(name, info);
+      }
     }
 
     console.log(`  Found ${components.size} components`);
@@ -268,33 +341,21 @@ function main() {
 
   console.log(`\nTotal components found: ${allComponents.size}`);
 
-  // Step 2: Build inheritance graph
-  const graph = buildInheritanceGraph(allComponents);
-
-  // Step 3: Find all descendants of Node
-  const nodeDescendants = findNodeDescendants(graph);
-  console.log(`\nComponents extending Node: ${nodeDescendants.size}`);
-
-  // Step 4: Extract props for each Node descendant
+  // Step 2: Extract props and inheritance for each component
   const componentPropsMap = {};
+  const componentInheritance = {};
 
-  for (const componentName of nodeDescendants) {
-    if (componentName === "Node") continue; // Skip the base Node class itself if needed
-
-    const props = collectAllProps(componentName, allComponents);
+  for (const [componentName, component] of allComponents.entries()) {
+    componentInheritance[componentName] = component.chain;
 
+    const props = extractProps(checker, componentName, component);
     if (props.length > 0) {
-      // Deduplicate props by name (in case of multiple inheritance paths)
-      const uniqueProps = Array.from(
-        new Map(props.map(p => [p.name, p])).values()
-      );
-
-      componentPropsMap[componentName] = uniqueProps;
-      console.log(`  ${componentName}: ${uniqueProps.length} props`);
+      componentPropsMap[componentName] = props.map(compact);
+      console.log(`  ${componentName}: ${props.length} props`);
     }
   }
 
-  // Step 5: Generate the output file
+  // Step 3: Generate the output file
   const output = `// This file is auto-generated by scripts/extract-component-props.mjs
 // Do not edit manually - run 'npm run generate:props' to regenerate
 
@@ -302,16 +363,35 @@ export interface PropInfo {
   name: string;
   description?: string;
   type?: string;
+  /** Whether the prop has to be given */
+  required?: boolean;
+  /** The initial value of the prop's signal, as source code */
+  defaultValue?: string;
+  deprecated?: boolean;
+  /** The component that declares the prop, when it's inherited */
+  inheritedFrom?: string;
+  /** The literal values the prop accepts, as source code */
+  options?: string[];
 }
 
 export const componentProps: Record<string, PropInfo[]> = ${JSON.stringify(componentPropsMap, null, 2)};
+
+/** The classes each component inherits from, nearest first */
+export const componentInheritance: Record<string, string[]> = ${JSON.stringify(componentInheritance, null, 2)};
 `;
 
-  const outputPath = path.join(__dirname, "..", "src", "generated-component-props.ts");
+  const outputPath = path.join(
+    __dirname,
+    "..",
+    "src",
+    "generated-component-props.ts",
+  );
   fs.writeFileSync(outputPath, output, "utf-8");
 
   console.log(`\n✓ Generated component props at: ${outputPath}`);
-  console.log(`✓ Total components with props: ${Object.keys(componentPropsMap).length}`);
+  console.log(
+    `✓ Total components with props: ${Object.keys(componentPropsMap).length}`,
+  );
 }
 
 main();
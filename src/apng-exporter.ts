@@ -0,0 +1,342 @@
+import { crc32 } from "./zip-writer";
+
+export interface APNGExportSettings {
+  fps: number;
+  loop: number; // Number of plays, 0 = forever
+  scale: number; // resolution scale factor, applied when rendering
+  /** Fill color behind each frame, or null to keep the alpha channel */
+  background: string | null;
+}
+
+export interface APNGExportCallbacks {
+  onProgress: (progress: number) => void;
+  onComplete: (blob: Blob) => void;
+  onError: (error: string) => void;
+}
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+interface PNGChunk {
+  type: string;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+// Frame delays are stored as 16-bit fractions of a second
+const MAX_FRAME_LENGTH = 0xffff;
+
+interface APNGFrame {
+  /** Compressed image data, split as the encoder split its IDAT chunks */
+  data: Uint8Array<ArrayBuffer>[];
+  /** How long the frame is shown, in export frames */
+  length: number;
+}
+
+function readChunks(png: Uint8Array<ArrayBuffer>): PNGChunk[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PNGChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({
+      type,
+      data: png.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += 12 + length;
+  }
+
+  return chunks;
+}
+
+function writeChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  // The checksum covers the type and the data
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function sameData(
+  a: Uint8Array<ArrayBuffer>[],
+  b: Uint8Array<ArrayBuffer>[],
+): boolean {
+  if (a.length !== b.length) return false;
+  return a.every((part, index) => {
+    const other = b[index];
+    if (part.length !== other.length) return false;
+    for (let i = 0; i < part.length; i++) {
+      if (part[i] !== other[i]) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Encodes frames as an animated PNG. Each frame is compressed by the
+ * browser's PNG encoder and its image data is repackaged into APNG chunks,
+ * so the result is lossless with full alpha. Identical consecutive frames
+ * are merged into a single, longer frame.
+ */
+export class APNGExporter {
+  private header: Uint8Array<ArrayBuffer> | null = null;
+  /** The latest frame, kept until it is known how long it lasts */
+  private pendingFrame: APNGFrame | null = null;
+  private frameParts: Blob[] = [];
+  private writtenFrames = 0;
+  private sequence = 0;
+  private isExporting = false;
+  private abortController: AbortController | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  private frameCount = 0;
+  private totalFrames = 0;
+  private settings: APNGExportSettings;
+  private callbacks: APNGExportCallbacks;
+
+  constructor(settings: APNGExportSettings, callbacks: APNGExportCallbacks) {
+    this.settings = settings;
+    this.callbacks = callbacks;
+  }
+
+  async start(
+    width: number,
+    height: number,
+    duration: number,
+    sourceFps: number,
+  ): Promise<void> {
+    if (this.isExporting) {
+      throw new Error("Export already in progress");
+    }
+
+    this.isExporting = true;
+    this.abortController = new AbortController();
+    this.frameCount = 0;
+    // Duration is in frames at sourceFps, convert to seconds then to frames at export fps
+    const durationInSeconds = duration / sourceFps;
+    this.totalFrames = Math.ceil(durationInSeconds * this.settings.fps);
+
+    try {
+      this.canvas = document.createElement("canvas");
+      this.canvas.width = width;
+      this.canvas.height = height;
+      this.context = this.canvas.getContext("2d");
+
+      if (!this.context) {
+        throw new Error("Failed to get canvas context");
+      }
+
+      this.callbacks.onProgress(0);
+    } catch (error) {
+      this.isExporting = false;
+      // Nothing is rendered for an export that failed to start
+      this.abortController?.abort();
+      this.callbacks.onError(
+        `Failed to start APNG export: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  async addFrame(sourceCanvas: HTMLCanvasElement): Promise<void> {
+    if (!this.isExporting || this.abortController?.signal.aborted) {
+      return;
+    }
+
+    // Check all required objects are still available (not cleaned up)
+    if (!this.context || !this.canvas) {
+      return;
+    }
+
+    try {
+      this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+      if (this.settings.background) {
+        this.context.fillStyle = this.settings.background;
+        this.context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      }
+      this.context.drawImage(
+        sourceCanvas,
+        0,
+        0,
+        this.canvas.width,
+        this.canvas.height,
+      );
+
+      const blob = await new Promise<Blob | null>((resolve) =>
+        this.canvas!.toBlob(resolve, "image/png"),
+      );
+      if (!blob) {
+        throw new Error("Failed to encode PNG");
+      }
+
+      // The export may have been cancelled while the frame was encoding
+      if (this.abortController?.signal.aborted || !this.isExporting) {
+        return;
+      }
+
+      const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()));
+      const data = chunks
+        .filter((chunk) => chunk.type === "IDAT")
+        .map((chunk) => chunk.data);
+
+      if (!this.header) {
+        const header = chunks.find((chunk) => chunk.type === "IHDR");
+        if (!header) {
+          throw new Error("Encoded PNG has no header");
+        }
+        this.header = header.data;
+      }
+
+      const previous = this.pendingFrame;
+      if (
+        previous &&
+        previous.length < MAX_FRAME_LENGTH &&
+        sameData(previous.data, data)
+      ) {
+        previous.length++;
+      } else {
+        if (previous) {
+          this.writeFrame(previous);
+        }
+        this.pendingFrame = { data, length: 1 };
+      }
+
+      this.frameCount++;
+      const progress =
+        this.totalFrames > 0 ? (this.frameCount / this.totalFrames) * 100 : 0;
+      this.callbacks.onProgress(Math.min(progress, 95)); // Cap at 95% until finalization
+    } catch (error) {
+      // Don't report errors if we're aborted
+      if (!this.abortController?.signal.aborted) {
+        this.callbacks.onError(
+          `Failed to add frame: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (
+      !this.isExporting ||
+      !this.header ||
+      this.abortController?.signal.aborted
+    ) {
+      return;
+    }
+
+    try {
+      this.callbacks.onProgress(95);
+      if (this.pendingFrame) {
+        this.writeFrame(this.pendingFrame);
+        this.pendingFrame = null;
+      }
+      const blob = this.assemble(this.header);
+      this.callbacks.onProgress(100);
+      this.callbacks.onComplete(blob);
+    } catch (error) {
+      if (!this.abortController?.signal.aborted) {
+        this.callbacks.onError(
+          `Failed to finalize APNG: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  /**
+   * Write the frame's control chunk and image data. The first frame uses
+   * IDAT chunks so it doubles as the image shown by viewers without
+   * animation support.
+   */
+  private writeFrame(frame: APNGFrame): void {
+    const frameControl = new DataView(new ArrayBuffer(26));
+    frameControl.setUint32(0, this.sequence++);
+    frameControl.setUint32(4, this.canvas!.width);
+    frameControl.setUint32(8, this.canvas!.height);
+    // x and y offsets stay zero: every frame covers the whole image
+    frameControl.setUint16(20, frame.length);
+    frameControl.setUint16(22, this.settings.fps);
+    // Dispose op "none" and blend op "source" replace the whole image
+
+    const parts: BlobPart[] = [
+      writeChunk("fcTL", new Uint8Array(frameControl.buffer)),
+    ];
+    for (const data of frame.data) {
+      if (this.writtenFrames === 0) {
+        parts.push(writeChunk("IDAT", data));
+      } else {
+        // fdAT chunks share the sequence numbers of the fcTL chunks
+        const frameData = new Uint8Array(4 + data.length);
+        new DataView(frameData.buffer).setUint32(0, this.sequence++);
+        frameData.set(data, 4);
+        parts.push(writeChunk("fdAT", frameData));
+      }
+    }
+
+    // Wrapping each frame in a Blob lets the browser move it out of memory
+    this.frameParts.push(new Blob(parts));
+    this.writtenFrames++;
+  }
+
+  private assemble(header: Uint8Array<ArrayBuffer>): Blob {
+    const animationControl = new DataView(new ArrayBuffer(8));
+    animationControl.setUint32(0, this.writtenFrames);
+    animationControl.setUint32(4, this.settings.loop);
+
+    return new Blob(
+      [
+        PNG_SIGNATURE,
+        writeChunk("IHDR", header),
+        writeChunk("acTL", new Uint8Array(animationControl.buffer)),
+        ...this.frameParts,
+        writeChunk("IEND", new Uint8Array(0)),
+      ],
+      { type: "image/apng" },
+    );
+  }
+
+  cancel(): void {
+    if (!this.isExporting) {
+      return;
+    }
+
+    // Signal abort to all operations
+    this.abortController?.abort();
+    this.cleanup();
+  }
+
+  private cleanup(): void {
+    this.isExporting = false;
+    this.abortController = null;
+    this.header = null;
+    this.pendingFrame = null;
+    this.frameParts = [];
+    this.writtenFrames = 0;
+    this.sequence = 0;
+    this.canvas = null;
+    this.context = null;
+    this.frameCount = 0;
+    this.totalFrames = 0;
+  }
+
+  get exportProgress(): number {
+    return this.totalFrames > 0
+      ? (this.frameCount / this.totalFrames) * 100
+      : 0;
+  }
+
+  get signal(): AbortSignal | undefined {
+    return this.abortController?.signal;
+  }
+}
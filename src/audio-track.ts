@@ -0,0 +1,98 @@
+/**
+ * Audio track storage and processing
+ *
+ * The audio file is kept in IndexedDB so it survives reloads without being
+ * put in the URL; only its offset is shared through the project settings.
+ */
+
+const DB_NAME = "motion-canvas-fiddle-audio";
+const STORE_NAME = "tracks";
+const TRACK_KEY = "current";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Persist the audio file for the next session
+ */
+export async function saveAudioTrack(file: File): Promise<void> {
+  await runTransaction("readwrite", (store) => store.put(file, TRACK_KEY));
+}
+
+/**
+ * Load the stored audio file
+ * @returns The file, or null when none was stored
+ */
+export async function loadAudioTrack(): Promise<File | null> {
+  const file = await runTransaction<File | undefined>("readonly", (store) =>
+    store.get(TRACK_KEY),
+  );
+  return file instanceof Blob ? file : null;
+}
+
+export async function clearAudioTrack(): Promise<void> {
+  await runTransaction("readwrite", (store) => store.delete(TRACK_KEY));
+}
+
+/**
+ * Decode an audio file into PCM data
+ */
+export async function decodeAudioTrack(file: Blob): Promise<AudioBuffer> {
+  const context = new AudioContext();
+  try {
+    return await context.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    await context.close();
+  }
+}
+
+/**
+ * Lay the audio out on the animation's timeline: a positive offset delays
+ * the audio, a negative one skips its beginning. The result is exactly
+ * `duration` seconds long so it lines up with the exported video.
+ */
+export async function renderAudioRange(
+  buffer: AudioBuffer,
+  offset: number,
+  duration: number,
+): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(
+    buffer.numberOfChannels,
+    Math.max(1, Math.ceil(duration * buffer.sampleRate)),
+    buffer.sampleRate,
+  );
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start(Math.max(0, offset), Math.max(0, -offset));
+
+  return context.startRendering();
+}
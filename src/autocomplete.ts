@@ -1,15 +1,30 @@
 import { javascriptLanguage } from "@codemirror/lang-javascript";
 import { syntaxTree } from "@codemirror/language";
-import type { CompletionContext, Completion } from "@codemirror/autocomplete";
+import {
+  insertCompletionText,
+  pickedCompletion,
+  type CompletionContext,
+  type CompletionResult,
+  type Completion,
+} from "@codemirror/autocomplete";
+import type { Text } from "@codemirror/state";
 import type { EditorView } from "@codemirror/view";
 import { formatCode } from "./formatter";
-import { jsxAttributeCompletion } from "./jsx-autocomplete";
-
-function isConstructor(obj: unknown): boolean {
-  if (typeof obj !== "function") return false;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return !!(obj as any).prototype && !!(obj as any).prototype.constructor.name;
-}
+import { BUNDLED_PACKAGES } from "./package-registry";
+import {
+  findAttributeProps,
+  getPropCompletion,
+  jsxAttributeCompletion,
+  jsxAttributeValueCompletion,
+} from "./jsx-autocomplete";
+import type { ProjectFiles } from "./project-files";
+import type {
+  CompletionDetails,
+  CompletionEntry,
+  TextEdit,
+  TypeChecker,
+} from "./type-checker";
+import type { TypeInfoSource } from "./type-info";
 
 interface CompletionOption extends Completion {
   label: string;
@@ -23,40 +38,186 @@ interface CompletionOption extends Completion {
   ) => void;
 }
 
+// Completions the language service can't offer: snippets and the fiddle's
+// own modules
 const Options: CompletionOption[] = [];
 
-function loadModule(
-  packageName: string,
-  module: Record<string, unknown>,
+// Completion icons for the language service's kinds of symbols
+const COMPLETION_TYPES: Record<string, string> = {
+  class: "class",
+  "local class": "class",
+  constructor: "class",
+  interface: "interface",
+  type: "type",
+  "type parameter": "type",
+  enum: "enum",
+  "enum member": "enum",
+  module: "namespace",
+  function: "function",
+  "local function": "function",
+  method: "method",
+  property: "property",
+  getter: "property",
+  setter: "property",
+  const: "constant",
+  let: "variable",
+  var: "variable",
+  "local var": "variable",
+  parameter: "variable",
+  alias: "variable",
+  keyword: "keyword",
+};
+
+/**
+ * Ranks entries like the language service sorts them: locals, then members
+ * and globals, then auto-imports. Deprecated entries sort last.
+ */
+function getBoost(sortText: string): number {
+  const rank = parseInt(sortText, 10);
+  return Number.isNaN(rank) ? -99 : Math.max(-99, 11 - rank);
+}
+
+function renderDetails(details: CompletionDetails): HTMLElement {
+  const dom = document.createElement("div");
+  dom.className = "cm-type-info";
+
+  for (const text of [details.signature, ...details.callSignatures]) {
+    const signature = document.createElement("pre");
+    signature.className = "cm-type-info-signature";
+    signature.textContent = text;
+    dom.append(signature);
+  }
+
+  if (details.documentation) {
+    const documentation = document.createElement("div");
+    documentation.className = "cm-type-info-documentation";
+    documentation.textContent = details.documentation;
+    dom.append(documentation);
+  }
+
+  return dom;
+}
+
+/**
+ * Apply the edits picking a completion makes besides inserting it, like
+ * adding an import. They were computed for the document the completions
+ * were requested for, so they're only applied when they come before the
+ * completion and nothing before it changed since.
+ */
+function applyEdits(
+  view: EditorView,
+  requestedDoc: Text,
+  from: number,
+  edits: TextEdit[],
 ): void {
-  Object.entries(module).forEach(([name, value]) => {
-    const option: CompletionOption = {
-      label: name,
-      type:
-        typeof value === "function"
-          ? isConstructor(value)
-            ? "class"
-            : "function"
-          : "variable",
-      package: packageName,
-      detail: packageName,
-      apply: (
-        view: EditorView,
-        completion: Completion,
-        from: number,
-        to: number,
-      ) => {
-        // Insert the completion text
-        view.dispatch({
-          changes: { from, to, insert: completion.label },
-        });
+  if (
+    edits.length === 0 ||
+    edits.some((edit) => edit.to > from) ||
+    view.state.doc.sliceString(0, from) !== requestedDoc.sliceString(0, from)
+  ) {
+    return;
+  }
+
+  view.dispatch({ changes: edits });
+}
+
+/** Where completions were requested */
+interface CompletionRequest {
+  checker: TypeChecker;
+  files: ProjectFiles;
+  file: string;
+  context: CompletionContext;
+}
+
+function toCompletion(
+  entry: CompletionEntry,
+  { checker, files, file, context }: CompletionRequest,
+): Completion {
+  // Shared by the info panel and auto-imports, which both need the details
+  let details: Promise<CompletionDetails | null> | null = null;
+  const getDetails = () => {
+    if (!details) {
+      details = checker.getCompletionDetails(files, file, context.pos, entry);
+    }
+    return details;
+  };
+
+  const text = entry.insertText ?? entry.name;
+  return {
+    label: entry.name,
+    type: COMPLETION_TYPES[entry.kind] ?? "text",
+    detail: entry.module,
+    boost: getBoost(entry.sortText),
+    info: async () => {
+      const details = await getDetails();
+      return details && renderDetails(details);
+    },
+    apply: (view, completion, from, to) => {
+      const start = entry.from ?? from;
+      view.dispatch({
+        ...insertCompletionText(view.state, text, start, to),
+        annotations: pickedCompletion.of(completion),
+      });
 
-        // Add import if needed
-        addImportIfNeeded(view, completion.label, packageName);
-      },
-    };
-    Options.push(option);
+      if (entry.hasAction) {
+        getDetails()
+          .then((details) => {
+            applyEdits(view, context.state.doc, start, details?.edits ?? []);
+          })
+          .catch((error) => {
+            console.warn("Failed to add import:", error);
+          });
+      }
+    },
+  };
+}
+
+/**
+ * Completions from the language service, which knows the members of
+ * whatever is before a dot and which package exports each symbol
+ */
+async function typeCompletions(
+  context: CompletionContext,
+  source: TypeInfoSource,
+): Promise<CompletionResult | null> {
+  const word = context.matchBefore(/[\w$]*/);
+  if (!word) return null;
+
+  const afterDot = context.state.sliceDoc(word.from - 1, word.from) === ".";
+  if (word.from === word.to && !context.explicit && !afterDot) return null;
+
+  const request: CompletionRequest = {
+    checker: source.checker,
+    files: source.getFiles(),
+    file: source.getActiveFile(),
+    context,
+  };
+  const list = await request.checker.getCompletions(
+    request.files,
+    request.file,
+    context.pos,
+  );
+  if (!list || context.aborted) return null;
+
+  // The language service lists a component's props, but doesn't know
+  // which are common, or their defaults
+  const props = new Map(
+    findAttributeProps(context)?.map((prop) => [prop.name, prop]),
+  );
+  const options = list.entries.map((entry) => {
+    const completion = toCompletion(entry, request);
+    const prop = props.get(entry.name);
+    if (!prop) {
+      return completion;
+    }
+    const { detail, info, boost } = getPropCompletion(prop);
+    return { ...completion, detail, boost, info: info ?? completion.info };
   });
+  return {
+    from: list.from ?? word.from,
+    options: list.isMemberCompletion ? options : [...options, ...Options],
+    validFor: /^[\w$]*$/,
+  };
 }
 
 function addImportIfNeeded(
@@ -150,53 +311,6 @@ function formatAndUpdate(view: EditorView): void {
     });
 }
 
-// Load Motion Canvas modules for autocompletion
-import("@motion-canvas/core")
-  .then((module) => loadModule("@motion-canvas/core", module))
-  .catch((error) => {
-    console.warn(
-      "Failed to load @motion-canvas/core for autocompletion:",
-      error,
-    );
-  });
-
-import("@motion-canvas/2d")
-  .then((module) => loadModule("@motion-canvas/2d", module))
-  .catch((error) => {
-    console.warn("Failed to load @motion-canvas/2d for autocompletion:", error);
-  });
-
-// Load additional libraries for autocompletion
-import("@hhenrichsen/canvas-commons")
-  .then((module) => loadModule("@hhenrichsen/canvas-commons", module))
-  .catch((error) => {
-    console.warn(
-      "Failed to load @hhenrichsen/canvas-commons for autocompletion:",
-      error,
-    );
-  });
-
-import("@spidunno/motion-canvas-graphing")
-  .then((module) => loadModule("@spidunno/motion-canvas-graphing", module))
-  .catch((error) => {
-    console.warn(
-      "Failed to load @spidunno/motion-canvas-graphing for autocompletion:",
-      error,
-    );
-  });
-
-import("three")
-  .then((module) => loadModule("three", module))
-  .catch((error) => {
-    console.warn("Failed to load three for autocompletion:", error);
-  });
-
-import("shiki")
-  .then((module) => loadModule("shiki", module))
-  .catch((error) => {
-    console.warn("Failed to load shiki for autocompletion:", error);
-  });
-
 // Add hardcoded ShikiHighlighter completions (local module)
 const shikiHighlighterOptions: CompletionOption[] = [
   {
@@ -238,22 +352,9 @@ const shikiHighlighterOptions: CompletionOption[] = [
 Options.push(...shikiHighlighterOptions);
 
 // Add lezer parser snippet completions
-const lezerLanguages = [
-  "cpp",
-  "css",
-  "go",
-  "html",
-  "java",
-  "javascript",
-  "json",
-  "markdown",
-  "php",
-  "python",
-  "rust",
-  "sass",
-  "xml",
-  "yaml",
-];
+const lezerLanguages = BUNDLED_PACKAGES.filter((pkg) => pkg.parser).map((pkg) =>
+  pkg.name.slice("@lezer/".length),
+);
 
 for (const lang of lezerLanguages) {
   const option: CompletionOption = {
@@ -320,22 +421,44 @@ function addLezerParserImport(view: EditorView, language: string): void {
   formatAndUpdate(view);
 }
 
-export function autocomplete() {
+/**
+ * Completions for the editor. With a type checker they come from the
+ * language service; without one (or when it fails), JSX props come from the
+ * generated component props.
+ */
+export function autocomplete(source?: TypeInfoSource) {
   return javascriptLanguage.data.of({
-    autocomplete: (context: CompletionContext) => {
+    autocomplete: async (context: CompletionContext) => {
+      // Prop values come first, since they may be typed inside a string
+      const valueResult = jsxAttributeValueCompletion(context);
+      if (valueResult) {
+        return valueResult;
+      }
+
       const nodeBefore = syntaxTree(context.state).resolveInner(
         context.pos,
         -1,
       );
       if (nodeBefore.name === "String") return;
 
+      if (source) {
+        try {
+          const result = await typeCompletions(context, source);
+          if (result) {
+            return result;
+          }
+        } catch (error) {
+          console.warn("Type completions failed:", error);
+        }
+      }
+
       // Try JSX attribute completion first
       const jsxResult = jsxAttributeCompletion(context);
       if (jsxResult) {
         return jsxResult;
       }
 
-      // Fall back to symbol/import completion
+      // Fall back to snippet completion
       const word = context.matchBefore(/\w*/);
       if (!word || (word.from === word.to && !context.explicit)) return null;
       return {
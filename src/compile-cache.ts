@@ -0,0 +1,208 @@
+/**
+ * Compile cache
+ *
+ * Compiled scenes are kept in IndexedDB, keyed by a hash of everything their
+ * output depends on, so running a project that hasn't changed skips
+ * compilation, even after a reload. WebContainer builds also keep a snapshot
+ * of their node_modules, which is restored instead of installing the same
+ * dependencies again.
+ */
+
+import type { CompileDiagnostic } from "./compiler";
+import type { ProjectFiles } from "./project-files";
+import type { RawSourceMap } from "./source-map";
+
+const DB_NAME = "motion-canvas-fiddle-compile-cache";
+const SCENES_STORE = "scenes";
+const DEPENDENCIES_STORE = "dependencies";
+const SNAPSHOT_KEY = "node_modules";
+
+// Older scenes are dropped once there are more than this many
+const MAX_SCENES = 20;
+
+// Bumped when the compiled output changes shape, to drop older entries
+const CACHE_VERSION = 2;
+
+export interface CompiledModule {
+  filename: string;
+  code: string;
+  map: RawSourceMap | null;
+}
+
+/**
+ * The output of a compile, which is all that's needed to run it again
+ */
+export interface CompiledScene {
+  compiler: "babel" | "webcontainer";
+  /** The compiled modules in link order, the entry last */
+  modules: CompiledModule[];
+  /** The bundled packages the modules import, loaded before they run */
+  packages: string[];
+  /** The problems the compile found, shown again when it's run from cache */
+  diagnostics: CompileDiagnostic[];
+}
+
+interface CachedScene extends CompiledScene {
+  key: string;
+  createdAt: number;
+}
+
+interface DependencySnapshot {
+  /** The cache version and installed packages, from `getSnapshotKey` */
+  key: string;
+  snapshot: Uint8Array;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const scenes = request.result.createObjectStore(SCENES_STORE, {
+        keyPath: "key",
+      });
+      scenes.createIndex("createdAt", "createdAt");
+      request.result.createObjectStore(DEPENDENCIES_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(
+        db.transaction(storeName, mode).objectStore(storeName),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Hash the project files and the options that affect their compiled output
+ * into a cache key
+ */
+export async function hashCompileInput(
+  files: ProjectFiles,
+  options: Record<string, unknown>,
+): Promise<string> {
+  const input = JSON.stringify({
+    version: CACHE_VERSION,
+    files: Object.entries(files).sort(([a], [b]) => a.localeCompare(b)),
+    options,
+  });
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(input),
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Load a compiled scene
+ * @returns The scene, or null when none was cached under the key
+ */
+export async function loadCompiledScene(
+  key: string,
+): Promise<CompiledScene | null> {
+  const cached = await runTransaction<CachedScene | undefined>(
+    SCENES_STORE,
+    "readonly",
+    (store) => store.get(key),
+  );
+  return cached ?? null;
+}
+
+/**
+ * Cache a compiled scene, dropping the oldest ones to make room
+ */
+export async function saveCompiledScene(
+  key: string,
+  scene: CompiledScene,
+): Promise<void> {
+  const cached: CachedScene = { ...scene, key, createdAt: Date.now() };
+
+  const db = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(SCENES_STORE, "readwrite");
+      const store = transaction.objectStore(SCENES_STORE);
+      store.put(cached);
+      const count = store.count();
+      count.onsuccess = () => {
+        let excess = count.result - MAX_SCENES;
+        if (excess <= 0) return;
+
+        const cursor = store.index("createdAt").openCursor();
+        cursor.onsuccess = () => {
+          if (cursor.result && excess-- > 0) {
+            cursor.result.delete();
+            cursor.result.continue();
+          }
+        };
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Identify a node_modules snapshot by the name and version of each package
+ * in package.json's dependencies
+ */
+function getSnapshotKey(dependencies: Record<string, string>): string {
+  return JSON.stringify({
+    version: CACHE_VERSION,
+    dependencies: Object.entries(dependencies)
+      .map(([name, version]) => `${name}@${version}`)
+      .sort(),
+  });
+}
+
+/**
+ * Load the node_modules snapshot of package.json's dependencies
+ * @returns The snapshot, or null when the cached one has other dependencies
+ */
+export async function loadDependencySnapshot(
+  dependencies: Record<string, string>,
+): Promise<Uint8Array | null> {
+  const cached = await runTransaction<DependencySnapshot | undefined>(
+    DEPENDENCIES_STORE,
+    "readonly",
+    (store) => store.get(SNAPSHOT_KEY),
+  );
+  return cached?.key === getSnapshotKey(dependencies) ? cached.snapshot : null;
+}
+
+/**
+ * Cache the node_modules snapshot of package.json's dependencies. Snapshots
+ * are large, so only the latest one is kept.
+ */
+export async function saveDependencySnapshot(
+  dependencies: Record<string, string>,
+  snapshot: Uint8Array,
+): Promise<void> {
+  const cached: DependencySnapshot = {
+    key: getSnapshotKey(dependencies),
+    snapshot,
+  };
+  await runTransaction(DEPENDENCIES_STORE, "readwrite", (store) =>
+    store.put(cached, SNAPSHOT_KEY),
+  );
+}
@@ -1,58 +1,138 @@
+import type { PluginItem } from "@babel/core";
 import {
-  detectFeatures,
+  detectProjectFeatures,
   detectAllPackages,
   isWebContainerAvailable,
   explainFeatures,
 } from "./feature-detector";
 import {
   compileWithWebContainer,
+  executeCompiledCode,
   type CompilationProgress,
   type Logger,
 } from "./webcontainer-compiler";
+import {
+  hashCompileInput,
+  loadCompiledScene,
+  saveCompiledScene,
+  type CompiledModule,
+  type CompiledScene,
+} from "./compile-cache";
 import { canUseWebContainer } from "./offline";
 import { trackEvent } from "./analytics";
-
-interface CompilationContext {
-  hasCanvasCommons: boolean;
-  hasMotionCanvasGraphing: boolean;
-  hasThree: boolean;
-  hasShiki: boolean;
-  hasShikiHighlighter: boolean;
-  hasLezer: boolean;
+import {
+  ENTRY_FILE,
+  isRelativeSpecifier,
+  joinSources,
+  resolveRelativeImport,
+  type ProjectFiles,
+} from "./project-files";
+import {
+  createImportMap,
+  resolveImport,
+  shareModuleOrigins,
+  type ImportMap,
+  type ImportMapSettings,
+} from "./import-map";
+import { legacyDecorators } from "./legacy-decorators";
+import { rewriteImports } from "./module-resolver";
+import {
+  BUNDLED_PACKAGES,
+  loadBundledPackages,
+  resolveBundledPackage,
+} from "./package-registry";
+import {
+  clearSourceMaps,
+  createInlineSourceMap,
+  registerSourceMap,
+  type RawSourceMap,
+} from "./source-map";
+
+// Relative imports are rewritten to this prefix during transformation and
+// swapped for blob URLs once every module has been compiled
+const MODULE_PLACEHOLDER_PREFIX = "fiddle-module:";
+
+/**
+ * A problem found while compiling a project file. Offsets refer to the
+ * file's source.
+ */
+export interface CompileDiagnostic {
+  file: string;
+  from: number;
+  to: number;
+  message: string;
 }
 
+/**
+ * How decorators are compiled: "legacy" like TypeScript's
+ * `experimentalDecorators`, which Motion Canvas uses, or as standardized
+ */
+export type DecoratorVersion = "legacy" | "2023-05";
+
 export interface CompileOptions {
-  loadCanvasCommons?: () => Promise<unknown>;
-  loadMotionCanvasGraphing?: () => Promise<unknown>;
-  loadThree?: () => Promise<unknown>;
-  loadShiki?: () => Promise<unknown>;
-  loadShikiHighlighter?: () => Promise<unknown>;
-  loadLezer?: () => Promise<unknown>;
+  /** All project files; `code` is used as the entry file when omitted */
+  files?: ProjectFiles;
   onProgress?: (progress: CompilationProgress) => void;
+  /** Called with the problems found by a compile, empty when there are none */
+  onDiagnostics?: (diagnostics: CompileDiagnostic[]) => void;
   forceWebContainer?: boolean;
   forceBabel?: boolean;
+  /** Where the packages that aren't bundled are loaded from */
+  importMap?: ImportMapSettings;
+  /** Defaults to "legacy" */
+  decorators?: DecoratorVersion;
+  /** Called when the project hasn't changed and its cached build is run */
+  onCacheHit?: () => void;
   logger?: Logger;
 }
 
 export async function compileScene(
   code: string,
-  options?: CompileOptions | (() => Promise<unknown>),
+  options?: CompileOptions,
 ): Promise<unknown> {
-  // Handle legacy API (loadCanvasCommons function as second parameter)
-  const opts: CompileOptions =
-    typeof options === "function"
-      ? { loadCanvasCommons: options }
-      : options || {};
+  const opts: CompileOptions = options || {};
+
+  const files: ProjectFiles = { ...opts.files, [ENTRY_FILE]: code };
+
+  // Clear the previous compile's diagnostics; the build reports its own
+  opts.onDiagnostics?.([]);
 
   // Detect features that might require WebContainer
-  const features = detectFeatures(code);
+  const features = detectProjectFeatures(files, ENTRY_FILE);
+
+  // The settings choose whether packages that aren't bundled are loaded
+  // through the import map or installed in a WebContainer
+  const loadsExternalPackages =
+    features.hasExternalPackages && (opts.importMap?.source ?? "off") !== "off";
+  const needsWebContainer =
+    features.needsWebContainer && !loadsExternalPackages;
+
+  let importMap: ImportMap | null = null;
+  let importMapError: string | undefined;
+  if (opts.importMap && loadsExternalPackages) {
+    try {
+      importMap = await createImportMap(opts.importMap);
+    } catch (error) {
+      importMapError = error instanceof Error ? error.message : String(error);
+      console.warn("[Compiler]", importMapError);
+      opts.logger?.warn(`[Compiler] ${importMapError}`);
+    }
+  }
+  if (importMap) {
+    shareModuleOrigins(importMap);
+  }
 
   console.log("[Compiler] Feature detection:", features);
-  console.log("[Compiler]", explainFeatures(features));
+  console.log(
+    "[Compiler]",
+    loadsExternalPackages
+      ? `Loading external packages through the import map: ${features.externalPackages.join(", ")}`
+      : explainFeatures(features),
+  );
 
   // Check if we're offline - force Babel if so
   const online = canUseWebContainer();
-  if (!online && (opts.forceWebContainer || features.needsWebContainer)) {
+  if (!online && (opts.forceWebContainer || needsWebContainer)) {
     console.log(
       "[Compiler] Offline mode detected - using Babel compilation (WebContainer disabled)",
     );
@@ -63,32 +143,54 @@ export async function compileScene(
   const shouldUseWebContainer =
     online &&
     !opts.forceBabel &&
-    (opts.forceWebContainer || features.needsWebContainer) &&
+    (opts.forceWebContainer || needsWebContainer) &&
     isWebContainerAvailable();
 
+  // Everything the compiled output depends on
+  const getCacheKey = (compiler: CompiledScene["compiler"]) =>
+    hashCompileInput(files, {
+      compiler,
+      decorators: opts.decorators ?? "legacy",
+      importMap: opts.importMap ?? null,
+      packages: BUNDLED_PACKAGES.map((pkg) => `${pkg.name}@${pkg.version}`),
+    });
+
+  // A failed WebContainer build is cached as its Babel fallback, which is
+  // run instead of trying WebContainer again
+  const cached =
+    (await findCachedScene(
+      getCacheKey(shouldUseWebContainer ? "webcontainer" : "babel"),
+    )) ??
+    (shouldUseWebContainer && !opts.forceWebContainer
+      ? await findCachedScene(getCacheKey("babel"))
+      : null);
+
   // Track build event (use detectAllPackages for analytics to include bundled packages)
   trackEvent("build_animation", {
-    compiler: shouldUseWebContainer ? "webcontainer" : "babel",
-    packages: detectAllPackages(code),
+    compiler:
+      cached?.compiler ?? (shouldUseWebContainer ? "webcontainer" : "babel"),
+    packages: detectAllPackages(joinSources(files)),
     external_packages: features.externalPackages,
-    needs_webcontainer: features.needsWebContainer,
+    needs_webcontainer: needsWebContainer,
     has_decorators: features.hasDecorators,
+    cached: cached !== null,
   });
 
+  if (cached) {
+    console.log("[Compiler] Running the cached build");
+    opts.logger?.info("[Compiler] Unchanged since the last build - cached");
+    opts.onCacheHit?.();
+    opts.onDiagnostics?.(cached.diagnostics);
+    return await runCompiledScene(cached, files);
+  }
+
+  let output: CompiledScene;
   if (shouldUseWebContainer) {
     console.log("[Compiler] Using WebContainer (Vite) compilation");
     opts.logger?.info("[Compiler] Using WebContainer (Vite) compilation");
     try {
-      // Load canvas-commons if needed
-      if (
-        features.externalPackages.includes("@hhenrichsen/canvas-commons") &&
-        opts.loadCanvasCommons
-      ) {
-        await opts.loadCanvasCommons();
-      }
-
-      return await compileWithWebContainer(
-        code,
+      output = await compileWithWebContainer(
+        files,
         features,
         opts.onProgress,
         opts.logger,
@@ -103,56 +205,125 @@ export async function compileScene(
 
       console.warn("[Compiler] Falling back to Babel compilation");
       opts.logger?.warn("[Compiler] Falling back to Babel compilation");
-      return await compileWithBabel(
-        code,
-        opts.loadCanvasCommons,
-        opts.loadMotionCanvasGraphing,
-        opts.loadThree,
-        opts.loadShiki,
-        opts.loadShikiHighlighter,
-        opts.loadLezer,
+      output = await compileWithBabel(
+        files,
+        opts.decorators ?? "legacy",
+        opts.onDiagnostics,
+        importMap,
+        importMapError,
       );
     }
   } else {
     console.log("[Compiler] Using Babel compilation");
     opts.logger?.info("[Compiler] Using Babel compilation");
-    return await compileWithBabel(
-      code,
-      opts.loadCanvasCommons,
-      opts.loadMotionCanvasGraphing,
-      opts.loadThree,
-      opts.loadShiki,
-      opts.loadShikiHighlighter,
-      opts.loadLezer,
+    output = await compileWithBabel(
+      files,
+      opts.decorators ?? "legacy",
+      opts.onDiagnostics,
+      importMap,
+      importMapError,
     );
   }
+
+  opts.onDiagnostics?.(output.diagnostics);
+  const scene = await runCompiledScene(output, files);
+  getCacheKey(output.compiler)
+    .then((key) => saveCompiledScene(key, output))
+    .catch((error) => {
+      console.warn("[Compiler] Failed to cache the build:", error);
+    });
+  return scene;
 }
 
-async function compileWithBabel(
-  code: string,
-  loadCanvasCommons?: () => Promise<unknown>,
-  loadMotionCanvasGraphing?: () => Promise<unknown>,
-  loadThree?: () => Promise<unknown>,
-  loadShiki?: () => Promise<unknown>,
-  loadShikiHighlighter?: () => Promise<unknown>,
-  loadLezer?: () => Promise<unknown>,
+/**
+ * Look up a build in the compile cache. Compiling goes on without it when
+ * it's unavailable, e.g. outside a secure context.
+ */
+async function findCachedScene(
+  key: Promise<string>,
+): Promise<CompiledScene | null> {
+  try {
+    return await loadCompiledScene(await key);
+  } catch (error) {
+    console.warn("[Compiler] Compile cache unavailable:", error);
+    return null;
+  }
+}
+
+/**
+ * Run a build and return the scene it exports by default, loading the
+ * bundled packages it imports first
+ */
+async function runCompiledScene(
+  output: CompiledScene,
+  files: ProjectFiles,
 ): Promise<unknown> {
+  try {
+    await loadBundledPackages(output.packages);
+
+    const sceneModule =
+      output.compiler === "webcontainer"
+        ? await executeCompiledCode(output.modules[0].code, files)
+        : await executeCompiledModules(output.modules);
+
+    if (!sceneModule.default) {
+      throw new Error("Code must export a default scene");
+    }
+
+    return sceneModule.default;
+  } catch (error: any) {
+    throw new Error(`Compilation error: ${error.message}`);
+  }
+}
+
+/**
+ * Babel plugins for the decorator version. Legacy decorators are compiled
+ * before TypeScript strips `declare` fields, with fields assigned in the
+ * constructor as under Motion Canvas's ES2020 target; standard decorators
+ * work on the fields TypeScript leaves.
+ */
+function getDecoratorPlugins(decorators: DecoratorVersion): PluginItem[] {
+  const typescript: PluginItem = [
+    "transform-typescript",
+    { allExtensions: true, isTSX: true, allowDeclareFields: true },
+  ];
+
+  if (decorators === "2023-05") {
+    return [typescript, ["proposal-decorators", { version: "2023-05" }]];
+  }
+  return [
+    legacyDecorators,
+    typescript,
+    ["transform-class-properties", { loose: true }],
+    ["transform-private-methods", { loose: true }],
+  ];
+}
+
+/**
+ * Compile the project files with Babel, into one module per file. When the
+ * import map couldn't be created, its error explains the packages that
+ * can't be found.
+ */
+async function compileWithBabel(
+  files: ProjectFiles,
+  decorators: DecoratorVersion,
+  onDiagnostics?: (diagnostics: CompileDiagnostic[]) => void,
+  importMap?: ImportMap | null,
+  importMapError?: string,
+): Promise<CompiledScene> {
   try {
     const Babel = await import("@babel/standalone");
 
-    const filename = "fiddle.tsx";
     const undeclaredVariables = new Set();
-    const errors: { from: number; to: number; tooltip: string }[] = [];
-    let result: { code: string } | null = null;
+    const errors: CompileDiagnostic[] = [];
+    const compiledModules = new Map<string, string>();
+    const sourceMaps = new Map<string, RawSourceMap>();
+    const dependencies = new Map<string, string[]>();
     let errorMessage: string | null = null;
-    const context: CompilationContext = {
-      hasCanvasCommons: false,
-      hasMotionCanvasGraphing: false,
-      hasThree: false,
-      hasShiki: false,
-      hasShikiHighlighter: false,
-      hasLezer: false,
-    };
+    // Bundled packages the project imports, which are loaded before it runs
+    const bundledModules = new Set<string>();
+    // Other packages, and the URLs the import map resolved them to
+    const importedUrls = new Map<string, string>();
 
     const globals = new Set([
       "console",
@@ -177,108 +348,139 @@ async function compileWithBabel(
       "isFinite",
     ]);
 
-    try {
-      const transformResult = Babel.transform(code, {
-        filename,
-        presets: [
-          [
-            "typescript",
-            {
-              allExtensions: true,
-              isTSX: true,
-            },
-          ],
-          [
-            "react",
-            {
-              runtime: "automatic",
-              importSource: "@motion-canvas/2d",
-            },
-          ],
-        ],
-        plugins: [
-          ({ types }) => ({
-            visitor: {
-              ImportDeclaration(path: any) {
-                const sourceValue = path.node.source.value;
-
-                if (sourceValue.startsWith("@motion-canvas/core")) {
-                  path.node.source.value = "@motion-canvas/core";
-                }
-                if (sourceValue.startsWith("@motion-canvas/2d")) {
-                  path.node.source.value = "@motion-canvas/2d";
-                }
-                if (sourceValue.startsWith("@hhenrichsen/canvas-commons")) {
-                  context.hasCanvasCommons = true;
-                  path.node.source.value = "@hhenrichsen/canvas-commons";
-                }
-                if (
-                  sourceValue.startsWith("@spidunno/motion-canvas-graphing")
-                ) {
-                  context.hasMotionCanvasGraphing = true;
-                  path.node.source.value = "@spidunno/motion-canvas-graphing";
-                }
-                if (sourceValue.startsWith("three")) {
-                  context.hasThree = true;
-                  path.node.source.value = "three";
-                }
-                if (
-                  sourceValue.startsWith("shiki") &&
-                  !sourceValue.startsWith("./shiki")
-                ) {
-                  context.hasShiki = true;
-                  path.node.source.value = "shiki";
-                }
-                if (sourceValue === "./shiki") {
-                  context.hasShikiHighlighter = true;
-                  path.node.source.value = "./shiki";
-                }
-                if (sourceValue.startsWith("@lezer/")) {
-                  context.hasLezer = true;
-                  // Keep the full path for lezer sub-packages
-                }
-              },
-              ReferencedIdentifier(path: any) {
-                const { node, scope } = path;
-
-                if (
-                  types.isIdentifier(node) &&
-                  !scope.hasBinding(node.name) &&
-                  !globals.has(node.name)
-                ) {
-                  undeclaredVariables.add(node.name);
-                  errors.push({
-                    from: node.start,
-                    to: node.end,
-                    tooltip: `Cannot find name '${node.name}'.`,
-                  });
-                }
-              },
-            },
-          }),
-        ],
-      });
+    for (const [filename, code] of Object.entries(files)) {
+      const moduleDependencies: string[] = [];
+      dependencies.set(filename, moduleDependencies);
+
+      // Point relative specifiers at other project files, and the rest at
+      // bundled packages or the URLs the import map gives
+      const resolveSource = (source: any): void => {
+        const sourceValue: string = source.value;
+
+        const resolved =
+          isRelativeSpecifier(sourceValue) &&
+          resolveRelativeImport(filename, sourceValue, files);
+        if (resolved) {
+          moduleDependencies.push(resolved);
+          source.value = `${MODULE_PLACEHOLDER_PREFIX}${resolved}`;
+          return;
+        }
 
-      if (!transformResult || !transformResult.code) {
-        throw new Error("Babel transformation failed");
-      }
+        const bundled = resolveBundledPackage(sourceValue);
+        if (bundled) {
+          bundledModules.add(bundled.name);
+          return;
+        }
 
-      result = { code: transformResult.code };
-    } catch (error: any) {
-      const match = /(.*) \(\d+:\d+\)/.exec(
-        error.message.slice(filename.length + 1),
-      );
-      errorMessage = match ? match[1] : error.message;
-      if (error.loc) {
+        const url = importMap && resolveImport(importMap, sourceValue);
+        if (url) {
+          importedUrls.set(sourceValue, url);
+          source.value = url;
+          return;
+        }
+
+        const reason = importMapError ? ` ${importMapError}` : "";
+        if (!errorMessage) {
+          errorMessage = `${filename}: Cannot find module '${sourceValue}'.${reason}`;
+        }
         errors.push({
-          from: error.pos as number,
-          to: error.pos as number,
-          tooltip: errorMessage || "Unknown error",
+          file: filename,
+          from: source.start,
+          to: source.end,
+          message: `Cannot find module '${sourceValue}'.${reason}`,
+        });
+      };
+
+      try {
+        const transformResult = Babel.transform(code, {
+          filename,
+          sourceMaps: true,
+          sourceFileName: filename,
+          presets: [
+            [
+              "react",
+              {
+                runtime: "automatic",
+                importSource: "@motion-canvas/2d",
+              },
+            ],
+          ],
+          plugins: [
+            ({ types }) => ({
+              visitor: {
+                ImportDeclaration(path: any) {
+                  resolveSource(path.node.source);
+                },
+                ExportNamedDeclaration(path: any) {
+                  if (path.node.source) {
+                    resolveSource(path.node.source);
+                  }
+                },
+                ExportAllDeclaration(path: any) {
+                  resolveSource(path.node.source);
+                },
+                CallExpression(path: any) {
+                  const [source] = path.node.arguments;
+                  if (
+                    types.isImport(path.node.callee) &&
+                    types.isStringLiteral(source)
+                  ) {
+                    resolveSource(source);
+                  }
+                },
+                ReferencedIdentifier(path: any) {
+                  const { node, scope } = path;
+
+                  if (
+                    types.isIdentifier(node) &&
+                    !scope.hasBinding(node.name) &&
+                    !globals.has(node.name)
+                  ) {
+                    undeclaredVariables.add(node.name);
+                    errors.push({
+                      file: filename,
+                      from: node.start,
+                      to: node.end,
+                      message: `Cannot find name '${node.name}'.`,
+                    });
+                  }
+                },
+              },
+            }),
+            ...getDecoratorPlugins(decorators),
+          ],
         });
+
+        if (!transformResult || !transformResult.code) {
+          throw new Error("Babel transformation failed");
+        }
+
+        compiledModules.set(filename, transformResult.code);
+        if (transformResult.map) {
+          sourceMaps.set(filename, transformResult.map as RawSourceMap);
+        }
+      } catch (error: any) {
+        const match = /(.*) \(\d+:\d+\)/.exec(
+          error.message.slice(filename.length + 1),
+        );
+        const message = match ? match[1] : error.message;
+        if (!errorMessage) {
+          errorMessage =
+            filename === ENTRY_FILE ? message : `${filename}: ${message}`;
+        }
+        if (error.loc) {
+          errors.push({
+            file: filename,
+            from: error.pos as number,
+            to: error.pos as number,
+            message: message || "Unknown error",
+          });
+        }
       }
     }
 
     if (errors.length > 0) {
+      onDiagnostics?.(errors);
       throw new Error(
         errorMessage ??
           `Cannot find names: ${Array.from(undeclaredVariables).join(
@@ -287,310 +489,118 @@ async function compileWithBabel(
       );
     }
 
-    // Load external libraries if needed
-    if (context.hasCanvasCommons && loadCanvasCommons) {
-      await loadCanvasCommons();
-    }
-    if (context.hasMotionCanvasGraphing && loadMotionCanvasGraphing) {
-      await loadMotionCanvasGraphing();
-    }
-    if (context.hasThree && loadThree) {
-      await loadThree();
-    }
-    if (context.hasShiki && loadShiki) {
-      await loadShiki();
-    }
-    if (context.hasShikiHighlighter && loadShikiHighlighter) {
-      await loadShikiHighlighter();
-    }
-    if (context.hasLezer && loadLezer) {
-      await loadLezer();
+    // Load the bundled packages the project uses
+    await loadBundledPackages(bundledModules);
+    if (importedUrls.size > 0) {
+      console.log(
+        "[Compiler] Importing packages through the import map:",
+        Object.fromEntries(importedUrls),
+      );
     }
 
-    if (!result) {
+    if (!compiledModules.has(ENTRY_FILE)) {
       throw new Error("Compilation failed");
     }
 
-    let finalCode = replaceImportsWithGlobals(result.code);
-    const sceneModule = await executeCompiledCode(finalCode);
-
-    if (!sceneModule.default) {
-      throw new Error("Code must export a default scene");
-    }
+    const modules = orderModules(ENTRY_FILE, dependencies).map(
+      (filename): CompiledModule => {
+        // Unresolved specifiers were reported above, and the rest are the
+        // placeholders of project files
+        const { code, map } = rewriteImports(
+          Babel,
+          compiledModules.get(filename)!,
+          sourceMaps.get(filename),
+        );
+        return { filename, code, map: map ?? sourceMaps.get(filename) ?? null };
+      },
+    );
 
-    return sceneModule.default;
+    return {
+      compiler: "babel",
+      modules,
+      packages: Array.from(bundledModules),
+      diagnostics: errors,
+    };
   } catch (error: any) {
     throw new Error(`Compilation error: ${error.message}`);
   }
 }
 
-function replaceImportsWithGlobals(code: string): string {
-  let finalCode = code;
-
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@motion-canvas\/core['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ").map((s) => s.trim());
-          return `const ${alias} = window.CanvasCore.${original};`;
-        } else {
-          return `const ${trimmed} = window.CanvasCore.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@motion-canvas\/2d['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ").map((s) => s.trim());
-          return `const ${alias} = window.Canvas2D.${original};`;
-        } else {
-          return `const ${trimmed} = window.Canvas2D.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s+(\w+)\s*from\s*['"]@motion-canvas\/(core|2d)['"]/g,
-    (_match, importName, packageName) => {
-      const moduleName = packageName === "core" ? "CanvasCore" : "Canvas2D";
-      return `const ${importName} = window.${moduleName}.${importName};`;
-    },
-  );
-
-  // Handle canvas-commons imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@hhenrichsen\/canvas-commons['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ").map((s) => s.trim());
-          return `const ${alias} = window.CanvasCommons.${original};`;
-        } else {
-          return `const ${trimmed} = window.CanvasCommons.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s+(\w+)\s*from\s*['"]@hhenrichsen\/canvas-commons['"]/g,
-    (_match, importName) => {
-      return `const ${importName} = window.CanvasCommons.${importName};`;
-    },
-  );
-
-  // Handle motion-canvas-graphing imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@spidunno\/motion-canvas-graphing['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ").map((s) => s.trim());
-          return `const ${alias} = window.MotionCanvasGraphing.${original};`;
-        } else {
-          return `const ${trimmed} = window.MotionCanvasGraphing.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s+(\w+)\s*from\s*['"]@spidunno\/motion-canvas-graphing['"]/g,
-    (_match, importName) => {
-      return `const ${importName} = window.MotionCanvasGraphing.${importName};`;
-    },
-  );
-
-  // Handle three.js imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]three['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ").map((s) => s.trim());
-          return `const ${alias} = window.THREE.${original};`;
-        } else {
-          return `const ${trimmed} = window.THREE.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s+\*\s+as\s+(\w+)\s*from\s*['"]three['"]/g,
-    (_match, importName) => {
-      return `const ${importName} = window.THREE;`;
-    },
-  );
-
-  // Handle shiki imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]shiki['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ").map((s) => s.trim());
-          return `const ${alias} = window.Shiki.${original};`;
-        } else {
-          return `const ${trimmed} = window.Shiki.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s+\*\s+as\s+(\w+)\s*from\s*['"]shiki['"]/g,
-    (_match, importName) => {
-      return `const ${importName} = window.Shiki;`;
-    },
-  );
-
-  // Handle lezer imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@lezer\/common['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ").map((s) => s.trim());
-          return `const ${alias} = window.LezerCommon.${original};`;
-        } else {
-          return `const ${trimmed} = window.LezerCommon.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@lezer\/highlight['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ").map((s) => s.trim());
-          return `const ${alias} = window.LezerHighlight.${original};`;
-        } else {
-          return `const ${trimmed} = window.LezerHighlight.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@lezer\/lr['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ").map((s) => s.trim());
-          return `const ${alias} = window.LezerLR.${original};`;
-        } else {
-          return `const ${trimmed} = window.LezerLR.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  // Handle lezer language parsers
-  const lezerParsers = [
-    { pkg: "cpp", window: "LezerCpp" },
-    { pkg: "css", window: "LezerCss" },
-    { pkg: "go", window: "LezerGo" },
-    { pkg: "html", window: "LezerHtml" },
-    { pkg: "java", window: "LezerJava" },
-    { pkg: "javascript", window: "LezerJavascript" },
-    { pkg: "json", window: "LezerJson" },
-    { pkg: "markdown", window: "LezerMarkdown" },
-    { pkg: "php", window: "LezerPhp" },
-    { pkg: "python", window: "LezerPython" },
-    { pkg: "rust", window: "LezerRust" },
-    { pkg: "sass", window: "LezerSass" },
-    { pkg: "xml", window: "LezerXml" },
-    { pkg: "yaml", window: "LezerYaml" },
-  ];
-
-  for (const { pkg, window: windowVar } of lezerParsers) {
-    const pattern = new RegExp(
-      `import\\s*{\\s*([^}]+)\\s*}\\s*from\\s*['"]@lezer/${pkg}['"]`,
-      "g",
-    );
-    finalCode = finalCode.replace(pattern, (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.${windowVar}.${original};`;
-        } else {
-          return `const ${trimmed} = window.${windowVar}.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    });
-  }
+/**
+ * Order modules so that every module comes after the modules it imports.
+ * Only modules reachable from the entry are included.
+ */
+function orderModules(
+  entry: string,
+  dependencies: Map<string, string[]>,
+): string[] {
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const visiting: string[] = [];
+
+  const visit = (filename: string): void => {
+    if (visited.has(filename)) return;
+
+    if (visiting.includes(filename)) {
+      const cycle = [...visiting.slice(visiting.indexOf(filename)), filename];
+      throw new Error(
+        `Circular imports are not supported: ${cycle.join(" -> ")}`,
+      );
+    }
 
-  // Handle local ./shiki module
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]\.\/shiki['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed.split(" as ").map((s) => s.trim());
-          return `const ${alias} = window.${original};`;
-        } else {
-          return `const ${trimmed} = window.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
+    visiting.push(filename);
+    for (const dependency of dependencies.get(filename) ?? []) {
+      visit(dependency);
+    }
+    visiting.pop();
 
-  finalCode = finalCode.replace(
-    /import\s+(\w+)\s*from\s*['"]\.\/shiki['"]/g,
-    (_match, importName) => {
-      return `const ${importName} = window.${importName};`;
-    },
-  );
+    visited.add(filename);
+    order.push(filename);
+  };
 
-  return finalCode;
+  visit(entry);
+  return order;
 }
 
-async function executeCompiledCode(
-  code: string,
+/**
+ * Load compiled modules as blob URLs, dependencies first, and import the last
+ * one (the entry). Relative import placeholders are replaced with the blob URL
+ * of the module they refer to. Source maps are registered under the blob URLs
+ * so runtime errors can be traced back to the project files.
+ */
+async function executeCompiledModules(
+  modules: CompiledModule[],
 ): Promise<{ default: unknown }> {
-  const blob = new Blob([code], { type: "application/javascript" });
-  const url = URL.createObjectURL(blob);
+  const urls = new Map<string, string>();
+  clearSourceMaps();
 
   try {
+    for (const { filename, code: compiled, map } of modules) {
+      let code = compiled.replace(
+        new RegExp(`(['"])${MODULE_PLACEHOLDER_PREFIX}([^'"]+)\\1`, "g"),
+        (_match, quote, dependency) =>
+          `${quote}${urls.get(dependency)}${quote}`,
+      );
+      if (map) {
+        code += createInlineSourceMap(map);
+      }
+
+      const blob = new Blob([code], { type: "application/javascript" });
+      const url = URL.createObjectURL(blob);
+      urls.set(filename, url);
+      if (map) {
+        registerSourceMap(url, map);
+      }
+    }
+
     const module = await import(
       /* @vite-ignore */
-      url
+      urls.get(modules[modules.length - 1].filename)!
     );
     return module;
   } finally {
-    URL.revokeObjectURL(url);
+    for (const url of urls.values()) {
+      URL.revokeObjectURL(url);
+    }
   }
 }
@@ -0,0 +1,110 @@
+import { html, css, type TemplateResult } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { EditorState } from "@codemirror/state";
+import { EditorView, lineNumbers } from "@codemirror/view";
+import { javascript } from "@codemirror/lang-javascript";
+import {
+  syntaxHighlighting,
+  defaultHighlightStyle,
+  foldGutter,
+} from "@codemirror/language";
+import { catppuccinMocha } from "@catppuccin/codemirror";
+import type { DefinitionLocation } from "../type-checker";
+import { BaseModal } from "./base-modal.js";
+import "./base-button.js";
+
+export type LibraryDefinition = Extract<
+  DefinitionLocation,
+  { kind: "library" }
+>;
+
+/**
+ * Read-only view of a bundled library's typings, opened on a declaration
+ */
+@customElement("declaration-modal")
+export class DeclarationModal extends BaseModal {
+  @property({ attribute: false })
+  declaration: LibraryDefinition | null = null;
+
+  private view: EditorView | null = null;
+
+  static styles = [
+    BaseModal.styles,
+    css`
+      .modal-content {
+        width: 900px;
+      }
+
+      .modal-body {
+        padding: 0;
+      }
+
+      .declaration {
+        height: 60vh;
+      }
+    `,
+  ];
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.title = this.declaration
+      ? this.declaration.file.replace(/^\/node_modules\//, "")
+      : "Declaration";
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.view?.destroy();
+    this.view = null;
+  }
+
+  protected renderBody(): TemplateResult {
+    return html`<div class="declaration"></div>`;
+  }
+
+  protected renderFooter(): TemplateResult {
+    return html`
+      <base-button variant="primary" @click=${this.handleClose}>
+        Close
+      </base-button>
+    `;
+  }
+
+  firstUpdated(): void {
+    super.firstUpdated();
+
+    const parent = this.renderRoot.querySelector<HTMLElement>(".declaration");
+    if (!parent || !this.declaration) return;
+
+    const { content, from, to } = this.declaration;
+    this.view = new EditorView({
+      parent,
+      root: this.shadowRoot ?? undefined,
+      state: EditorState.create({
+        doc: content,
+        selection: { anchor: from, head: to },
+        extensions: [
+          lineNumbers(),
+          foldGutter(),
+          syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+          javascript({ typescript: true }),
+          EditorState.readOnly.of(true),
+          catppuccinMocha,
+          EditorView.theme({
+            "&": { height: "100%" },
+            ".cm-scroller": { overflow: "auto" },
+          }),
+        ],
+      }),
+    });
+    this.view.dispatch({
+      effects: EditorView.scrollIntoView(from, { y: "center" }),
+    });
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "declaration-modal": DeclarationModal;
+  }
+}
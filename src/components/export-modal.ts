@@ -3,22 +3,163 @@ import { customElement, property, state } from "lit/decorators.js";
 import { BaseModal } from "./base-modal.js";
 import "./base-button.js";
 import {
+  isHTMLInputElement,
   isHTMLSelectElement,
   validateNumberInput,
   validateFloatInput,
 } from "../utils/index.js";
-import type { ExportProgress } from "../export-controller";
+import type {
+  ExportJobResult,
+  ExportProgress,
+  ExportRange,
+} from "../export-controller";
+import type { SceneInfo } from "../player";
+import {
+  CODEC_LABELS,
+  CONTAINER_CODECS,
+  downloadBlob,
+  probeVideoCodecs,
+  type VideoCodec,
+  type VideoContainer,
+} from "../video-exporter";
+import { canEncodeWebP } from "../webp-exporter";
+import {
+  canCopyImages,
+  MAX_EXPORT_SCALE,
+  MIN_EXPORT_SCALE,
+  type StillFormat,
+} from "../still-exporter";
+import {
+  loadExportPresets,
+  mergeExportPresets,
+  parseExportPresets,
+  saveExportPresets,
+  serializeExportPresets,
+  type ExportPreset,
+  type ExportPresetSettings,
+} from "../export-presets";
+
+/** Formats rendered through the browser's image encoders */
+type ImageFormat = "png" | "webp" | "apng";
+
+export type ExportFormat = VideoContainer | "gif" | ImageFormat | "still";
+
+const SCALE_PRESETS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4];
+
+const FORMAT_TITLES: Record<ExportFormat, string> = {
+  mp4: "Export MP4",
+  webm: "Export WebM",
+  gif: "Export GIF",
+  png: "Export PNG Sequence",
+  webp: "Export Animated WebP",
+  apng: "Export APNG",
+  still: "Export Current Frame",
+};
 
-export type ExportFormat = "mp4" | "gif";
+/** Short format names used for preset names */
+const FORMAT_NAMES: Record<ExportFormat, string> = {
+  mp4: "MP4",
+  webm: "WebM",
+  gif: "GIF",
+  png: "PNG Sequence",
+  webp: "WebP",
+  apng: "APNG",
+  still: "Frame",
+};
+
+/** Settings chosen in the modal, as sent with the "start" event */
+export interface ExportRequest {
+  format: ExportFormat;
+  range?: ExportRange;
+  [setting: string]: unknown;
+}
+
+/** An export waiting in the queue under a preset name */
+export interface QueuedExport {
+  name: string;
+  settings: ExportRequest;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function isVideoFormat(format: ExportFormat): format is VideoContainer {
+  return format in CONTAINER_CODECS;
+}
+
+type RangeMode = "all" | "scene" | "event" | "custom";
+
+type RangeUnit = "seconds" | "frames";
+
+/**
+ * A time event together with the span it starts, which lasts until the next
+ * event in the same scene or the end of the scene
+ */
+interface EventSpan {
+  label: string;
+  range: ExportRange;
+}
 
 @customElement("export-modal")
 export class ExportModal extends BaseModal {
   @property({ type: Object })
   progress?: ExportProgress;
 
+  @property({ type: Number })
+  videoWidth = 1920;
+
+  @property({ type: Number })
+  videoHeight = 1080;
+
+  /** Transparent frames are only possible when the project has no background */
+  @property({ type: Boolean })
+  canExportTransparent = false;
+
+  @property({ type: Array })
+  scenes: SceneInfo[] = [];
+
+  /** Length of the animation in frames at `sourceFps` */
+  @property({ type: Number })
+  duration = 0;
+
+  @property({ type: Number })
+  sourceFps = 30;
+
+  /** The preview's frame, exported by the "still" format */
+  @property({ type: Number })
+  currentFrame = 0;
+
+  /** Format selected when the modal opens */
+  @property({ type: String })
+  initialFormat?: ExportFormat;
+
   @state()
   private format: ExportFormat = "mp4";
 
+  // Range settings
+  @state()
+  private rangeMode: RangeMode = "all";
+
+  @state()
+  private rangeScene = 0;
+
+  @state()
+  private rangeEvent = 0;
+
+  @state()
+  private rangeUnit: RangeUnit = "seconds";
+
+  /** Custom in and out points, in seconds */
+  @state()
+  private rangeIn = 0;
+
+  @state()
+  private rangeOut = 0;
+
   @state()
   private fps = 30;
 
@@ -28,6 +169,21 @@ export class ExportModal extends BaseModal {
   @state()
   private bitrate = 5000000;
 
+  @state()
+  private videoCodec: VideoCodec = "avc";
+
+  /** Output size relative to the project resolution */
+  @state()
+  private scale = 1;
+
+  /** Whether the output width is entered instead of picked from a preset */
+  @state()
+  private customSize = false;
+
+  /** Encoder support per codec; undefined while probing */
+  @state()
+  private codecSupport?: Record<VideoCodec, boolean>;
+
   // GIF-specific settings
   @state()
   private gifFps = 15;
@@ -36,10 +192,54 @@ export class ExportModal extends BaseModal {
   private gifQuality = 10;
 
   @state()
-  private gifScale = 1;
+  private gifDither: string | false = "FloydSteinberg";
 
+  // PNG sequence, WebP and APNG settings
   @state()
-  private gifDither: string | false = "FloydSteinberg";
+  private imageFps = 30;
+
+  @state()
+  private transparent = true;
+
+  @state()
+  private webpQuality = 0.8;
+
+  /** Number of plays for animated images, 0 = forever */
+  @state()
+  private loopCount = 0;
+
+  private webpSupported = canEncodeWebP();
+
+  // Still image settings
+  @state()
+  private stillFormat: StillFormat = "png";
+
+  @state()
+  private stillQuality = 0.92;
+
+  @state()
+  private copyToClipboard = false;
+
+  // Export queue
+  @state()
+  private queue: QueuedExport[] = [];
+
+  @state()
+  private presetName = "";
+
+  // Saved presets
+  @state()
+  private presets: ExportPreset[] = loadExportPresets();
+
+  /** Name of the preset last loaded or saved */
+  @state()
+  private selectedPreset = "";
+
+  @state()
+  private newPresetName = "";
+
+  @state()
+  private presetMessage?: { text: string; error: boolean };
 
   static styles = [
     BaseModal.styles,
@@ -60,8 +260,11 @@ export class ExportModal extends BaseModal {
         font-weight: 500;
       }
 
-      select {
+      select,
+      input[type="number"],
+      input[type="text"] {
         width: 100%;
+        box-sizing: border-box;
         padding: 8px 12px;
         background: var(--ctp-mocha-surface1);
         border: 1px solid var(--ctp-mocha-surface2);
@@ -70,11 +273,121 @@ export class ExportModal extends BaseModal {
         transition: border-color 0.2s;
       }
 
-      select:focus {
+      select:focus,
+      input[type="number"]:focus,
+      input[type="text"]:focus {
         outline: none;
         border-color: var(--ctp-mocha-sky);
       }
 
+      option:disabled {
+        color: var(--ctp-mocha-overlay0);
+      }
+
+      .checkbox-label {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-weight: normal;
+      }
+
+      input[type="checkbox"] {
+        accent-color: var(--ctp-mocha-sky);
+      }
+
+      .range-points {
+        display: flex;
+        gap: 12px;
+        margin-top: 8px;
+      }
+
+      .range-points > div {
+        flex: 1;
+      }
+
+      .range-points label {
+        font-size: 12px;
+        font-weight: normal;
+      }
+
+      .queue-list {
+        list-style: none;
+        margin: 0 0 8px;
+        padding: 0;
+      }
+
+      .queue-item {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 12px;
+        padding: 6px 0;
+        border-bottom: 1px solid var(--ctp-mocha-surface1);
+        color: var(--ctp-mocha-text);
+        font-size: 13px;
+      }
+
+      .queue-item-detail {
+        color: var(--ctp-mocha-overlay0);
+        font-size: 12px;
+        text-align: right;
+      }
+
+      .queue-item-detail.error {
+        color: var(--ctp-mocha-red);
+      }
+
+      .queue-remove {
+        background: none;
+        border: none;
+        color: var(--ctp-mocha-overlay0);
+        cursor: pointer;
+        font-size: 16px;
+        padding: 0 4px;
+      }
+
+      .queue-remove:hover {
+        color: var(--ctp-mocha-red);
+      }
+
+      .input-row {
+        display: flex;
+        gap: 8px;
+      }
+
+      .input-row input,
+      .input-row select {
+        flex: 1;
+      }
+
+      .input-row base-button {
+        flex-shrink: 0;
+      }
+
+      .input-row + .input-row {
+        margin-top: 8px;
+      }
+
+      #preset-input {
+        display: none;
+      }
+
+      .codec-note.error {
+        color: var(--ctp-mocha-red);
+      }
+
+      .queue-job {
+        color: var(--ctp-mocha-text);
+        font-size: 14px;
+        margin-bottom: 12px;
+      }
+
+      .codec-note {
+        color: var(--ctp-mocha-overlay0);
+        font-size: 12px;
+        margin-top: 8px;
+      }
+
       .export-progress {
         background: var(--ctp-mocha-surface1);
         padding: 20px;
@@ -121,45 +434,132 @@ export class ExportModal extends BaseModal {
 
   connectedCallback() {
     super.connectedCallback();
+    if (this.initialFormat) {
+      this.format = this.initialFormat;
+    }
     this.updateTitle();
-    this.disabled = !!this.progress;
+    this.disabled = !!this.progress && !this.progress.results;
   }
 
   updated(changedProperties: Map<string | number | symbol, unknown>) {
     super.updated(changedProperties);
     if (changedProperties.has("progress")) {
-      this.disabled = !!this.progress;
+      // The summary of a queue stays open until it is dismissed
+      this.disabled = !!this.progress && !this.progress.results;
     }
     if (changedProperties.has("format")) {
       this.updateTitle();
     }
+    if (
+      changedProperties.has("videoWidth") ||
+      changedProperties.has("videoHeight") ||
+      changedProperties.has("bitrate") ||
+      changedProperties.has("scale")
+    ) {
+      this.probeCodecs();
+    }
   }
 
   private updateTitle(): void {
-    this.title = this.format === "mp4" ? "Export MP4" : "Export GIF";
+    this.title = FORMAT_TITLES[this.format];
+  }
+
+  private async probeCodecs(): Promise<void> {
+    this.codecSupport = undefined;
+    const support = await probeVideoCodecs(
+      this.outputWidth,
+      this.outputHeight,
+      this.bitrate,
+    );
+    this.codecSupport = support;
+    this.selectSupportedCodec();
+  }
+
+  /**
+   * Switch to the first usable codec when the selected one is unavailable
+   */
+  private selectSupportedCodec(): void {
+    if (!isVideoFormat(this.format)) return;
+
+    const codecs = CONTAINER_CODECS[this.format];
+    if (
+      !codecs.includes(this.videoCodec) ||
+      !this.isCodecSupported(this.videoCodec)
+    ) {
+      this.videoCodec =
+        codecs.find((codec) => this.isCodecSupported(codec)) ?? codecs[0];
+    }
+  }
+
+  private isCodecSupported(codec: VideoCodec): boolean {
+    return this.codecSupport?.[codec] === true;
   }
 
   protected renderBody(): TemplateResult {
     if (!this.progress) {
       return html`
+        ${this.renderPresetSettings()}
+
         <div class="settings-group">
           <label for="export-format">Format</label>
           <select id="export-format" @change=${this.handleFormatChange}>
             <option value="mp4" ?selected=${this.format === "mp4"}>
               MP4 (Video)
             </option>
+            <option value="webm" ?selected=${this.format === "webm"}>
+              WebM (Video)
+            </option>
             <option value="gif" ?selected=${this.format === "gif"}>
               GIF (Animated Image)
             </option>
+            <option
+              value="webp"
+              ?selected=${this.format === "webp"}
+              ?disabled=${!this.webpSupported}
+            >
+              WebP (Animated
+              Image)${this.webpSupported
+                ? ""
+                : " (not supported by this browser)"}
+            </option>
+            <option value="apng" ?selected=${this.format === "apng"}>
+              APNG (Animated Image)
+            </option>
+            <option value="png" ?selected=${this.format === "png"}>
+              PNG Sequence (ZIP)
+            </option>
+            <option value="still" ?selected=${this.format === "still"}>
+              Current Frame (Image)
+            </option>
           </select>
         </div>
 
-        ${this.format === "mp4" ? this.renderMP4Settings() : this.renderGIFSettings()}
+        ${this.format === "still" ? "" : this.renderRangeSettings()}
+        ${this.renderResolutionSettings()}
+        ${isVideoFormat(this.format)
+          ? this.renderVideoSettings(this.format)
+          : this.format === "gif"
+            ? this.renderGIFSettings()
+            : this.format === "still"
+              ? this.renderStillSettings()
+              : this.renderImageSettings(this.format)}
+        ${this.format === "still" ? "" : this.renderQueueSettings()}
       `;
     }
 
+    if (this.progress.results) {
+      return this.renderQueueSummary(this.progress.results);
+    }
+
+    const job = this.progress.job;
+
     return html`
       <div class="export-progress">
+        ${job
+          ? html`<div class="queue-job">
+              Job ${job.index + 1} of ${job.count} · ${job.name}
+            </div>`
+          : ""}
         <div class="progress-header">
           <span class="progress-phase">
             ${this.progress.phase.charAt(0).toUpperCase() +
@@ -180,38 +580,465 @@ export class ExportModal extends BaseModal {
     `;
   }
 
-  private renderMP4Settings(): TemplateResult {
+  private renderPresetSettings(): TemplateResult {
+    return html`
+      <div class="settings-group">
+        <label for="export-preset">Preset</label>
+        <div class="input-row">
+          <select id="export-preset" @change=${this.handlePresetChange}>
+            <option value="" ?selected=${!this.selectedPreset}>
+              Custom settings
+            </option>
+            ${this.presets.map(
+              (preset) => html`
+                <option
+                  value=${preset.name}
+                  ?selected=${this.selectedPreset === preset.name}
+                >
+                  ${preset.name}
+                </option>
+              `,
+            )}
+          </select>
+          <base-button
+            size="small"
+            ?disabled=${!this.selectedPreset}
+            @click=${this.handleDeletePreset}
+            >Delete</base-button
+          >
+        </div>
+        <div class="input-row">
+          <input
+            type="text"
+            placeholder="Save current settings as..."
+            .value=${this.newPresetName}
+            @input=${this.handleNewPresetNameInput}
+          />
+          <base-button
+            size="small"
+            ?disabled=${!this.newPresetName.trim() || this.format === "still"}
+            @click=${this.handleSavePreset}
+            >Save</base-button
+          >
+        </div>
+        <div class="input-row">
+          <base-button size="small" @click=${this.chooseImportFile}
+            >Import JSON</base-button
+          >
+          <base-button
+            size="small"
+            ?disabled=${this.presets.length === 0}
+            @click=${this.handleExportPresets}
+            >Export JSON</base-button
+          >
+          <input
+            type="file"
+            id="preset-input"
+            accept=".json,application/json"
+            @change=${this.handleImportPresets}
+          />
+        </div>
+        ${this.presetMessage
+          ? html`<div
+              class="codec-note ${this.presetMessage.error ? "error" : ""}"
+            >
+              ${this.presetMessage.text}
+            </div>`
+          : ""}
+      </div>
+    `;
+  }
+
+  private renderQueueSettings(): TemplateResult {
+    return html`
+      <div class="settings-group">
+        <label for="preset-name">Export Queue</label>
+        ${this.queue.length > 0
+          ? html`<ul class="queue-list">
+              ${this.queue.map(
+                (item, index) => html`
+                  <li class="queue-item">
+                    <span>${item.name}</span>
+                    <button
+                      class="queue-remove"
+                      title="Remove from queue"
+                      @click=${() => this.handleRemoveFromQueue(index)}
+                    >
+                      &times;
+                    </button>
+                  </li>
+                `,
+              )}
+            </ul>`
+          : ""}
+        <div class="input-row">
+          <input
+            id="preset-name"
+            type="text"
+            placeholder=${this.defaultPresetName}
+            .value=${this.presetName}
+            @input=${this.handlePresetNameInput}
+          />
+          <base-button
+            ?disabled=${!this.canStartExport}
+            @click=${this.handleAddToQueue}
+            >Add to Queue</base-button
+          >
+        </div>
+        <div class="codec-note">
+          ${this.queue.length > 0
+            ? "Queued presets are exported one after another."
+            : "Queue presets with different settings to export them in one run."}
+        </div>
+      </div>
+    `;
+  }
+
+  private renderQueueSummary(results: ExportJobResult[]): TemplateResult {
+    return html`
+      <ul class="queue-list">
+        ${results.map(
+          (result) => html`
+            <li class="queue-item">
+              <span>${result.name}</span>
+              ${result.file
+                ? html`<span class="queue-item-detail">
+                    ${result.file.filename} ·
+                    ${formatFileSize(result.file.size)}
+                  </span>`
+                : result.skipped
+                  ? html`<span class="queue-item-detail">Skipped</span>`
+                  : html`<span class="queue-item-detail error">
+                      ${result.error ?? "No file was produced"}
+                    </span>`}
+            </li>
+          `,
+        )}
+      </ul>
+      <div class="progress-message">${this.progress?.message}</div>
+    `;
+  }
+
+  private get defaultPresetName(): string {
+    const range = this.rangeMode === "all" ? null : this.getRange();
+    const size = `${this.outputWidth}×${this.outputHeight}`;
+    return range
+      ? `${FORMAT_NAMES[this.format]} ${size} (${range.start.toFixed(1)}–${range.end.toFixed(1)}s)`
+      : `${FORMAT_NAMES[this.format]} ${size}`;
+  }
+
+  private renderRangeSettings(): TemplateResult {
+    const events = this.getEventSpans();
+    const range = this.getRange();
+
+    return html`
+      <div class="settings-group">
+        <label for="export-range">Range</label>
+        <select id="export-range" @change=${this.handleRangeModeChange}>
+          <option value="all" ?selected=${this.rangeMode === "all"}>
+            Entire animation
+          </option>
+          <option
+            value="scene"
+            ?selected=${this.rangeMode === "scene"}
+            ?disabled=${this.scenes.length === 0}
+          >
+            Scene
+          </option>
+          <option
+            value="event"
+            ?selected=${this.rangeMode === "event"}
+            ?disabled=${events.length === 0}
+          >
+            Time event
+          </option>
+          <option value="custom" ?selected=${this.rangeMode === "custom"}>
+            Custom in/out points
+          </option>
+        </select>
+
+        ${this.rangeMode === "scene"
+          ? html`<div class="range-points">
+              <select @change=${this.handleRangeSceneChange}>
+                ${this.scenes.map(
+                  (scene, index) => html`
+                    <option
+                      value=${index}
+                      ?selected=${this.rangeScene === index}
+                    >
+                      ${scene.name}
+                    </option>
+                  `,
+                )}
+              </select>
+            </div>`
+          : this.rangeMode === "event"
+            ? html`<div class="range-points">
+                <select @change=${this.handleRangeEventChange}>
+                  ${events.map(
+                    (event, index) => html`
+                      <option
+                        value=${index}
+                        ?selected=${this.rangeEvent === index}
+                      >
+                        ${event.label}
+                      </option>
+                    `,
+                  )}
+                </select>
+              </div>`
+            : this.rangeMode === "custom"
+              ? this.renderCustomRange()
+              : ""}
+        ${range
+          ? html`<div class="codec-note">
+              ${range.start.toFixed(2)}s – ${range.end.toFixed(2)}s
+              (${(range.end - range.start).toFixed(2)}s)
+            </div>`
+          : html`<div class="codec-note">The selected range is empty.</div>`}
+      </div>
+    `;
+  }
+
+  private renderCustomRange(): TemplateResult {
+    const toUnit = (seconds: number) =>
+      this.rangeUnit === "frames"
+        ? Math.round(seconds * this.sourceFps)
+        : Number(seconds.toFixed(2));
+    const step = this.rangeUnit === "frames" ? 1 : 0.1;
+
+    return html`
+      <div class="range-points">
+        <div>
+          <label for="range-in">In</label>
+          <input
+            id="range-in"
+            type="number"
+            min="0"
+            step=${step}
+            .value=${String(toUnit(this.rangeIn))}
+            @change=${this.handleRangeInChange}
+          />
+        </div>
+        <div>
+          <label for="range-out">Out</label>
+          <input
+            id="range-out"
+            type="number"
+            min="0"
+            step=${step}
+            .value=${String(toUnit(this.rangeOut))}
+            @change=${this.handleRangeOutChange}
+          />
+        </div>
+        <div>
+          <label for="range-unit">Unit</label>
+          <select id="range-unit" @change=${this.handleRangeUnitChange}>
+            <option value="seconds" ?selected=${this.rangeUnit === "seconds"}>
+              Seconds
+            </option>
+            <option value="frames" ?selected=${this.rangeUnit === "frames"}>
+              Frames (${this.sourceFps} FPS)
+            </option>
+          </select>
+        </div>
+      </div>
+    `;
+  }
+
+  private get totalSeconds(): number {
+    return this.sourceFps > 0 ? this.duration / this.sourceFps : 0;
+  }
+
+  private getEventSpans(): EventSpan[] {
+    return this.scenes.flatMap((scene) => {
+      const sceneStart = scene.firstFrame / this.sourceFps;
+      const sceneEnd = scene.lastFrame / this.sourceFps;
+      const events = [...scene.events].sort(
+        (a, b) => a.targetTime - b.targetTime,
+      );
+
+      return events.map((event, index) => ({
+        label: `${scene.name} › ${event.name}`,
+        range: {
+          start: sceneStart + event.targetTime,
+          end:
+            index + 1 < events.length
+              ? sceneStart + events[index + 1].targetTime
+              : sceneEnd,
+        },
+      }));
+    });
+  }
+
+  /**
+   * The selected range in seconds, or null when it is empty
+   */
+  private getRange(): ExportRange | null {
+    let range: ExportRange;
+    switch (this.rangeMode) {
+      case "scene": {
+        const scene = this.scenes[this.rangeScene];
+        if (!scene) return null;
+        range = {
+          start: scene.firstFrame / this.sourceFps,
+          end: scene.lastFrame / this.sourceFps,
+        };
+        break;
+      }
+      case "event": {
+        const span = this.getEventSpans()[this.rangeEvent];
+        if (!span) return null;
+        range = span.range;
+        break;
+      }
+      case "custom":
+        range = { start: this.rangeIn, end: this.rangeOut };
+        break;
+      default:
+        range = { start: 0, end: this.totalSeconds };
+    }
+
+    const start = Math.max(0, Math.min(range.start, this.totalSeconds));
+    const end = Math.max(0, Math.min(range.end, this.totalSeconds));
+    return end > start ? { start, end } : null;
+  }
+
+  private renderResolutionSettings(): TemplateResult {
+    const sizeLabel = (scale: number) =>
+      `${Math.floor(this.videoWidth * scale)}×${Math.floor(this.videoHeight * scale)}`;
+
+    return html`
+      <div class="settings-group">
+        <label for="export-resolution">Resolution</label>
+        <select id="export-resolution" @change=${this.handleScaleChange}>
+          ${SCALE_PRESETS.map(
+            (scale) => html`
+              <option
+                value=${scale}
+                ?selected=${!this.customSize && this.scale === scale}
+              >
+                ${scale * 100}%
+                (${sizeLabel(scale)})${scale === 1 ? " · Original" : ""}
+              </option>
+            `,
+          )}
+          <option value="custom" ?selected=${this.customSize}>
+            Custom width...
+          </option>
+        </select>
+        ${this.customSize
+          ? html`<div class="range-points">
+              <div>
+                <label for="export-width">Width (px)</label>
+                <input
+                  id="export-width"
+                  type="number"
+                  min="16"
+                  step="2"
+                  .value=${String(this.outputWidth)}
+                  @change=${this.handleOutputWidthChange}
+                />
+              </div>
+              <div>
+                <label>Height (px)</label>
+                <input
+                  type="number"
+                  disabled
+                  .value=${String(this.outputHeight)}
+                />
+              </div>
+            </div>`
+          : ""}
+        <div class="codec-note">
+          Frames are rendered at this size, not upscaled from the preview.
+        </div>
+      </div>
+    `;
+  }
+
+  private get outputWidth(): number {
+    return Math.floor(this.videoWidth * this.scale);
+  }
+
+  private get outputHeight(): number {
+    return Math.floor(this.videoHeight * this.scale);
+  }
+
+  private renderVideoSettings(container: VideoContainer): TemplateResult {
+    const codecs = CONTAINER_CODECS[container];
+
     return html`
+      <div class="settings-group">
+        <label for="export-codec">Codec</label>
+        <select id="export-codec" @change=${this.handleCodecChange}>
+          ${codecs.map(
+            (codec) => html`
+              <option
+                value=${codec}
+                ?selected=${this.videoCodec === codec}
+                ?disabled=${!this.isCodecSupported(codec)}
+              >
+                ${CODEC_LABELS[codec]}${this.codecSupport &&
+                !this.isCodecSupported(codec)
+                  ? " (not supported by this browser)"
+                  : ""}
+              </option>
+            `,
+          )}
+        </select>
+        ${!this.codecSupport
+          ? html`<div class="codec-note">Checking encoder support...</div>`
+          : codecs.every((codec) => !this.isCodecSupported(codec))
+            ? html`<div class="codec-note">
+                This browser cannot encode ${container.toUpperCase()} at
+                ${this.outputWidth}×${this.outputHeight}.
+              </div>`
+            : ""}
+      </div>
+
       <div class="settings-group">
         <label for="export-fps">Frame Rate</label>
         <select id="export-fps" @change=${this.handleFpsChange}>
-          <option value="24">24 FPS</option>
+          <option value="24" ?selected=${this.fps === 24}>24 FPS</option>
           <option value="30" ?selected=${this.fps === 30}>30 FPS</option>
-          <option value="60">60 FPS</option>
+          <option value="60" ?selected=${this.fps === 60}>60 FPS</option>
         </select>
       </div>
 
       <div class="settings-group">
         <label for="export-quality">Quality</label>
         <select id="export-quality" @change=${this.handleQualityChange}>
-          <option value="0.6">Low (60%)</option>
+          <option value="0.6" ?selected=${this.quality === 0.6}>
+            Low (60%)
+          </option>
           <option value="0.8" ?selected=${this.quality === 0.8}>
             Medium (80%)
           </option>
-          <option value="0.9">High (90%)</option>
-          <option value="1">Maximum (100%)</option>
+          <option value="0.9" ?selected=${this.quality === 0.9}>
+            High (90%)
+          </option>
+          <option value="1" ?selected=${this.quality === 1}>
+            Maximum (100%)
+          </option>
         </select>
       </div>
 
       <div class="settings-group">
         <label for="export-bitrate">Video Bitrate</label>
         <select id="export-bitrate" @change=${this.handleBitrateChange}>
-          <option value="2000000">2 Mbps (Low)</option>
+          <option value="2000000" ?selected=${this.bitrate === 2000000}>
+            2 Mbps (Low)
+          </option>
           <option value="5000000" ?selected=${this.bitrate === 5000000}>
             5 Mbps (Medium)
           </option>
-          <option value="10000000">10 Mbps (High)</option>
-          <option value="20000000">20 Mbps (Ultra)</option>
+          <option value="10000000" ?selected=${this.bitrate === 10000000}>
+            10 Mbps (High)
+          </option>
+          <option value="20000000" ?selected=${this.bitrate === 20000000}>
+            20 Mbps (Ultra)
+          </option>
         </select>
       </div>
     `;
@@ -219,70 +1046,246 @@ export class ExportModal extends BaseModal {
 
   private renderGIFSettings(): TemplateResult {
     return html`
-      <div class="settings-group">
-        <label for="gif-resolution">Resolution</label>
-        <select id="gif-resolution" @change=${this.handleGifScaleChange}>
-          <option value="0.25">25% (Tiny)</option>
-          <option value="0.5">50% (Small)</option>
-          <option value="0.75">75%</option>
-          <option value="1" ?selected=${this.gifScale === 1}>
-            100% (Original)
-          </option>
-          <option value="1.5">150%</option>
-          <option value="2">200% (Large)</option>
-        </select>
-      </div>
-
       <div class="settings-group">
         <label for="gif-fps">Frame Rate</label>
         <select id="gif-fps" @change=${this.handleGifFpsChange}>
-          <option value="10">10 FPS</option>
+          <option value="10" ?selected=${this.gifFps === 10}>10 FPS</option>
           <option value="15" ?selected=${this.gifFps === 15}>15 FPS</option>
-          <option value="24">24 FPS</option>
-          <option value="30">30 FPS</option>
+          <option value="24" ?selected=${this.gifFps === 24}>24 FPS</option>
+          <option value="30" ?selected=${this.gifFps === 30}>30 FPS</option>
         </select>
       </div>
 
       <div class="settings-group">
         <label for="gif-quality">Quality</label>
         <select id="gif-quality" @change=${this.handleGifQualityChange}>
-          <option value="1">Best (Slow)</option>
-          <option value="5">High</option>
+          <option value="1" ?selected=${this.gifQuality === 1}>
+            Best (Slow)
+          </option>
+          <option value="5" ?selected=${this.gifQuality === 5}>High</option>
           <option value="10" ?selected=${this.gifQuality === 10}>
             Medium (Recommended)
           </option>
-          <option value="20">Low (Fast)</option>
+          <option value="20" ?selected=${this.gifQuality === 20}>
+            Low (Fast)
+          </option>
         </select>
       </div>
 
       <div class="settings-group">
         <label for="gif-dither">Dithering</label>
         <select id="gif-dither" @change=${this.handleGifDitherChange}>
-          <option value="false">None</option>
+          <option value="false" ?selected=${this.gifDither === false}>
+            None
+          </option>
           <option
             value="FloydSteinberg"
             ?selected=${this.gifDither === "FloydSteinberg"}
           >
             Floyd-Steinberg (Recommended)
           </option>
-          <option value="FloydSteinberg-serpentine">
+          <option
+            value="FloydSteinberg-serpentine"
+            ?selected=${this.gifDither === "FloydSteinberg-serpentine"}
+          >
             Floyd-Steinberg Serpentine
           </option>
-          <option value="Stucki">Stucki</option>
-          <option value="Atkinson">Atkinson</option>
+          <option value="Stucki" ?selected=${this.gifDither === "Stucki"}>
+            Stucki
+          </option>
+          <option value="Atkinson" ?selected=${this.gifDither === "Atkinson"}>
+            Atkinson
+          </option>
+        </select>
+      </div>
+    `;
+  }
+
+  private renderStillSettings(): TemplateResult {
+    const format = this.copyToClipboard ? "png" : this.stillFormat;
+
+    return html`
+      <div class="settings-group">
+        <label for="still-format">Image Format</label>
+        <select
+          id="still-format"
+          ?disabled=${this.copyToClipboard}
+          @change=${this.handleStillFormatChange}
+        >
+          <option value="png" ?selected=${format === "png"}>PNG</option>
+          <option value="jpeg" ?selected=${format === "jpeg"}>JPEG</option>
+          <option
+            value="webp"
+            ?selected=${format === "webp"}
+            ?disabled=${!this.webpSupported}
+          >
+            WebP
+          </option>
         </select>
+        <div class="codec-note">
+          Frame ${this.currentFrame} at
+          ${(this.currentFrame / this.sourceFps).toFixed(2)}s
+        </div>
+      </div>
+
+      ${format === "png"
+        ? ""
+        : html`
+            <div class="settings-group">
+              <label for="still-quality">Quality</label>
+              <select
+                id="still-quality"
+                @change=${this.handleStillQualityChange}
+              >
+                <option value="0.75">Medium (75%)</option>
+                <option value="0.92" ?selected=${this.stillQuality === 0.92}>
+                  High (92%)
+                </option>
+                <option value="1">Maximum (100%)</option>
+              </select>
+            </div>
+          `}
+
+      <div class="settings-group">
+        <label class="checkbox-label">
+          <input
+            type="checkbox"
+            .checked=${this.copyToClipboard}
+            ?disabled=${!canCopyImages()}
+            @change=${this.handleCopyToClipboardChange}
+          />
+          Copy to clipboard instead of downloading
+        </label>
+        <label class="checkbox-label">
+          <input
+            type="checkbox"
+            .checked=${this.canExportTransparent &&
+            this.transparent &&
+            format !== "jpeg"}
+            ?disabled=${!this.canExportTransparent || format === "jpeg"}
+            @change=${this.handleTransparentChange}
+          />
+          Transparent background
+        </label>
       </div>
     `;
   }
 
+  private renderImageSettings(format: ImageFormat): TemplateResult {
+    return html`
+      <div class="settings-group">
+        <label for="image-fps">Frame Rate</label>
+        <select id="image-fps" @change=${this.handleImageFpsChange}>
+          <option value="15" ?selected=${this.imageFps === 15}>15 FPS</option>
+          <option value="24" ?selected=${this.imageFps === 24}>24 FPS</option>
+          <option value="30" ?selected=${this.imageFps === 30}>30 FPS</option>
+          <option value="60" ?selected=${this.imageFps === 60}>60 FPS</option>
+        </select>
+      </div>
+
+      ${format === "webp"
+        ? html`
+            <div class="settings-group">
+              <label for="webp-quality">Quality</label>
+              <select id="webp-quality" @change=${this.handleWebpQualityChange}>
+                <option value="0.5" ?selected=${this.webpQuality === 0.5}>
+                  Low (50%)
+                </option>
+                <option value="0.8" ?selected=${this.webpQuality === 0.8}>
+                  Medium (80%)
+                </option>
+                <option value="0.95" ?selected=${this.webpQuality === 0.95}>
+                  High (95%)
+                </option>
+                <option value="1" ?selected=${this.webpQuality === 1}>
+                  Lossless
+                </option>
+              </select>
+            </div>
+          `
+        : ""}
+      ${format === "png"
+        ? ""
+        : html`
+            <div class="settings-group">
+              <label for="loop-count">Loop</label>
+              <select id="loop-count" @change=${this.handleLoopCountChange}>
+                <option value="0" ?selected=${this.loopCount === 0}>
+                  Forever
+                </option>
+                <option value="1" ?selected=${this.loopCount === 1}>
+                  Play once
+                </option>
+                <option value="2" ?selected=${this.loopCount === 2}>
+                  Play twice
+                </option>
+                <option value="3" ?selected=${this.loopCount === 3}>
+                  Play 3 times
+                </option>
+              </select>
+            </div>
+          `}
+
+      <div class="settings-group">
+        <label class="checkbox-label">
+          <input
+            type="checkbox"
+            .checked=${this.canExportTransparent && this.transparent}
+            ?disabled=${!this.canExportTransparent}
+            @change=${this.handleTransparentChange}
+          />
+          Transparent background
+        </label>
+        ${this.canExportTransparent
+          ? ""
+          : html`<div class="codec-note">
+              Clear the background color in Project Settings to export
+              transparent frames.
+            </div>`}
+      </div>
+    `;
+  }
+
+  /** Whether the current settings can be exported */
+  private get canStartExport(): boolean {
+    return (
+      (this.format === "still" || !!this.getRange()) &&
+      (!isVideoFormat(this.format) || this.isCodecSupported(this.videoCodec))
+    );
+  }
+
   protected renderFooter(): TemplateResult {
     if (!this.progress) {
+      const queued = this.format !== "still" && this.queue.length > 0;
+
       return html`
         <base-button variant="cancel" @click=${this.handleClose}
           >Cancel</base-button
         >
-        <base-button variant="primary" @click=${this.handleStart}
-          >Start Export</base-button
+        <base-button
+          variant="primary"
+          ?disabled=${!queued && !this.canStartExport}
+          @click=${this.handleStart}
+          >${queued
+            ? `Export Queue (${this.queue.length})`
+            : "Start Export"}</base-button
+        >
+      `;
+    }
+
+    if (this.progress.results) {
+      return html`
+        <base-button variant="primary" @click=${this.handleClose}
+          >Close</base-button
+        >
+      `;
+    }
+
+    if (this.progress.job) {
+      return html`
+        <base-button @click=${this.handleSkip}>Skip Job</base-button>
+        <base-button variant="danger" @click=${this.handleCancel}
+          >Cancel All</base-button
         >
       `;
     }
@@ -297,6 +1300,66 @@ export class ExportModal extends BaseModal {
   private handleFormatChange = (e: Event): void => {
     if (isHTMLSelectElement(e.target)) {
       this.format = e.target.value as ExportFormat;
+      this.selectSupportedCodec();
+    }
+  };
+
+  private handleRangeModeChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.rangeMode = e.target.value as RangeMode;
+      if (this.rangeMode === "custom" && this.rangeOut <= this.rangeIn) {
+        this.rangeIn = 0;
+        this.rangeOut = this.totalSeconds;
+      }
+    }
+  };
+
+  private handleRangeSceneChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.rangeScene = validateNumberInput(
+        e.target.value,
+        0,
+        0,
+        this.scenes.length - 1,
+      );
+    }
+  };
+
+  private handleRangeEventChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.rangeEvent = validateNumberInput(e.target.value, 0, 0);
+    }
+  };
+
+  private handleRangeUnitChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.rangeUnit = e.target.value as RangeUnit;
+    }
+  };
+
+  /**
+   * Convert an in/out point from the selected unit to seconds
+   */
+  private parseRangePoint(value: string, fallback: number): number {
+    const point = validateFloatInput(value, fallback, 0);
+    return this.rangeUnit === "frames" ? point / this.sourceFps : point;
+  }
+
+  private handleRangeInChange = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      this.rangeIn = this.parseRangePoint(e.target.value, this.rangeIn);
+    }
+  };
+
+  private handleRangeOutChange = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      this.rangeOut = this.parseRangePoint(e.target.value, this.rangeOut);
+    }
+  };
+
+  private handleCodecChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.videoCodec = e.target.value as VideoCodec;
     }
   };
 
@@ -323,6 +1386,32 @@ export class ExportModal extends BaseModal {
     }
   };
 
+  private handleScaleChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.customSize = e.target.value === "custom";
+      if (!this.customSize) {
+        this.scale = validateFloatInput(
+          e.target.value,
+          1,
+          MIN_EXPORT_SCALE,
+          MAX_EXPORT_SCALE,
+        );
+      }
+    }
+  };
+
+  private handleOutputWidthChange = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      const width = validateNumberInput(
+        e.target.value,
+        this.outputWidth,
+        16,
+        this.videoWidth * MAX_EXPORT_SCALE,
+      );
+      this.scale = width / this.videoWidth;
+    }
+  };
+
   private handleGifFpsChange = (e: Event): void => {
     if (isHTMLSelectElement(e.target)) {
       this.gifFps = validateNumberInput(e.target.value, 15, 1, 60);
@@ -335,38 +1424,280 @@ export class ExportModal extends BaseModal {
     }
   };
 
-  private handleGifScaleChange = (e: Event): void => {
+  private handleGifDitherChange = (e: Event): void => {
     if (isHTMLSelectElement(e.target)) {
-      this.gifScale = validateFloatInput(e.target.value, 1, 0.25, 2);
+      this.gifDither = e.target.value === "false" ? false : e.target.value;
     }
   };
 
-  private handleGifDitherChange = (e: Event): void => {
+  private handleStillFormatChange = (e: Event): void => {
     if (isHTMLSelectElement(e.target)) {
-      this.gifDither = e.target.value === "false" ? false : e.target.value;
+      this.stillFormat = e.target.value as StillFormat;
     }
   };
 
+  private handleStillQualityChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.stillQuality = validateFloatInput(e.target.value, 0.92, 0, 1);
+    }
+  };
+
+  private handleCopyToClipboardChange = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      this.copyToClipboard = e.target.checked;
+    }
+  };
+
+  private handleImageFpsChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.imageFps = validateNumberInput(e.target.value, 30, 1, 120);
+    }
+  };
+
+  private handleWebpQualityChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.webpQuality = validateFloatInput(e.target.value, 0.8, 0, 1);
+    }
+  };
+
+  private handleLoopCountChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.loopCount = validateNumberInput(e.target.value, 0, 0, 0xffff);
+    }
+  };
+
+  private handleTransparentChange = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      this.transparent = e.target.checked;
+    }
+  };
+
+  private handlePresetNameInput = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      this.presetName = e.target.value;
+    }
+  };
+
+  private handleAddToQueue = (): void => {
+    this.queue = [
+      ...this.queue,
+      {
+        name: this.presetName.trim() || this.defaultPresetName,
+        settings: this.getExportSettings(),
+      },
+    ];
+    this.presetName = "";
+  };
+
+  private handleRemoveFromQueue(index: number): void {
+    this.queue = this.queue.filter((_, i) => i !== index);
+  }
+
   private handleStart = (): void => {
-    if (this.format === "mp4") {
-      const settings = {
-        format: "mp4" as const,
+    if (this.format !== "still" && this.queue.length > 0) {
+      this.dispatchEvent(
+        new CustomEvent("start-queue", { detail: this.queue }),
+      );
+    } else {
+      this.dispatchEvent(
+        new CustomEvent("start", { detail: this.getExportSettings() }),
+      );
+    }
+  };
+
+  /**
+   * The settings for the selected format
+   */
+  private getExportSettings(): ExportRequest {
+    // Exporting everything needs no range, so it always follows the
+    // animation's length
+    const range =
+      this.rangeMode === "all" ? undefined : (this.getRange() ?? undefined);
+
+    const settings = this.getPresetSettings();
+    if (settings) {
+      return { ...settings, range };
+    }
+
+    const imageFormat = this.copyToClipboard ? "png" : this.stillFormat;
+    return {
+      format: "still",
+      frame: this.currentFrame,
+      imageFormat,
+      quality: this.stillQuality,
+      scale: this.scale,
+      transparent:
+        this.canExportTransparent && this.transparent && imageFormat !== "jpeg",
+      copyToClipboard: this.copyToClipboard,
+    };
+  }
+
+  /**
+   * The settings of an animation format as saved in a preset, or null for
+   * a still image
+   */
+  private getPresetSettings(): ExportPresetSettings | null {
+    if (isVideoFormat(this.format)) {
+      return {
+        format: this.format,
         fps: this.fps,
         quality: this.quality,
         videoBitrate: this.bitrate,
-        videoCodec: "h264",
+        scale: this.scale,
+        videoCodec: this.videoCodec,
       };
-      this.dispatchEvent(new CustomEvent("start", { detail: settings }));
-    } else {
-      const settings = {
-        format: "gif" as const,
+    } else if (this.format === "gif") {
+      return {
+        format: "gif",
         fps: this.gifFps,
         quality: this.gifQuality,
-        scale: this.gifScale,
+        scale: this.scale,
         dither: this.gifDither,
       };
-      this.dispatchEvent(new CustomEvent("start", { detail: settings }));
+    } else if (this.format === "still") {
+      return null;
     }
+
+    return {
+      format: this.format,
+      fps: this.imageFps,
+      quality: this.webpQuality,
+      scale: this.scale,
+      loop: this.loopCount,
+      transparent: this.canExportTransparent && this.transparent,
+    };
+  }
+
+  private applyPresetSettings(settings: ExportPresetSettings): void {
+    this.format = settings.format;
+    this.scale = settings.scale;
+    this.customSize = !SCALE_PRESETS.includes(settings.scale);
+
+    switch (settings.format) {
+      case "mp4":
+      case "webm":
+        this.fps = settings.fps;
+        this.quality = settings.quality;
+        this.bitrate = settings.videoBitrate;
+        this.videoCodec = settings.videoCodec;
+        break;
+      case "gif":
+        this.gifFps = settings.fps;
+        this.gifQuality = settings.quality;
+        this.gifDither = settings.dither;
+        break;
+      default:
+        this.imageFps = settings.fps;
+        this.webpQuality = settings.quality;
+        this.loopCount = settings.loop;
+        this.transparent = settings.transparent;
+    }
+
+    this.selectSupportedCodec();
+  }
+
+  /**
+   * Store the presets, reporting when local storage is unavailable or full
+   */
+  private updatePresets(presets: ExportPreset[]): boolean {
+    try {
+      saveExportPresets(presets);
+      this.presets = presets;
+      return true;
+    } catch (error) {
+      this.presetMessage = {
+        text: `Failed to save presets: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        error: true,
+      };
+      return false;
+    }
+  }
+
+  private handlePresetChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      this.selectedPreset = e.target.value;
+      this.presetMessage = undefined;
+      const preset = this.presets.find(
+        (preset) => preset.name === this.selectedPreset,
+      );
+      if (preset) {
+        this.applyPresetSettings(preset.settings);
+      }
+    }
+  };
+
+  private handleNewPresetNameInput = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      this.newPresetName = e.target.value;
+    }
+  };
+
+  private handleSavePreset = (): void => {
+    const name = this.newPresetName.trim();
+    const settings = this.getPresetSettings();
+    if (!name || !settings) return;
+
+    if (
+      this.updatePresets(mergeExportPresets(this.presets, [{ name, settings }]))
+    ) {
+      this.selectedPreset = name;
+      this.newPresetName = "";
+      this.presetMessage = { text: `Saved preset "${name}".`, error: false };
+    }
+  };
+
+  private handleDeletePreset = (): void => {
+    const name = this.selectedPreset;
+    if (
+      this.updatePresets(this.presets.filter((preset) => preset.name !== name))
+    ) {
+      this.selectedPreset = "";
+      this.presetMessage = { text: `Deleted preset "${name}".`, error: false };
+    }
+  };
+
+  private chooseImportFile = (): void => {
+    this.shadowRoot?.querySelector<HTMLInputElement>("#preset-input")?.click();
+  };
+
+  private handleImportPresets = async (e: Event): Promise<void> => {
+    if (!isHTMLInputElement(e.target) || !e.target.files?.[0]) return;
+
+    const file = e.target.files[0];
+    // Clear the input so the same file can be imported again
+    e.target.value = "";
+
+    try {
+      const imported = parseExportPresets(await file.text());
+      if (this.updatePresets(mergeExportPresets(this.presets, imported))) {
+        this.presetMessage = {
+          text: `Imported ${imported.length} preset${imported.length === 1 ? "" : "s"}.`,
+          error: false,
+        };
+      }
+    } catch (error) {
+      this.presetMessage = {
+        text: `Failed to import presets: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        error: true,
+      };
+    }
+  };
+
+  private handleExportPresets = (): void => {
+    downloadBlob(
+      new Blob([serializeExportPresets(this.presets)], {
+        type: "application/json",
+      }),
+      "canvas-commons-export-presets.json",
+    );
+  };
+
+  private handleSkip = (): void => {
+    this.dispatchEvent(new CustomEvent("skip"));
   };
 
   private handleCancel = (): void => {
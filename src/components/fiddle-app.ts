@@ -1,26 +1,51 @@
 import { LitElement, html, css } from "lit";
 import { customElement, property, state, query } from "lit/decorators.js";
 import { URLStateManager, type ProjectSettings } from "../url-state";
-import { ExportController, ExportProgress } from "../export-controller";
-import { MotionCanvasPlayer } from "../player";
+import {
+  ExportController,
+  ExportProgress,
+  type ExportJobSettings,
+} from "../export-controller";
+import { MotionCanvasPlayer, type SceneInfo } from "../player";
+import type { StillExportSettings } from "../still-exporter";
+import type { AudioData } from "@motion-canvas/core";
 import "./player-controls";
 import "./settings-modal";
 import "./export-modal";
+import type { ExportFormat, QueuedExport } from "./export-modal";
 import "./help-modal";
 import "./templates-modal";
 import "./docs-panel";
 import "./base-button";
 import "./output-console";
+import "./file-tree";
+import "./file-tabs";
+import "./scene-strip";
+import "./timeline-panel";
+import type { TimeEventChange } from "./timeline-panel";
 import type { OutputConsole } from "./output-console";
+import { ENTRY_FILE, sortFilePaths } from "../project-files";
 
 export interface AppCallbacks {
   onResetCode: () => void;
   onPlayPause: () => void;
   onResetPlayer: () => void;
   onSeek: (frame: number) => void;
+  onJumpToScene: (index: number) => void;
+  onTimeEventChanged: (
+    sceneIndex: number,
+    name: string,
+    offset: number,
+    preserve: boolean,
+  ) => void;
   onProjectSettingsChanged: (settings: ProjectSettings) => Promise<void>;
   onRunAnimation: () => Promise<void>;
   onApplyTemplate: (code: string) => Promise<void>;
+  onSelectFile: (path: string) => void;
+  onCreateFile: (path: string) => void;
+  onDeleteFile: (path: string) => void;
+  onRenameFile: (from: string, to: string) => void;
+  onAudioTrackChanged: (file: File | null) => Promise<void>;
 }
 
 @customElement("fiddle-app")
@@ -43,6 +68,21 @@ export class FiddleApp extends LitElement {
   @state()
   private fps = 30;
 
+  @state()
+  private scenes: SceneInfo[] = [];
+
+  @state()
+  private currentSceneIndex = 0;
+
+  @state()
+  private audioData: AudioData | null = null;
+
+  @state()
+  private audioOffset = 0;
+
+  @state()
+  private audioTrackName: string | null = null;
+
   @state()
   private errorMessage = "";
 
@@ -73,6 +113,9 @@ export class FiddleApp extends LitElement {
   @state()
   private exportProgress?: ExportProgress;
 
+  @state()
+  private exportFormat?: ExportFormat;
+
   @state()
   private showConsole = false;
 
@@ -82,6 +125,18 @@ export class FiddleApp extends LitElement {
   @state()
   private formattingEnabled = true;
 
+  @state()
+  private showFileTree = false;
+
+  @state()
+  private projectFiles: string[] = [ENTRY_FILE];
+
+  @state()
+  private openFiles: string[] = [ENTRY_FILE];
+
+  @state()
+  private activeFile = ENTRY_FILE;
+
   @query("#editor")
   editorContainer!: HTMLDivElement;
 
@@ -229,10 +284,24 @@ export class FiddleApp extends LitElement {
       overflow: hidden;
     }
 
-    .editor-console-wrapper.with-console #editor {
+    .editor-console-wrapper.with-console .editor-main {
       flex: 0 0 60%;
     }
 
+    .editor-main {
+      display: flex;
+      flex: 1;
+      overflow: hidden;
+    }
+
+    .editor-column {
+      display: flex;
+      flex-direction: column;
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+    }
+
     .editor-console-wrapper.with-console output-console {
       flex: 0 0 40%;
       min-height: 100px;
@@ -591,6 +660,10 @@ export class FiddleApp extends LitElement {
         display: flex;
       }
 
+      timeline-panel.desktop-only {
+        display: none;
+      }
+
       .desktop-controls {
         display: none;
       }
@@ -714,6 +787,13 @@ export class FiddleApp extends LitElement {
             <div class="panel-header desktop-only">
               <span>Editor</span>
               <div style="display: flex; gap: 8px; align-items: center;">
+                <button
+                  class="editor-action-btn ${this.showFileTree ? "active" : ""}"
+                  @click=${this.toggleFileTree}
+                  title="Toggle project files"
+                >
+                  Files
+                </button>
                 <button
                   class="editor-action-btn ${this.showConsole ? "active" : ""}"
                   @click=${this.toggleConsole}
@@ -753,6 +833,13 @@ export class FiddleApp extends LitElement {
             <div class="panel-header mobile-only">
               <span>Editor</span>
               <div style="display: flex; gap: 8px; align-items: center;">
+                <button
+                  class="editor-action-btn ${this.showFileTree ? "active" : ""}"
+                  @click=${this.toggleFileTree}
+                  title="Toggle project files"
+                >
+                  Files
+                </button>
                 <button
                   class="editor-action-btn ${this.showConsole ? "active" : ""}"
                   @click=${this.toggleConsole}
@@ -794,7 +881,29 @@ export class FiddleApp extends LitElement {
                 ? "with-console"
                 : ""}"
             >
-              <div id="editor"></div>
+              <div class="editor-main">
+                ${this.showFileTree
+                  ? html`
+                      <file-tree
+                        .files=${this.projectFiles}
+                        .activeFile=${this.activeFile}
+                        @select-file=${this.handleSelectFile}
+                        @create-file=${this.handleCreateFile}
+                        @rename-file=${this.handleRenameFile}
+                        @delete-file=${this.handleDeleteFile}
+                      ></file-tree>
+                    `
+                  : ""}
+                <div class="editor-column">
+                  <file-tabs
+                    .openFiles=${this.openFiles}
+                    .activeFile=${this.activeFile}
+                    @select-file=${this.handleSelectFile}
+                    @close-file=${this.handleCloseFile}
+                  ></file-tabs>
+                  <div id="editor"></div>
+                </div>
+              </div>
               <output-console
                 @messagecount=${this.handleMessageCount}
               ></output-console>
@@ -807,6 +916,13 @@ export class FiddleApp extends LitElement {
           <div class="preview-panel">
             <div class="panel-header desktop-only">
               <span>Preview</span>
+              <button
+                class="editor-action-btn"
+                @click=${this.showExportFrameModal}
+                title="Export the current frame as an image"
+              >
+                Export Frame
+              </button>
             </div>
             <div class="panel-header mobile-only">
               <span>Preview</span>
@@ -816,11 +932,23 @@ export class FiddleApp extends LitElement {
                 .currentFrame=${this.currentFrame}
                 .duration=${this.duration}
                 .fps=${this.fps}
+                .audioData=${this.audioData}
+                .audioOffset=${this.audioOffset}
                 @play-pause=${this.handlePlayPause}
                 @reset=${this.handleReset}
                 @seek=${this.handleSeek}
               ></player-controls>
             </div>
+            ${this.scenes.length > 1
+              ? html`
+                  <scene-strip
+                    .scenes=${this.scenes}
+                    .currentScene=${this.currentSceneIndex}
+                    .fps=${this.fps}
+                    @jump-to-scene=${this.handleJumpToScene}
+                  ></scene-strip>
+                `
+              : ""}
             <div id="preview">
               <canvas id="canvas"></canvas>
               <player-controls
@@ -829,6 +957,8 @@ export class FiddleApp extends LitElement {
                 .currentFrame=${this.currentFrame}
                 .duration=${this.duration}
                 .fps=${this.fps}
+                .audioData=${this.audioData}
+                .audioOffset=${this.audioOffset}
                 @play-pause=${this.handlePlayPause}
                 @reset=${this.handleReset}
                 @seek=${this.handleSeek}
@@ -837,6 +967,15 @@ export class FiddleApp extends LitElement {
                 ${this.errorMessage}
               </div>
             </div>
+            <timeline-panel
+              class="desktop-only"
+              .scenes=${this.scenes}
+              .currentFrame=${this.currentFrame}
+              .duration=${this.duration}
+              .fps=${this.fps}
+              @seek=${this.handleSeek}
+              @time-event-change=${this.handleTimeEventChange}
+            ></timeline-panel>
           </div>
           <div
             class="docs-splitter ${this.showDocs ? "visible" : ""}"
@@ -865,7 +1004,9 @@ export class FiddleApp extends LitElement {
       ${this.showSettings
         ? html`
             <settings-modal
+              .audioTrackName=${this.audioTrackName}
               @close=${this.hideSettingsModal}
+              @audio-track-change=${this.handleAudioTrackChange}
               @apply=${this.handleSettingsApply}
             ></settings-modal>
           `
@@ -874,8 +1015,19 @@ export class FiddleApp extends LitElement {
         ? html`
             <export-modal
               .progress=${this.exportProgress}
+              .videoWidth=${this.canvas?.width ?? 1920}
+              .videoHeight=${this.canvas?.height ?? 1080}
+              .canExportTransparent=${!URLStateManager.getInitialSettings()
+                ?.background}
+              .scenes=${this.scenes}
+              .duration=${this.duration}
+              .sourceFps=${this.fps}
+              .currentFrame=${this.currentFrame}
+              .initialFormat=${this.exportFormat}
               @close=${this.hideExportModal}
               @start=${this.handleStartExport}
+              @start-queue=${this.handleStartExportQueue}
+              @skip=${this.handleSkipExport}
               @cancel=${this.handleCancelExport}
             ></export-modal>
           `
@@ -889,24 +1041,20 @@ export class FiddleApp extends LitElement {
 
     // Initialize export controller when player becomes available
     if (changedProperties.has("player") && this.player && !this.exportController) {
-      this.exportController = new ExportController(
-        this.player,
-        {
-          onProgress: (progress: ExportProgress) => {
-            this.exportProgress = progress;
-          },
-          onComplete: () => {
-            setTimeout(() => {
-              this.hideExportModal();
-            }, 2000);
-          },
-          onError: (error: string) => {
-            this.showError(`Export failed: ${error}`);
+      this.exportController = new ExportController(this.player, {
+        onProgress: (progress: ExportProgress) => {
+          this.exportProgress = progress;
+        },
+        onComplete: () => {
+          setTimeout(() => {
             this.hideExportModal();
-          },
+          }, 2000);
         },
-        () => this.canvas,
-      );
+        onError: (error: string) => {
+          this.showError(`Export failed: ${error}`);
+          this.hideExportModal();
+        },
+      });
     }
   }
 
@@ -972,6 +1120,48 @@ export class FiddleApp extends LitElement {
     }
   }
 
+  /**
+   * Update the scene strip after the player recalculates its scenes
+   */
+  updateScenes(scenes: SceneInfo[]) {
+    this.scenes = scenes;
+    if (this.currentSceneIndex >= scenes.length) {
+      this.currentSceneIndex = 0;
+    }
+  }
+
+  updateCurrentScene(index: number) {
+    this.currentSceneIndex = index;
+  }
+
+  /**
+   * Update the waveform drawn on the scrubber
+   */
+  updateAudioData(data: AudioData | null) {
+    this.audioData = data;
+    if (this.player) {
+      this.audioOffset = this.player.currentAudioOffset;
+    }
+  }
+
+  updateAudioTrackName(name: string | null) {
+    this.audioTrackName = name;
+  }
+
+  /**
+   * Sync the file tree and tabs with the editor's project files
+   */
+  updateFiles(files: string[], activeFile: string) {
+    this.projectFiles = sortFilePaths(files);
+    this.activeFile = activeFile;
+
+    const openFiles = this.openFiles.filter((path) => files.includes(path));
+    if (!openFiles.includes(activeFile)) {
+      openFiles.push(activeFile);
+    }
+    this.openFiles = openFiles;
+  }
+
   showError(message: string) {
     this.errorMessage = message;
   }
@@ -992,6 +1182,42 @@ export class FiddleApp extends LitElement {
     this.showConsole = !this.showConsole;
   };
 
+  private toggleFileTree = (): void => {
+    this.showFileTree = !this.showFileTree;
+  };
+
+  private handleSelectFile = (e: CustomEvent<string>): void => {
+    this.callbacks?.onSelectFile(e.detail);
+  };
+
+  private handleCreateFile = (e: CustomEvent<string>): void => {
+    this.callbacks?.onCreateFile(e.detail);
+  };
+
+  private handleRenameFile = (
+    e: CustomEvent<{ from: string; to: string }>,
+  ): void => {
+    const { from, to } = e.detail;
+    // Keep the renamed file's tab in place
+    this.openFiles = this.openFiles.map((path) => (path === from ? to : path));
+    this.callbacks?.onRenameFile(from, to);
+  };
+
+  private handleDeleteFile = (e: CustomEvent<string>): void => {
+    this.callbacks?.onDeleteFile(e.detail);
+  };
+
+  private handleCloseFile = (e: CustomEvent<string>): void => {
+    const path = e.detail;
+    const remaining = this.openFiles.filter((openPath) => openPath !== path);
+    if (remaining.length === 0) return;
+
+    this.openFiles = remaining;
+    if (path === this.activeFile) {
+      this.callbacks?.onSelectFile(remaining[remaining.length - 1]);
+    }
+  };
+
   private toggleFormatting = (): void => {
     this.formattingEnabled = !this.formattingEnabled;
     localStorage.setItem("formattingEnabled", String(this.formattingEnabled));
@@ -1021,6 +1247,15 @@ export class FiddleApp extends LitElement {
     this.callbacks?.onSeek(e.detail);
   }
 
+  private handleJumpToScene(e: CustomEvent<number>) {
+    this.callbacks?.onJumpToScene(e.detail);
+  }
+
+  private handleTimeEventChange(e: CustomEvent<TimeEventChange>) {
+    const { sceneIndex, name, offset, preserve } = e.detail;
+    this.callbacks?.onTimeEventChanged(sceneIndex, name, offset, preserve);
+  }
+
   private handleRunAnimation() {
     this.callbacks?.onRunAnimation();
   }
@@ -1034,10 +1269,39 @@ export class FiddleApp extends LitElement {
   }
 
   private showExportModal() {
+    this.exportFormat = undefined;
+    this.showExport = true;
+    this.exportProgress = undefined;
+  }
+
+  private showExportFrameModal() {
+    this.exportFormat = "still";
     this.showExport = true;
     this.exportProgress = undefined;
   }
 
+  /**
+   * Export a frame without going through the export modal, for automation
+   */
+  async exportStill(
+    frame: number,
+    settings: Partial<StillExportSettings>,
+  ): Promise<void> {
+    if (!this.exportController) {
+      this.showError("Export controller not initialized");
+      return;
+    }
+
+    try {
+      await this.exportController.exportStill(frame, {
+        background: URLStateManager.getInitialSettings()?.background ?? null,
+        ...settings,
+      });
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
   private hideExportModal() {
     this.showExport = false;
     this.exportProgress = undefined;
@@ -1047,10 +1311,15 @@ export class FiddleApp extends LitElement {
     const settings = e.detail;
     URLStateManager.updateSettings(settings);
     await this.callbacks?.onProjectSettingsChanged(settings);
+    this.audioOffset = settings.audioOffset ?? 0;
     await this.callbacks?.onRunAnimation();
     this.hideSettingsModal();
   }
 
+  private async handleAudioTrackChange(e: CustomEvent<File | null>) {
+    await this.callbacks?.onAudioTrackChanged(e.detail);
+  }
+
   private async handleStartExport(e: CustomEvent) {
     const settings = e.detail;
     if (!this.exportController) {
@@ -1059,26 +1328,106 @@ export class FiddleApp extends LitElement {
     }
 
     try {
-      if (settings.format === "gif") {
-        await this.exportController.exportGIF({
+      if (settings.format === "still") {
+        const background =
+          URLStateManager.getInitialSettings()?.background ??
+          (settings.transparent ? null : "#1a1a1a");
+        await this.exportController.exportStill(
+          settings.frame,
+          {
+            format: settings.imageFormat,
+            quality: settings.quality,
+            scale: settings.scale,
+            background,
+          },
+          settings.copyToClipboard,
+        );
+      } else {
+        await this.exportController.runExport(
+          this.toExportJobSettings(settings),
+          settings.range,
+        );
+      }
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleStartExportQueue(e: CustomEvent<QueuedExport[]>) {
+    if (!this.exportController) {
+      this.showError("Export controller not initialized");
+      return;
+    }
+
+    try {
+      await this.exportController.exportQueue(
+        e.detail.map((item) => ({
+          name: item.name,
+          settings: this.toExportJobSettings(item.settings),
+          range: item.settings.range,
+        })),
+      );
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+      this.hideExportModal();
+    }
+  }
+
+  /**
+   * Convert the export modal's settings for an animation format into the
+   * settings of the matching exporter
+   */
+  private toExportJobSettings(settings: any): ExportJobSettings {
+    switch (settings.format) {
+      case "png":
+      case "webp":
+      case "apng": {
+        // Opaque frames use the project background, or the preview's default
+        const background =
+          URLStateManager.getInitialSettings()?.background ??
+          (settings.transparent ? null : "#1a1a1a");
+        const imageSettings = {
+          fps: settings.fps,
+          scale: settings.scale,
+          background,
+        };
+
+        if (settings.format === "webp") {
+          return {
+            format: "webp",
+            ...imageSettings,
+            quality: settings.quality,
+            loop: settings.loop,
+          };
+        } else if (settings.format === "apng") {
+          return { format: "apng", ...imageSettings, loop: settings.loop };
+        }
+        return { format: "png", ...imageSettings };
+      }
+      case "gif":
+        return {
+          format: "gif",
           fps: settings.fps,
           quality: settings.quality,
           scale: settings.scale,
           dither: settings.dither,
-        });
-      } else {
-        await this.exportController.exportMP4({
+        };
+      default:
+        return {
+          format: settings.format,
           fps: settings.fps,
           quality: settings.quality,
           videoBitrate: settings.videoBitrate,
+          scale: settings.scale,
           videoCodec: settings.videoCodec,
-        });
-      }
-    } catch (error) {
-      this.showError(error instanceof Error ? error.message : String(error));
+        };
     }
   }
 
+  private handleSkipExport() {
+    this.exportController?.skipQueuedExport();
+  }
+
   private handleCancelExport() {
     this.exportController?.cancelExport();
     this.hideExportModal();
@@ -0,0 +1,103 @@
+import { LitElement, html, css } from "lit";
+import { customElement, property } from "lit/decorators.js";
+
+@customElement("file-tabs")
+export class FileTabs extends LitElement {
+  @property({ type: Array })
+  openFiles: string[] = [];
+
+  @property({ type: String })
+  activeFile = "";
+
+  static styles = css`
+    :host {
+      display: flex;
+      background: var(--ctp-mocha-crust);
+      border-bottom: 1px solid var(--ctp-mocha-surface0);
+      overflow-x: auto;
+      scrollbar-width: none;
+      flex-shrink: 0;
+    }
+
+    .tab {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 6px 12px;
+      font-size: 12px;
+      color: var(--ctp-mocha-subtext0);
+      border-right: 1px solid var(--ctp-mocha-surface0);
+      cursor: pointer;
+      white-space: nowrap;
+    }
+
+    .tab:hover {
+      color: var(--ctp-mocha-text);
+    }
+
+    .tab.active {
+      background: var(--ctp-mocha-base);
+      color: var(--ctp-mocha-text);
+      box-shadow: inset 0 -2px 0 var(--ctp-mocha-sky);
+    }
+
+    .close-btn {
+      background: transparent;
+      border: none;
+      color: inherit;
+      cursor: pointer;
+      padding: 0;
+      font-size: 14px;
+      line-height: 1;
+      opacity: 0.6;
+    }
+
+    .close-btn:hover {
+      opacity: 1;
+    }
+  `;
+
+  render() {
+    const closable = this.openFiles.length > 1;
+
+    return html`
+      ${this.openFiles.map(
+        (path) => html`
+          <div
+            class="tab ${path === this.activeFile ? "active" : ""}"
+            title=${path}
+            @click=${() => this.selectFile(path)}
+          >
+            <span>${path.slice(path.lastIndexOf("/") + 1)}</span>
+            ${closable
+              ? html`
+                  <button
+                    class="close-btn"
+                    title="Close"
+                    @click=${(e: Event) => this.closeFile(e, path)}
+                  >
+                    &times;
+                  </button>
+                `
+              : ""}
+          </div>
+        `,
+      )}
+    `;
+  }
+
+  private selectFile(path: string): void {
+    this.dispatchEvent(new CustomEvent("select-file", { detail: path }));
+  }
+
+  private closeFile(e: Event, path: string): void {
+    e.stopPropagation();
+    this.dispatchEvent(new CustomEvent("close-file", { detail: path }));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "file-tabs": FileTabs;
+  }
+}
@@ -0,0 +1,357 @@
+import { LitElement, html, css, type TemplateResult } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { isHTMLInputElement } from "../utils/index.js";
+import { ENTRY_FILE, isValidFilePath } from "../project-files";
+
+interface TreeDirectory {
+  directories: Map<string, TreeDirectory>;
+  files: string[];
+}
+
+type DraftMode = "create" | "rename";
+
+@customElement("file-tree")
+export class FileTree extends LitElement {
+  @property({ type: Array })
+  files: string[] = [];
+
+  @property({ type: String })
+  activeFile = "";
+
+  @state()
+  private draftMode: DraftMode | null = null;
+
+  @state()
+  private draftTarget = "";
+
+  @state()
+  private draftName = "";
+
+  @state()
+  private draftError = "";
+
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      width: 180px;
+      flex-shrink: 0;
+      background: var(--ctp-mocha-mantle);
+      border-right: 1px solid var(--ctp-mocha-surface0);
+      font-size: 13px;
+      overflow: hidden;
+    }
+
+    .tree-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: 8px 12px;
+      color: var(--ctp-mocha-subtext1);
+      font-weight: 600;
+      border-bottom: 1px solid var(--ctp-mocha-surface0);
+    }
+
+    .tree-body {
+      flex: 1;
+      overflow-y: auto;
+      padding: 4px 0;
+    }
+
+    .icon-btn {
+      background: transparent;
+      border: none;
+      color: var(--ctp-mocha-subtext0);
+      cursor: pointer;
+      padding: 0 4px;
+      font-size: 14px;
+      line-height: 1;
+    }
+
+    .icon-btn:hover {
+      color: var(--ctp-mocha-text);
+    }
+
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      padding: 3px 8px;
+      color: var(--ctp-mocha-text);
+      cursor: pointer;
+      white-space: nowrap;
+    }
+
+    .row:hover {
+      background: var(--ctp-mocha-surface0);
+    }
+
+    .row.active {
+      background: var(--ctp-mocha-surface1);
+      color: var(--ctp-mocha-sky);
+    }
+
+    .row.directory {
+      color: var(--ctp-mocha-subtext0);
+      cursor: default;
+    }
+
+    .row.directory:hover {
+      background: transparent;
+    }
+
+    .row .name {
+      flex: 1;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .row .icon-btn {
+      visibility: hidden;
+    }
+
+    .row:hover .icon-btn {
+      visibility: visible;
+    }
+
+    .draft {
+      padding: 4px 8px;
+    }
+
+    .draft input {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 4px 6px;
+      background: var(--ctp-mocha-surface1);
+      border: 1px solid var(--ctp-mocha-surface2);
+      color: var(--ctp-mocha-text);
+      font-size: 12px;
+    }
+
+    .draft input:focus {
+      outline: none;
+      border-color: var(--ctp-mocha-sky);
+    }
+
+    .draft-error {
+      color: var(--ctp-mocha-red);
+      font-size: 11px;
+      margin-top: 4px;
+      white-space: normal;
+    }
+  `;
+
+  render() {
+    return html`
+      <div class="tree-header">
+        <span>Files</span>
+        <button class="icon-btn" @click=${this.startCreate} title="New file">
+          +
+        </button>
+      </div>
+      <div class="tree-body">
+        ${this.draftMode === "create" ? this.renderDraft() : ""}
+        ${this.renderDirectory(this.buildTree(), 0)}
+      </div>
+    `;
+  }
+
+  updated(changedProperties: Map<string | number | symbol, unknown>) {
+    super.updated(changedProperties);
+    if (changedProperties.has("draftMode") && this.draftMode) {
+      this.shadowRoot?.querySelector<HTMLInputElement>(".draft input")?.focus();
+    }
+  }
+
+  private buildTree(): TreeDirectory {
+    const root: TreeDirectory = { directories: new Map(), files: [] };
+
+    for (const path of this.files) {
+      const segments = path.split("/");
+      segments.pop();
+
+      let directory = root;
+      for (const segment of segments) {
+        if (!directory.directories.has(segment)) {
+          directory.directories.set(segment, {
+            directories: new Map(),
+            files: [],
+          });
+        }
+        directory = directory.directories.get(segment)!;
+      }
+      directory.files.push(path);
+    }
+
+    return root;
+  }
+
+  private renderDirectory(
+    directory: TreeDirectory,
+    depth: number,
+  ): TemplateResult[] {
+    const rows: TemplateResult[] = [];
+    const indent = `padding-left: ${8 + depth * 12}px`;
+
+    for (const name of [...directory.directories.keys()].sort()) {
+      rows.push(html`
+        <div class="row directory" style=${indent}>
+          <span class="name">${name}/</span>
+        </div>
+      `);
+      rows.push(
+        ...this.renderDirectory(directory.directories.get(name)!, depth + 1),
+      );
+    }
+
+    const files = [...directory.files].sort((a, b) => {
+      if (a === ENTRY_FILE) return -1;
+      if (b === ENTRY_FILE) return 1;
+      return a.localeCompare(b);
+    });
+
+    for (const path of files) {
+      if (this.draftMode === "rename" && this.draftTarget === path) {
+        rows.push(this.renderDraft());
+        continue;
+      }
+
+      const name = path.slice(path.lastIndexOf("/") + 1);
+      rows.push(html`
+        <div
+          class="row ${path === this.activeFile ? "active" : ""}"
+          style=${indent}
+          title=${path}
+          @click=${() => this.selectFile(path)}
+        >
+          <span class="name">${name}</span>
+          ${path !== ENTRY_FILE
+            ? html`
+                <button
+                  class="icon-btn"
+                  title="Rename"
+                  @click=${(e: Event) => this.startRename(e, path)}
+                >
+                  ✎
+                </button>
+                <button
+                  class="icon-btn"
+                  title="Delete"
+                  @click=${(e: Event) => this.deleteFile(e, path)}
+                >
+                  &times;
+                </button>
+              `
+            : ""}
+        </div>
+      `);
+    }
+
+    return rows;
+  }
+
+  private renderDraft(): TemplateResult {
+    return html`
+      <div class="draft">
+        <input
+          .value=${this.draftName}
+          placeholder="components/Card.tsx"
+          @input=${this.handleDraftInput}
+          @keydown=${this.handleDraftKeydown}
+          @blur=${this.cancelDraft}
+        />
+        ${this.draftError
+          ? html`<div class="draft-error">${this.draftError}</div>`
+          : ""}
+      </div>
+    `;
+  }
+
+  private selectFile(path: string): void {
+    this.dispatchEvent(new CustomEvent("select-file", { detail: path }));
+  }
+
+  private startCreate = (): void => {
+    this.draftMode = "create";
+    this.draftTarget = "";
+    this.draftName = "";
+    this.draftError = "";
+  };
+
+  private startRename(e: Event, path: string): void {
+    e.stopPropagation();
+    this.draftMode = "rename";
+    this.draftTarget = path;
+    this.draftName = path;
+    this.draftError = "";
+  }
+
+  private deleteFile(e: Event, path: string): void {
+    e.stopPropagation();
+    if (confirm(`Delete ${path}?`)) {
+      this.dispatchEvent(new CustomEvent("delete-file", { detail: path }));
+    }
+  }
+
+  private handleDraftInput = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      this.draftName = e.target.value;
+      this.draftError = "";
+    }
+  };
+
+  private handleDraftKeydown = (e: KeyboardEvent): void => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      this.commitDraft();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      this.cancelDraft();
+    }
+  };
+
+  private commitDraft(): void {
+    let path = this.draftName.trim().replace(/^\.?\//, "");
+    if (path && !/\.tsx?$/.test(path)) {
+      path = `${path}.tsx`;
+    }
+
+    if (!isValidFilePath(path)) {
+      this.draftError = "Use a relative .ts or .tsx path";
+      return;
+    }
+
+    if (this.draftMode === "rename" && path === this.draftTarget) {
+      this.cancelDraft();
+      return;
+    }
+
+    if (this.files.includes(path)) {
+      this.draftError = `${path} already exists`;
+      return;
+    }
+
+    if (this.draftMode === "create") {
+      this.dispatchEvent(new CustomEvent("create-file", { detail: path }));
+    } else {
+      this.dispatchEvent(
+        new CustomEvent("rename-file", {
+          detail: { from: this.draftTarget, to: path },
+        }),
+      );
+    }
+
+    this.draftMode = null;
+  }
+
+  private cancelDraft = (): void => {
+    this.draftMode = null;
+    this.draftError = "";
+  };
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "file-tree": FileTree;
+  }
+}
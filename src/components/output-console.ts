@@ -12,6 +12,9 @@ export class OutputConsole extends LitElement {
   @state()
   private messages: ConsoleMessage[] = [];
 
+  @state()
+  private cached = false;
+
   static styles = css`
     :host {
       display: flex;
@@ -120,6 +123,15 @@ export class OutputConsole extends LitElement {
       font-size: 11px;
     }
 
+    .cached-badge {
+      border: 1px solid var(--ctp-mocha-green);
+      color: var(--ctp-mocha-green);
+      padding: 1px 6px;
+      border-radius: 10px;
+      font-size: 11px;
+      font-weight: 400;
+    }
+
     /* Scrollbar styling */
     .console-body::-webkit-scrollbar {
       width: 8px;
@@ -155,6 +167,13 @@ export class OutputConsole extends LitElement {
     this.addMessage("info", message);
   }
 
+  /**
+   * Show whether the running scene is a cached build
+   */
+  public setCached(cached: boolean): void {
+    this.cached = cached;
+  }
+
   /**
    * Strip ANSI escape codes from text
    */
@@ -284,6 +303,13 @@ export class OutputConsole extends LitElement {
           ${this.messages.length > 0
             ? html`<span class="message-count">${this.messages.length}</span>`
             : ""}
+          ${this.cached
+            ? html`<span
+                class="cached-badge"
+                title="The project hasn't changed since it was last compiled"
+                >cached</span
+              >`
+            : ""}
         </div>
         <div class="console-actions">
           <button class="console-btn" @click=${this.handleClear}>Clear</button>
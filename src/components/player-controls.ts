@@ -1,6 +1,7 @@
 import { LitElement, html, css } from "lit";
 import { customElement, property } from "lit/decorators.js";
 import { formatTime } from "../utils/index.js";
+import type { AudioData } from "@motion-canvas/core";
 
 @customElement("player-controls")
 export class PlayerControls extends LitElement {
@@ -16,6 +17,13 @@ export class PlayerControls extends LitElement {
   @property({ type: Number })
   fps = 30;
 
+  @property({ attribute: false })
+  audioData: AudioData | null = null;
+
+  /** Audio offset in seconds, used to line the waveform up with the frames */
+  @property({ type: Number })
+  audioOffset = 0;
+
   private isDragging = false;
 
   static styles = css`
@@ -76,6 +84,23 @@ export class PlayerControls extends LitElement {
       transition: width 0.1s;
     }
 
+    .progress-bar.has-audio {
+      height: 24px;
+    }
+
+    .progress-bar.has-audio .progress-fill {
+      position: relative;
+      opacity: 0.35;
+    }
+
+    .waveform {
+      position: absolute;
+      inset: 0;
+      width: 100%;
+      height: 100%;
+      pointer-events: none;
+    }
+
     .time {
       color: var(--ctp-mocha-subtext0);
       font-size: 12px;
@@ -129,10 +154,11 @@ export class PlayerControls extends LitElement {
         <img src="${import.meta.env.BASE_URL}skip-backwards.svg" alt="Reset" />
       </button>
       <div
-        class="progress-bar"
+        class="progress-bar ${this.audioData ? "has-audio" : ""}"
         @mousedown=${this.handleMouseDown}
         @click=${this.handleClick}
       >
+        ${this.audioData ? html`<canvas class="waveform"></canvas>` : ""}
         <div
           class="progress-fill"
           style="width: ${Math.min(100, Math.max(0, progress))}%"
@@ -142,6 +168,70 @@ export class PlayerControls extends LitElement {
     `;
   }
 
+  updated(changedProperties: Map<string | number | symbol, unknown>) {
+    super.updated(changedProperties);
+    if (
+      changedProperties.has("audioData") ||
+      changedProperties.has("audioOffset") ||
+      changedProperties.has("duration") ||
+      changedProperties.has("fps")
+    ) {
+      this.drawWaveform();
+    }
+  }
+
+  /**
+   * Draw the audio peaks that fall within the animation's duration
+   */
+  private drawWaveform(): void {
+    const canvas =
+      this.shadowRoot?.querySelector<HTMLCanvasElement>(".waveform");
+    const data = this.audioData;
+    if (!canvas || !data || this.duration <= 0) return;
+
+    canvas.width = canvas.clientWidth * devicePixelRatio;
+    canvas.height = canvas.clientHeight * devicePixelRatio;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    const durationInSeconds = this.duration / this.fps;
+    const center = canvas.height / 2;
+    const scale = data.absoluteMax > 0 ? center / data.absoluteMax : 0;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = getComputedStyle(this).getPropertyValue(
+      "--ctp-mocha-overlay1",
+    );
+
+    for (let x = 0; x < canvas.width; x++) {
+      // Peaks are stored as interleaved max/min pairs, sampleRate per second
+      const start = (x / canvas.width) * durationInSeconds - this.audioOffset;
+      const end =
+        ((x + 1) / canvas.width) * durationInSeconds - this.audioOffset;
+      const first = Math.max(0, Math.floor((start * data.sampleRate) / 2));
+      const last = Math.min(
+        data.length,
+        Math.ceil((end * data.sampleRate) / 2),
+      );
+
+      let max = 0;
+      let min = 0;
+      for (let i = first; i < last; i++) {
+        max = Math.max(max, data.peaks[i * 2]);
+        min = Math.min(min, data.peaks[i * 2 + 1]);
+      }
+
+      if (max > min) {
+        context.fillRect(
+          x,
+          center - max * scale,
+          1,
+          Math.max(1, (max - min) * scale),
+        );
+      }
+    }
+  }
+
   connectedCallback() {
     super.connectedCallback();
     document.addEventListener("mousemove", this.handleMouseMove);
@@ -0,0 +1,96 @@
+import { LitElement, html, css } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { formatTime } from "../utils/index.js";
+import type { SceneInfo } from "../player";
+
+@customElement("scene-strip")
+export class SceneStrip extends LitElement {
+  @property({ type: Array })
+  scenes: SceneInfo[] = [];
+
+  @property({ type: Number })
+  currentScene = 0;
+
+  @property({ type: Number })
+  fps = 30;
+
+  static styles = css`
+    :host {
+      display: flex;
+      gap: 4px;
+      padding: 8px 12px;
+      background: var(--ctp-mocha-mantle);
+      border-bottom: 1px solid var(--ctp-mocha-surface0);
+      overflow-x: auto;
+      flex-shrink: 0;
+      scrollbar-width: thin;
+      scrollbar-color: var(--ctp-mocha-surface0) var(--ctp-mocha-mantle);
+    }
+
+    .scene-btn {
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 2px;
+      min-width: 96px;
+      padding: 6px 10px;
+      background: var(--ctp-mocha-surface0);
+      border: 1px solid var(--ctp-mocha-surface1);
+      color: var(--ctp-mocha-text);
+      cursor: pointer;
+      font-size: 12px;
+      text-align: left;
+      transition: border-color 0.2s;
+    }
+
+    .scene-btn:hover {
+      border-color: var(--ctp-mocha-sky);
+    }
+
+    .scene-btn.active {
+      border-color: var(--ctp-mocha-sky);
+      background: var(--ctp-mocha-surface1);
+    }
+
+    .scene-name {
+      font-weight: 500;
+      white-space: nowrap;
+    }
+
+    .scene-time {
+      color: var(--ctp-mocha-overlay0);
+      font-size: 11px;
+      font-family: "SF Mono", "Monaco", "Cascadia Code", monospace;
+    }
+  `;
+
+  render() {
+    return html`
+      ${this.scenes.map(
+        (scene, index) => html`
+          <button
+            class="scene-btn ${index === this.currentScene ? "active" : ""}"
+            title="Jump to ${scene.name}"
+            @click=${() => this.handleJump(index)}
+          >
+            <span class="scene-name">${index + 1}. ${scene.name}</span>
+            <span class="scene-time">
+              ${formatTime(scene.firstFrame / this.fps)} –
+              ${formatTime(scene.lastFrame / this.fps)}
+            </span>
+          </button>
+        `,
+      )}
+    `;
+  }
+
+  private handleJump(index: number): void {
+    this.dispatchEvent(new CustomEvent("jump-to-scene", { detail: index }));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "scene-strip": SceneStrip;
+  }
+}
@@ -1,17 +1,30 @@
 import { html, css, type TemplateResult } from "lit";
-import { customElement, state } from "lit/decorators.js";
+import { customElement, property, state } from "lit/decorators.js";
 import { BaseModal } from "./base-modal.js";
 import "./base-button.js";
 import { URLStateManager, type ProjectSettings } from "../url-state";
+import type { DecoratorVersion } from "../compiler";
 import {
   isHTMLInputElement,
   isHTMLSelectElement,
+  isHTMLTextAreaElement,
+  validateFloatInput,
   validateNumberInput,
 } from "../utils/index.js";
 import { SecurityWarningModal } from "./security-warning-modal.js";
+import {
+  DEFAULT_IMPORT_MAP_SETTINGS,
+  loadImportMapSettings,
+  parseImports,
+  saveImportMapSettings,
+  type ImportMapSettings,
+} from "../import-map";
 
 @customElement("settings-modal")
 export class SettingsModal extends BaseModal {
+  @property({ type: String })
+  audioTrackName: string | null = null;
+
   @state()
   private width = 1920;
 
@@ -24,15 +37,30 @@ export class SettingsModal extends BaseModal {
   @state()
   private background = "#1a1a1a";
 
+  @state()
+  private audioOffset = 0;
+
   @state()
   private urlCodeWarningDisabled = false;
 
   @state()
   private compilationMode: "auto" | "babel" | "webcontainer" = "auto";
 
+  @state()
+  private decorators: DecoratorVersion = "legacy";
+
   @state()
   private crossOriginIsolated = false;
 
+  @state()
+  private importMap: ImportMapSettings = loadImportMapSettings();
+
+  @state()
+  private importsText = "";
+
+  @state()
+  private importsError: string | null = null;
+
   static styles = [
     BaseModal.styles,
     css`
@@ -46,6 +74,8 @@ export class SettingsModal extends BaseModal {
 
       input[type="number"],
       input[type="color"],
+      input[type="text"],
+      textarea,
       select {
         width: 100%;
         padding: 8px 12px;
@@ -58,6 +88,8 @@ export class SettingsModal extends BaseModal {
 
       input[type="number"]:focus,
       input[type="color"]:focus,
+      input[type="text"]:focus,
+      textarea:focus,
       select:focus {
         outline: none;
         border-color: var(--ctp-mocha-sky);
@@ -97,6 +129,28 @@ export class SettingsModal extends BaseModal {
         cursor: pointer;
       }
 
+      input[type="text"],
+      textarea {
+        box-sizing: border-box;
+        margin-top: 8px;
+        font-family: monospace;
+      }
+
+      textarea {
+        min-height: 80px;
+        resize: vertical;
+      }
+
+      .hint {
+        color: var(--ctp-mocha-overlay0);
+        font-size: 12px;
+        margin-top: 8px;
+      }
+
+      .hint.error {
+        color: var(--ctp-mocha-red);
+      }
+
       input[type="checkbox"] {
         accent-color: var(--ctp-mocha-sky);
       }
@@ -114,6 +168,30 @@ export class SettingsModal extends BaseModal {
       .clear-btn:hover {
         background: var(--ctp-mocha-surface2);
       }
+
+      .audio-track {
+        display: flex;
+        gap: 8px;
+        align-items: center;
+        margin-bottom: 8px;
+      }
+
+      .audio-name {
+        flex: 1;
+        color: var(--ctp-mocha-text);
+        font-size: 14px;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .audio-name.empty {
+        color: var(--ctp-mocha-overlay0);
+      }
+
+      .audio-track input[type="file"] {
+        display: none;
+      }
     `,
   ];
 
@@ -127,6 +205,7 @@ export class SettingsModal extends BaseModal {
       this.height = settings.height || 1080;
       this.fps = settings.fps || 30;
       this.background = settings.background || "#1a1a1a";
+      this.audioOffset = settings.audioOffset || 0;
     }
 
     this.urlCodeWarningDisabled = SecurityWarningModal.isWarningDisabled();
@@ -141,8 +220,19 @@ export class SettingsModal extends BaseModal {
       this.compilationMode = savedMode;
     }
 
+    this.decorators =
+      localStorage.getItem("decoratorVersion") === "2023-05"
+        ? "2023-05"
+        : "legacy";
+
     // Check cross-origin isolation status
     this.crossOriginIsolated = window.crossOriginIsolated || false;
+
+    this.importMap = loadImportMapSettings();
+    this.importsText =
+      Object.keys(this.importMap.imports).length > 0
+        ? JSON.stringify({ imports: this.importMap.imports }, null, 2)
+        : "";
   }
 
   protected renderBody(): TemplateResult {
@@ -203,6 +293,46 @@ export class SettingsModal extends BaseModal {
         </div>
       </div>
 
+      <div class="settings-group">
+        <label>Audio Track</label>
+        <div class="audio-track">
+          <span class="audio-name ${this.audioTrackName ? "" : "empty"}">
+            ${this.audioTrackName || "No audio track"}
+          </span>
+          <button class="clear-btn" @click=${this.chooseAudioFile}>
+            ${this.audioTrackName ? "Replace" : "Choose file"}
+          </button>
+          ${this.audioTrackName
+            ? html`<button class="clear-btn" @click=${this.removeAudioTrack}>
+                Remove
+              </button>`
+            : ""}
+          <input
+            type="file"
+            id="audio-input"
+            accept="audio/*"
+            @change=${this.handleAudioFileChange}
+          />
+        </div>
+        <div class="input-group">
+          <input
+            type="number"
+            id="audio-offset-input"
+            .value=${this.audioOffset.toString()}
+            @input=${this.handleAudioOffsetChange}
+            step="0.1"
+            min="-600"
+            max="600"
+          />
+          <span>s offset</span>
+        </div>
+        <div
+          style="color: var(--ctp-mocha-overlay0); font-size: 12px; margin-top: 8px;"
+        >
+          Stored in this browser only. Positive offsets start the audio later.
+        </div>
+      </div>
+
       <div class="settings-group">
         <label for="compilation-mode-select">Compilation Mode</label>
         <select
@@ -223,6 +353,65 @@ export class SettingsModal extends BaseModal {
         </div>
       </div>
 
+      <div class="settings-group">
+        <label for="decorator-version-select">Decorators</label>
+        <select
+          id="decorator-version-select"
+          .value=${this.decorators}
+          @change=${this.handleDecoratorVersionChange}
+        >
+          <option value="legacy">
+            Legacy (experimentalDecorators, used by Motion Canvas)
+          </option>
+          <option value="2023-05">Standard (2023-05)</option>
+        </select>
+      </div>
+
+      <div class="settings-group">
+        <label for="package-source-select">External Packages</label>
+        <select
+          id="package-source-select"
+          .value=${this.importMap.source}
+          @change=${this.handlePackageSourceChange}
+        >
+          <option value="off">Install with Vite (WebContainer)</option>
+          <option value="cdn">Load from an ESM CDN</option>
+          <option value="mirror">Load from a local mirror</option>
+        </select>
+        ${this.importMap.source === "cdn"
+          ? html`<input
+              type="text"
+              .value=${this.importMap.cdnUrl}
+              @change=${this.handleCdnUrlChange}
+              placeholder=${DEFAULT_IMPORT_MAP_SETTINGS.cdnUrl}
+            />`
+          : ""}
+        ${this.importMap.source === "mirror"
+          ? html`<input
+              type="text"
+              .value=${this.importMap.mirrorUrl}
+              @change=${this.handleMirrorUrlChange}
+              placeholder=${DEFAULT_IMPORT_MAP_SETTINGS.mirrorUrl}
+            />`
+          : ""}
+        ${this.importMap.source !== "off"
+          ? html`<textarea
+                .value=${this.importsText}
+                @change=${this.handleImportsChange}
+                placeholder=${'{ "imports": { "lodash": "https://esm.sh/lodash@4" } }'}
+              ></textarea>
+              <div class="hint ${this.importsError ? "error" : ""}">
+                ${this.importsError ??
+                (this.importMap.source === "cdn"
+                  ? "Packages that aren't bundled load from the CDN, unless the import map lists them. Packages that depend on Motion Canvas load their own copy of it, so install those with Vite."
+                  : "Packages load from the mirror directory's import-map.json, and the import map above.")}
+              </div>`
+          : html`<div class="hint">
+              Packages that aren't bundled are installed in a WebContainer and
+              built with Vite.
+            </div>`}
+      </div>
+
       <div class="settings-group">
         <label>
           <input
@@ -276,6 +465,29 @@ export class SettingsModal extends BaseModal {
     this.background = "#1a1a1a";
   };
 
+  private chooseAudioFile = (): void => {
+    this.shadowRoot?.querySelector<HTMLInputElement>("#audio-input")?.click();
+  };
+
+  private handleAudioFileChange = (e: Event): void => {
+    if (isHTMLInputElement(e.target) && e.target.files?.[0]) {
+      this.dispatchEvent(
+        new CustomEvent("audio-track-change", { detail: e.target.files[0] }),
+      );
+      e.target.value = "";
+    }
+  };
+
+  private removeAudioTrack = (): void => {
+    this.dispatchEvent(new CustomEvent("audio-track-change", { detail: null }));
+  };
+
+  private handleAudioOffsetChange = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      this.audioOffset = validateFloatInput(e.target.value, 0, -600, 600);
+    }
+  };
+
   private handleWarningToggle = (e: Event): void => {
     if (isHTMLInputElement(e.target)) {
       this.urlCodeWarningDisabled = e.target.checked;
@@ -293,12 +505,69 @@ export class SettingsModal extends BaseModal {
     }
   };
 
+  private handleDecoratorVersionChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      const value = e.target.value;
+      if (value === "legacy" || value === "2023-05") {
+        this.decorators = value;
+        localStorage.setItem("decoratorVersion", value);
+      }
+    }
+  };
+
+  private updateImportMap(changes: Partial<ImportMapSettings>): void {
+    this.importMap = { ...this.importMap, ...changes };
+    saveImportMapSettings(this.importMap);
+  }
+
+  private handlePackageSourceChange = (e: Event): void => {
+    if (isHTMLSelectElement(e.target)) {
+      const value = e.target.value;
+      if (value === "cdn" || value === "mirror" || value === "off") {
+        this.updateImportMap({ source: value });
+      }
+    }
+  };
+
+  private handleCdnUrlChange = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      this.updateImportMap({
+        cdnUrl: e.target.value.trim() || DEFAULT_IMPORT_MAP_SETTINGS.cdnUrl,
+      });
+    }
+  };
+
+  private handleMirrorUrlChange = (e: Event): void => {
+    if (isHTMLInputElement(e.target)) {
+      this.updateImportMap({
+        mirrorUrl:
+          e.target.value.trim() || DEFAULT_IMPORT_MAP_SETTINGS.mirrorUrl,
+      });
+    }
+  };
+
+  private handleImportsChange = (e: Event): void => {
+    if (isHTMLTextAreaElement(e.target)) {
+      this.importsText = e.target.value;
+      try {
+        const imports = this.importsText.trim()
+          ? parseImports(this.importsText)
+          : {};
+        this.importsError = null;
+        this.updateImportMap({ imports });
+      } catch (error) {
+        this.importsError = `Invalid import map: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+  };
+
   private handleApply = (): void => {
     const settings: ProjectSettings = {
       width: this.width,
       height: this.height,
       fps: this.fps,
       background: this.background === "#1a1a1a" ? null : this.background,
+      audioOffset: this.audioOffset,
     };
     this.dispatchEvent(new CustomEvent("apply", { detail: settings }));
   };
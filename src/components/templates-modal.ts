@@ -934,6 +934,40 @@ export default makeScene2D(function* (view) {
   yield* waitFor(2);
 });`,
   },
+  {
+    id: "scene-transitions",
+    name: "Scene Transitions",
+    description: "Multiple scenes joined by a slide transition",
+    code: `import { makeScene2D, Circle, Rect } from "@motion-canvas/2d";
+import {
+  createRef,
+  Direction,
+  slideTransition,
+  waitFor,
+} from "@motion-canvas/core";
+
+const intro = makeScene2D(function* (view) {
+  const circle = createRef<Circle>();
+  view.add(<Circle ref={circle} size={240} fill="#f38ba8" />);
+
+  yield* circle().scale(1.4, 1).to(1, 1);
+  yield* waitFor(0.5);
+});
+intro.name = "Intro";
+
+const outro = makeScene2D(function* (view) {
+  const rect = createRef<Rect>();
+  view.add(<Rect ref={rect} size={240} radius={24} fill="#89b4fa" />);
+
+  yield* slideTransition(Direction.Left, 1);
+  yield* rect().rotation(180, 1.5);
+  yield* waitFor(0.5);
+});
+outro.name = "Outro";
+
+// Export an array to play several scenes in order
+export default [intro, outro];`,
+  },
 ];
 
 @customElement("templates-modal")
@@ -0,0 +1,326 @@
+import { LitElement, html, css } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { formatTime } from "../utils/index.js";
+import type { SceneInfo, TimeEventInfo } from "../player";
+
+export interface TimeEventChange {
+  sceneIndex: number;
+  name: string;
+  offset: number;
+  preserve: boolean;
+}
+
+interface MarkerDrag {
+  sceneIndex: number;
+  event: TimeEventInfo;
+  targetTime: number;
+}
+
+@customElement("timeline-panel")
+export class TimelinePanel extends LitElement {
+  @property({ type: Array })
+  scenes: SceneInfo[] = [];
+
+  @property({ type: Number })
+  currentFrame = 0;
+
+  @property({ type: Number })
+  duration = 0;
+
+  @property({ type: Number })
+  fps = 30;
+
+  @state()
+  private drag: MarkerDrag | null = null;
+
+  private isSeeking = false;
+
+  static styles = css`
+    :host {
+      display: block;
+      flex-shrink: 0;
+      background: var(--ctp-mocha-mantle);
+      border-top: 1px solid var(--ctp-mocha-surface0);
+      padding: 8px 12px 12px;
+      font-size: 12px;
+      user-select: none;
+    }
+
+    .timeline-header {
+      display: flex;
+      justify-content: space-between;
+      color: var(--ctp-mocha-subtext0);
+      margin-bottom: 6px;
+    }
+
+    .hint {
+      color: var(--ctp-mocha-overlay0);
+    }
+
+    .track {
+      position: relative;
+      height: 56px;
+      background: var(--ctp-mocha-crust);
+      cursor: pointer;
+    }
+
+    .scene {
+      position: absolute;
+      top: 0;
+      height: 22px;
+      box-sizing: border-box;
+      padding: 3px 6px;
+      background: var(--ctp-mocha-surface0);
+      border-right: 1px solid var(--ctp-mocha-base);
+      color: var(--ctp-mocha-subtext1);
+      overflow: hidden;
+      white-space: nowrap;
+      text-overflow: ellipsis;
+    }
+
+    .wait {
+      position: absolute;
+      top: 34px;
+      height: 4px;
+      background: var(--ctp-mocha-surface2);
+      pointer-events: none;
+    }
+
+    .marker {
+      position: absolute;
+      top: 26px;
+      width: 10px;
+      height: 20px;
+      margin-left: -5px;
+      background: var(--ctp-mocha-peach);
+      cursor: ew-resize;
+      clip-path: polygon(0 0, 100% 0, 100% 70%, 50% 100%, 0 70%);
+    }
+
+    .marker:hover,
+    .marker.dragging {
+      background: var(--ctp-mocha-yellow);
+    }
+
+    .marker-label {
+      position: absolute;
+      top: 46px;
+      transform: translateX(-50%);
+      color: var(--ctp-mocha-subtext0);
+      font-size: 10px;
+      white-space: nowrap;
+      pointer-events: none;
+    }
+
+    .playhead {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      width: 2px;
+      margin-left: -1px;
+      background: var(--ctp-mocha-sky);
+      pointer-events: none;
+    }
+
+    .empty {
+      color: var(--ctp-mocha-overlay0);
+    }
+  `;
+
+  render() {
+    const eventCount = this.scenes.reduce(
+      (count, scene) => count + scene.events.length,
+      0,
+    );
+
+    return html`
+      <div class="timeline-header">
+        <span>
+          Timeline · ${formatTime(this.duration / this.fps)}
+          ${eventCount > 0
+            ? html`· ${eventCount} event${eventCount === 1 ? "" : "s"}`
+            : ""}
+        </span>
+        ${this.drag
+          ? html`<span>
+              ${this.drag.event.name}: +${this.formatOffset(this.drag)}s
+            </span>`
+          : eventCount > 0
+            ? html`<span class="hint">
+                Drag markers to retime · Shift keeps later events · Double-click
+                resets
+              </span>`
+            : html`<span class="empty">
+                Use waitUntil("name") to add time events
+              </span>`}
+      </div>
+      <div class="track" @mousedown=${this.handleTrackMouseDown}>
+        ${this.scenes.map((scene) => this.renderScene(scene))}
+        ${this.scenes.map((scene, sceneIndex) =>
+          scene.events.map((event) =>
+            this.renderEvent(scene, sceneIndex, event),
+          ),
+        )}
+        <div
+          class="playhead"
+          style="left: ${this.toPercent(this.currentFrame)}%"
+        ></div>
+      </div>
+    `;
+  }
+
+  private renderScene(scene: SceneInfo) {
+    const left = this.toPercent(scene.firstFrame);
+    const width = this.toPercent(scene.lastFrame) - left;
+
+    return html`
+      <div
+        class="scene"
+        style="left: ${left}%; width: ${width}%"
+        title="${scene.name} · ${formatTime(
+          (scene.lastFrame - scene.firstFrame) / this.fps,
+        )}"
+      >
+        ${scene.name}
+      </div>
+    `;
+  }
+
+  private renderEvent(
+    scene: SceneInfo,
+    sceneIndex: number,
+    event: TimeEventInfo,
+  ) {
+    const dragging =
+      this.drag?.sceneIndex === sceneIndex &&
+      this.drag.event.name === event.name;
+    const targetTime = dragging ? this.drag!.targetTime : event.targetTime;
+    const start = this.toPercent(
+      scene.firstFrame + event.initialTime * this.fps,
+    );
+    const target = this.toPercent(scene.firstFrame + targetTime * this.fps);
+
+    return html`
+      <div
+        class="wait"
+        style="left: ${start}%; width: ${target - start}%"
+      ></div>
+      <div
+        class="marker ${dragging ? "dragging" : ""}"
+        style="left: ${target}%"
+        title="${event.name} (+${(targetTime - event.initialTime).toFixed(2)}s)"
+        @mousedown=${(e: MouseEvent) =>
+          this.handleMarkerMouseDown(e, sceneIndex, event)}
+        @dblclick=${() => this.emitChange(sceneIndex, event.name, 0, false)}
+      ></div>
+      <div class="marker-label" style="left: ${target}%">${event.name}</div>
+    `;
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    document.addEventListener("mousemove", this.handleMouseMove);
+    document.addEventListener("mouseup", this.handleMouseUp);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    document.removeEventListener("mousemove", this.handleMouseMove);
+    document.removeEventListener("mouseup", this.handleMouseUp);
+  }
+
+  private formatOffset(drag: MarkerDrag): string {
+    return (drag.targetTime - drag.event.initialTime).toFixed(2);
+  }
+
+  private toPercent(frame: number): number {
+    if (this.duration <= 0) return 0;
+    return Math.max(0, Math.min(100, (frame / this.duration) * 100));
+  }
+
+  /**
+   * Convert a mouse position to a frame on the track
+   */
+  private frameAt(e: MouseEvent): number | null {
+    const track = this.shadowRoot?.querySelector(".track");
+    if (!track || this.duration <= 0) return null;
+
+    const rect = track.getBoundingClientRect();
+    const percentage = Math.max(
+      0,
+      Math.min(1, (e.clientX - rect.left) / rect.width),
+    );
+    return Math.round(percentage * this.duration);
+  }
+
+  private handleTrackMouseDown = (e: MouseEvent): void => {
+    this.isSeeking = true;
+    this.seekTo(e);
+    e.preventDefault();
+  };
+
+  private handleMarkerMouseDown(
+    e: MouseEvent,
+    sceneIndex: number,
+    event: TimeEventInfo,
+  ): void {
+    e.stopPropagation();
+    e.preventDefault();
+    this.drag = { sceneIndex, event, targetTime: event.targetTime };
+  }
+
+  private handleMouseMove = (e: MouseEvent): void => {
+    if (this.drag) {
+      const frame = this.frameAt(e);
+      const scene = this.scenes[this.drag.sceneIndex];
+      if (frame === null || !scene) return;
+
+      // An event can only be delayed, never fire before waitUntil is reached
+      const targetTime = Math.max(
+        this.drag.event.initialTime,
+        (frame - scene.firstFrame) / this.fps,
+      );
+      this.drag = { ...this.drag, targetTime };
+    } else if (this.isSeeking) {
+      this.seekTo(e);
+    }
+  };
+
+  private handleMouseUp = (e: MouseEvent): void => {
+    this.isSeeking = false;
+
+    if (this.drag) {
+      const { sceneIndex, event, targetTime } = this.drag;
+      this.drag = null;
+      this.emitChange(
+        sceneIndex,
+        event.name,
+        targetTime - event.initialTime,
+        e.shiftKey,
+      );
+    }
+  };
+
+  private seekTo(e: MouseEvent): void {
+    const frame = this.frameAt(e);
+    if (frame !== null) {
+      this.dispatchEvent(new CustomEvent("seek", { detail: frame }));
+    }
+  }
+
+  private emitChange(
+    sceneIndex: number,
+    name: string,
+    offset: number,
+    preserve: boolean,
+  ): void {
+    const detail: TimeEventChange = { sceneIndex, name, offset, preserve };
+    this.dispatchEvent(new CustomEvent("time-event-change", { detail }));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "timeline-panel": TimelinePanel;
+  }
+}
@@ -23,9 +23,27 @@ import {
   closeBracketsKeymap,
 } from "@codemirror/autocomplete";
 import { defaultKeymap, history, historyKeymap } from "@codemirror/commands";
+import {
+  closeLintPanel,
+  lintGutter,
+  lintKeymap,
+  openLintPanel,
+  setDiagnostics,
+  type Diagnostic,
+} from "@codemirror/lint";
 import { catppuccinMocha } from "@catppuccin/codemirror";
 import { autocomplete } from "./autocomplete";
 import { formatCode, preloadPrettier } from "./formatter";
+import {
+  ENTRY_FILE,
+  singleFileProject,
+  sortFilePaths,
+  type ProjectFiles,
+} from "./project-files";
+import type { SourceLocation } from "./source-map";
+import type { CompileDiagnostic } from "./compiler";
+import type { TypeChecker } from "./type-checker";
+import { typeInfo, type TypeInfoSource } from "./type-info";
 
 export const DEFAULT_CODE = `import { makeScene2D, Circle, Rect } from '@motion-canvas/2d';
 import { waitFor, all, createRef } from '@motion-canvas/core';
@@ -84,16 +102,55 @@ export default makeScene2D(function* (view) {
 
 export interface EditorCallbacks {
   onSave: () => Promise<void>;
+  /** Called when go-to-definition switches to another file */
+  onFileOpened?: (path: string) => void;
 }
 
 export interface EditorOptions extends EditorCallbacks {
   initialCode?: string | null;
+  initialFiles?: ProjectFiles | null;
+  /** Provides completions, hover info and go-to-definition when given */
+  typeChecker?: TypeChecker;
+}
+
+/**
+ * Per-view file buffers. Each project file keeps its own EditorState so that
+ * undo history and selection survive switching between tabs.
+ */
+interface FileSession {
+  extensions: Extension[];
+  states: Map<string, EditorState>;
+  activePath: string;
+  /** Diagnostics per file, kept separately for each source */
+  diagnostics: Map<DiagnosticSource, Map<string, Diagnostic[]>>;
+}
+
+type DiagnosticSource = "compile" | "runtime" | "types";
+
+const sessions = new WeakMap<EditorView, FileSession>();
+
+function getSession(editor: EditorView): FileSession {
+  const session = sessions.get(editor);
+  if (!session) {
+    throw new Error("Editor was not created with createEditor");
+  }
+  return session;
 }
 
 export function createEditor(
   container: HTMLElement,
   options: EditorOptions,
 ): EditorView {
+  const typeSource: TypeInfoSource | undefined = options.typeChecker && {
+    checker: options.typeChecker,
+    getFiles: () => getProjectFiles(view),
+    getActiveFile: () => getActiveFile(view),
+    openFile: (path) => {
+      openFile(view, path);
+      options.onFileOpened?.(path);
+    },
+  };
+
   const extensions: Extension[] = [
     lineNumbers(),
     history(),
@@ -103,9 +160,10 @@ export function createEditor(
     bracketMatching(),
     closeBrackets(),
     autocompletion(),
-    autocomplete(),
+    autocomplete(typeSource),
     highlightSelectionMatches(),
     foldGutter(),
+    lintGutter(),
     javascript({ jsx: true, typescript: true }),
     keymap.of([
       ...closeBracketsKeymap,
@@ -114,6 +172,7 @@ export function createEditor(
       ...historyKeymap,
       ...foldKeymap,
       ...completionKeymap,
+      ...lintKeymap,
       indentWithTab,
       {
         key: "Mod-s",
@@ -141,26 +200,296 @@ export function createEditor(
     }),
   ];
 
-  const initialContent = options.initialCode || DEFAULT_CODE;
+  if (typeSource) {
+    extensions.push(typeInfo(typeSource));
+  }
 
-  const state = EditorState.create({
-    doc: initialContent,
-    extensions,
-  });
+  const initialFiles =
+    options.initialFiles ||
+    singleFileProject(options.initialCode || DEFAULT_CODE);
+
+  const states = new Map<string, EditorState>();
+  for (const [path, content] of Object.entries(initialFiles)) {
+    states.set(path, EditorState.create({ doc: content, extensions }));
+  }
+  if (!states.has(ENTRY_FILE)) {
+    states.set(
+      ENTRY_FILE,
+      EditorState.create({ doc: DEFAULT_CODE, extensions }),
+    );
+  }
 
-  return new EditorView({
-    state,
+  const view = new EditorView({
+    state: states.get(ENTRY_FILE),
     parent: container,
   });
+
+  sessions.set(view, {
+    extensions,
+    states,
+    activePath: ENTRY_FILE,
+    diagnostics: new Map(),
+  });
+
+  return view;
 }
 
 export function resetEditorToDefault(editor: EditorView): void {
+  setProjectFiles(editor, singleFileProject(DEFAULT_CODE));
+}
+
+/**
+ * Get the contents of every project file, including unsaved edits in the
+ * active buffer
+ */
+export function getProjectFiles(editor: EditorView): ProjectFiles {
+  const session = getSession(editor);
+  const files: ProjectFiles = {};
+
+  for (const path of sortFilePaths([...session.states.keys()])) {
+    files[path] =
+      path === session.activePath
+        ? editor.state.doc.toString()
+        : session.states.get(path)!.doc.toString();
+  }
+
+  return files;
+}
+
+/**
+ * Replace the whole project and show the entry file
+ */
+export function setProjectFiles(editor: EditorView, files: ProjectFiles): void {
+  const session = getSession(editor);
+  session.states.clear();
+  session.diagnostics.clear();
+
+  for (const [path, content] of Object.entries(files)) {
+    session.states.set(
+      path,
+      EditorState.create({ doc: content, extensions: session.extensions }),
+    );
+  }
+  if (!session.states.has(ENTRY_FILE)) {
+    session.states.set(
+      ENTRY_FILE,
+      EditorState.create({ doc: DEFAULT_CODE, extensions: session.extensions }),
+    );
+  }
+
+  session.activePath = ENTRY_FILE;
+  editor.setState(session.states.get(ENTRY_FILE)!);
+}
+
+export function getActiveFile(editor: EditorView): string {
+  return getSession(editor).activePath;
+}
+
+/**
+ * Switch the editor to another project file
+ */
+export function openFile(editor: EditorView, path: string): void {
+  const session = getSession(editor);
+  const next = session.states.get(path);
+
+  if (!next) {
+    throw new Error(`File "${path}" does not exist`);
+  }
+  if (path === session.activePath) {
+    return;
+  }
+
+  // Stash the active buffer so its edits and history are kept
+  session.states.set(session.activePath, editor.state);
+  session.activePath = path;
+  editor.setState(next);
+}
+
+export function createFile(
+  editor: EditorView,
+  path: string,
+  content = "",
+): void {
+  const session = getSession(editor);
+
+  if (session.states.has(path)) {
+    throw new Error(`File "${path}" already exists`);
+  }
+
+  session.states.set(
+    path,
+    EditorState.create({ doc: content, extensions: session.extensions }),
+  );
+  openFile(editor, path);
+}
+
+export function deleteFile(editor: EditorView, path: string): void {
+  const session = getSession(editor);
+
+  if (path === ENTRY_FILE) {
+    throw new Error(`The entry file "${ENTRY_FILE}" cannot be deleted`);
+  }
+  if (!session.states.has(path)) {
+    return;
+  }
+
+  if (path === session.activePath) {
+    openFile(editor, ENTRY_FILE);
+  }
+  session.states.delete(path);
+}
+
+export function renameFile(editor: EditorView, from: string, to: string): void {
+  const session = getSession(editor);
+
+  if (from === ENTRY_FILE) {
+    throw new Error(`The entry file "${ENTRY_FILE}" cannot be renamed`);
+  }
+  if (session.states.has(to)) {
+    throw new Error(`File "${to}" already exists`);
+  }
+
+  const state =
+    from === session.activePath ? editor.state : session.states.get(from);
+  if (!state) {
+    throw new Error(`File "${from}" does not exist`);
+  }
+
+  session.states.delete(from);
+  session.states.set(to, state);
+  if (from === session.activePath) {
+    session.activePath = to;
+  }
+}
+
+/**
+ * Push the diagnostics of every source to the file buffers. Positions are
+ * clamped, since a buffer may have been edited after its diagnostics were
+ * produced.
+ */
+function applyDiagnostics(editor: EditorView): void {
+  const session = getSession(editor);
+
+  const update = (path: string, state: EditorState) => {
+    const length = state.doc.length;
+    const diagnostics: Diagnostic[] = [];
+    for (const byFile of session.diagnostics.values()) {
+      for (const diagnostic of byFile.get(path) ?? []) {
+        const from = Math.min(diagnostic.from, length);
+        const to = Math.min(Math.max(diagnostic.to, from), length);
+        diagnostics.push({ ...diagnostic, from, to });
+      }
+    }
+    return setDiagnostics(state, diagnostics);
+  };
+
+  for (const [path, state] of session.states) {
+    if (path !== session.activePath) {
+      session.states.set(path, state.update(update(path, state)).state);
+    }
+  }
+  editor.dispatch(update(session.activePath, editor.state));
+}
+
+function groupByFile(
+  diagnostics: CompileDiagnostic[],
+  source?: string,
+): Map<string, Diagnostic[]> {
+  const byFile = new Map<string, Diagnostic[]>();
+
+  for (const { file, from, to, message } of diagnostics) {
+    const fileDiagnostics = byFile.get(file) ?? [];
+    fileDiagnostics.push({
+      from: Math.max(from, 0),
+      to: Math.max(to, from, 0),
+      severity: "error",
+      message,
+      source,
+    });
+    byFile.set(file, fileDiagnostics);
+  }
+
+  return byFile;
+}
+
+/**
+ * Show the problems found by a compile as squiggles and gutter markers. The
+ * first file with problems is opened along with the panel listing them.
+ * Runtime errors of the previous build are cleared.
+ */
+export function showCompileDiagnostics(
+  editor: EditorView,
+  diagnostics: CompileDiagnostic[],
+): void {
+  const session = getSession(editor);
+  const byFile = groupByFile(
+    diagnostics.filter(({ file }) => session.states.has(file)),
+  );
+
+  if (byFile.size > 0 && !byFile.has(session.activePath)) {
+    openFile(editor, sortFilePaths([...byFile.keys()])[0]);
+  }
+  session.diagnostics.set("compile", byFile);
+  session.diagnostics.delete("runtime");
+  applyDiagnostics(editor);
+
+  if (byFile.size > 0) {
+    // Opening the panel focuses it; keep typing in the editor instead
+    const hadFocus = editor.hasFocus;
+    openLintPanel(editor);
+    if (hadFocus) {
+      editor.focus();
+    }
+  } else {
+    closeLintPanel(editor);
+  }
+}
+
+/**
+ * Show the errors found by the type checker. Unlike compile errors, these
+ * don't switch files or open the panel.
+ */
+export function showTypeDiagnostics(
+  editor: EditorView,
+  diagnostics: CompileDiagnostic[],
+): void {
+  const session = getSession(editor);
+  session.diagnostics.set("types", groupByFile(diagnostics, "TypeScript"));
+  applyDiagnostics(editor);
+}
+
+/**
+ * Show a runtime error on the line it was thrown from, switching to that
+ * file if needed
+ */
+export function showRuntimeError(
+  editor: EditorView,
+  location: SourceLocation,
+  message: string,
+): void {
+  const session = getSession(editor);
+  if (!session.states.has(location.file)) {
+    return;
+  }
+
+  openFile(editor, location.file);
+  const { doc } = editor.state;
+  if (location.line > doc.lines) {
+    return;
+  }
+
+  // Underline the line from its first non-blank character
+  const line = doc.line(location.line);
+  const from = line.from + (/^\s*/.exec(line.text)?.[0].length ?? 0);
+  session.diagnostics.set(
+    "runtime",
+    new Map([
+      [location.file, [{ from, to: line.to, severity: "error", message }]],
+    ]),
+  );
+  applyDiagnostics(editor);
   editor.dispatch({
-    changes: {
-      from: 0,
-      to: editor.state.doc.length,
-      insert: DEFAULT_CODE,
-    },
+    effects: EditorView.scrollIntoView(from, { y: "center" }),
   });
 }
 
@@ -1,12 +1,104 @@
-import { MP4Exporter, ExportSettings, downloadBlob } from "./mp4-exporter";
+import {
+  VideoExporter,
+  ExportSettings,
+  VideoContainer,
+  downloadBlob,
+} from "./video-exporter";
 import { GIFExporter, GIFExportSettings } from "./gif-exporter";
+import {
+  PNGSequenceExporter,
+  PNGSequenceExportSettings,
+} from "./png-sequence-exporter";
+import { WebPExporter, WebPExportSettings } from "./webp-exporter";
+import { APNGExporter, APNGExportSettings } from "./apng-exporter";
+import {
+  StillExportSettings,
+  STILL_EXTENSIONS,
+  copyImageToClipboard,
+  encodeStill,
+} from "./still-exporter";
 import { MotionCanvasPlayer } from "./player";
+import { OffscreenRenderer } from "./offscreen-renderer";
 import { trackEvent } from "./analytics";
+import { decodeAudioTrack, renderAudioRange } from "./audio-track";
 
 export interface ExportProgress {
   phase: "preparing" | "exporting" | "finalizing" | "complete";
   progress: number;
   message: string;
+  /** The running job when exporting a queue */
+  job?: { index: number; count: number; name: string };
+  /** Outcome of every job, once a queue has finished */
+  results?: ExportJobResult[];
+}
+
+/**
+ * Part of the animation to export, in seconds
+ */
+export interface ExportRange {
+  start: number;
+  end: number;
+}
+
+/** Settings for a single export, tagged with its format */
+export type ExportJobSettings =
+  | ({ format: VideoContainer } & Partial<Omit<ExportSettings, "container">>)
+  | ({ format: "gif" } & Partial<GIFExportSettings>)
+  | ({ format: "png" } & Partial<PNGSequenceExportSettings>)
+  | ({ format: "webp" } & Partial<WebPExportSettings>)
+  | ({ format: "apng" } & Partial<APNGExportSettings>);
+
+/** A named export preset in a queue */
+export interface ExportJob {
+  name: string;
+  settings: ExportJobSettings;
+  range?: ExportRange;
+}
+
+export interface ExportJobResult {
+  name: string;
+  /** The downloaded file, when the job succeeded */
+  file?: { filename: string; size: number };
+  error?: string;
+  skipped?: boolean;
+}
+
+interface FrameExporter {
+  addFrame(sourceCanvas: HTMLCanvasElement): Promise<void>;
+  readonly signal: AbortSignal | undefined;
+}
+
+/**
+ * An exporter that encodes frames into a single file, following the
+ * contract of GIFExporter
+ */
+interface ImageExporter extends FrameExporter {
+  start(
+    width: number,
+    height: number,
+    duration: number,
+    sourceFps: number,
+  ): Promise<void>;
+  stop(): Promise<void>;
+  cancel(): void;
+}
+
+interface ImageExporterCallbacks {
+  onProgress: (progress: number) => void;
+  onComplete: (blob: Blob) => void;
+  onError: (error: string) => void;
+}
+
+interface ImageExportOptions {
+  /** Format name shown in progress messages */
+  label: string;
+  finalizingMessage: string;
+  /** Download name, completed with a timestamp and the extension */
+  filename: string;
+  extension: string;
+  fps: number;
+  scale: number;
+  createExporter: (callbacks: ImageExporterCallbacks) => ImageExporter;
 }
 
 export interface ExportControllerCallbacks {
@@ -19,21 +111,25 @@ export class ExportController {
   private player: MotionCanvasPlayer;
   private callbacks: ExportControllerCallbacks;
   private isExporting = false;
-  private exporter: MP4Exporter | null = null;
-  private gifExporter: GIFExporter | null = null;
-  private canvasGetter: () => HTMLCanvasElement | null;
+  private exporter: VideoExporter | null = null;
+  private imageExporter: ImageExporter | null = null;
+  /** State of the running queue, if any */
+  private queue: { cancelled: boolean; skipped: boolean } | null = null;
+  /** The file downloaded by the latest export */
+  private lastFile: { filename: string; size: number } | null = null;
 
   constructor(
     player: MotionCanvasPlayer,
     callbacks: ExportControllerCallbacks,
-    canvasGetter: () => HTMLCanvasElement | null,
   ) {
     this.player = player;
     this.callbacks = callbacks;
-    this.canvasGetter = canvasGetter;
   }
 
-  async exportMP4(settings?: Partial<ExportSettings>): Promise<void> {
+  async exportVideo(
+    settings?: Partial<ExportSettings>,
+    range?: ExportRange,
+  ): Promise<void> {
     if (this.isExporting) {
       throw new Error("Export already in progress");
     }
@@ -42,17 +138,22 @@ export class ExportController {
       quality: 0.8,
       fps: 30,
       videoBitrate: 5000000,
-      videoCodec: "h264",
+      scale: 1,
+      container: "mp4",
+      videoCodec: "avc",
     };
 
     const exportSettings = { ...defaultSettings, ...settings };
 
     // Track export event
     trackEvent("export_animation", {
-      format: "mp4",
+      format: exportSettings.container,
+      codec: exportSettings.videoCodec,
       fps: exportSettings.fps,
       quality: exportSettings.quality,
       video_bitrate: exportSettings.videoBitrate,
+      scale: exportSettings.scale,
+      has_audio: this.player.audioTrack !== null,
     });
 
     this.isExporting = true;
@@ -64,19 +165,14 @@ export class ExportController {
         message: "Preparing export...",
       });
 
-      const duration = this.player.currentDuration;
       const sourceFps = this.player.currentFps;
-      const canvas = this.canvasGetter();
-
-      if (!canvas) {
-        throw new Error("Canvas not found");
-      }
+      const { startTime, duration } = this.resolveRange(range);
 
       if (duration <= 0) {
         throw new Error("No animation to export");
       }
 
-      this.exporter = new MP4Exporter(exportSettings, {
+      this.exporter = new VideoExporter(exportSettings, {
         onProgress: (progress) => {
           const durationInSeconds = duration / sourceFps;
           const totalExportFrames = Math.ceil(
@@ -95,66 +191,52 @@ export class ExportController {
         },
         onComplete: (blob) => {
           const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-          const filename = `canvas-commons-animation-${timestamp}.mp4`;
-          downloadBlob(blob, filename);
-
-          this.callbacks.onProgress({
-            phase: "complete",
-            progress: 100,
-            message: "Export complete!",
-          });
-
-          setTimeout(() => {
-            this.callbacks.onComplete();
-          }, 1000);
+          this.finishExport(
+            blob,
+            `canvas-commons-animation-${timestamp}.${exportSettings.container}`,
+          );
         },
         onError: (error) => {
           this.callbacks.onError(error);
         },
       });
 
-      await this.exporter.start(
-        canvas.width,
-        canvas.height,
-        duration,
-        sourceFps,
-      );
-
-      const wasPlaying = this.player.playing;
-      const originalFrame = this.player.currentFrame;
-
-      this.player.reset();
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      const audio = await this.prepareAudio(startTime, duration / sourceFps);
 
-      const durationInSeconds = duration / sourceFps;
-      const totalExportFrames = Math.ceil(
-        durationInSeconds * exportSettings.fps,
+      const renderer = this.player.createOffscreenRenderer(
+        exportSettings.scale,
       );
-      const frameStep = duration / totalExportFrames;
 
-      for (let i = 0; i < totalExportFrames; i++) {
-        if (!this.exporter || this.exporter.signal?.aborted) {
-          break;
+      try {
+        await this.exporter.start(
+          renderer.width,
+          renderer.height,
+          duration,
+          sourceFps,
+          audio,
+        );
+        // The exporter has already reported why it couldn't start
+        if (this.exporter.signal?.aborted) {
+          return;
         }
 
-        const sourceFrame = Math.round(i * frameStep);
-
-        this.player.seek(sourceFrame);
-        await new Promise((resolve) => setTimeout(resolve, 50));
-
-        if (this.exporter && !this.exporter.signal?.aborted) {
-          await this.exporter.addFrame(canvas);
-        }
+        const totalExportFrames = Math.ceil(
+          (duration / sourceFps) * exportSettings.fps,
+        );
+        await this.renderFrames(
+          renderer,
+          this.exporter,
+          exportSettings.fps,
+          startTime,
+          totalExportFrames,
+        );
+      } finally {
+        renderer.dispose();
       }
 
       if (this.exporter && !this.exporter.signal?.aborted) {
         await this.exporter.stop();
       }
-
-      this.player.seek(originalFrame);
-      if (wasPlaying) {
-        this.player.togglePlayback();
-      }
     } catch (error) {
       this.callbacks.onError(
         `Export failed: ${
@@ -166,7 +248,187 @@ export class ExportController {
     }
   }
 
-  async exportGIF(settings?: Partial<GIFExportSettings>): Promise<void> {
+  /**
+   * Download a finished export and report that it is complete
+   */
+  private finishExport(blob: Blob, filename: string): void {
+    downloadBlob(blob, filename);
+    this.lastFile = { filename, size: blob.size };
+
+    this.callbacks.onProgress({
+      phase: "complete",
+      progress: 100,
+      message: "Export complete!",
+    });
+
+    // Captured now: a queue swaps the callbacks for each job
+    const callbacks = this.callbacks;
+    setTimeout(() => {
+      callbacks.onComplete();
+    }, 1000);
+  }
+
+  /**
+   * Run the export matching the format of the settings
+   */
+  async runExport(
+    settings: ExportJobSettings,
+    range?: ExportRange,
+  ): Promise<void> {
+    switch (settings.format) {
+      case "mp4":
+      case "webm": {
+        const { format, ...videoSettings } = settings;
+        return this.exportVideo({ ...videoSettings, container: format }, range);
+      }
+      case "gif": {
+        const { format, ...gifSettings } = settings;
+        return this.exportGIF(gifSettings, range);
+      }
+      case "png": {
+        const { format, ...pngSettings } = settings;
+        return this.exportPNGSequence(pngSettings, range);
+      }
+      case "webp": {
+        const { format, ...webpSettings } = settings;
+        return this.exportWebP(webpSettings, range);
+      }
+      case "apng": {
+        const { format, ...apngSettings } = settings;
+        return this.exportAPNG(apngSettings, range);
+      }
+    }
+  }
+
+  /**
+   * Run several exports one after another. A failed job is recorded and the
+   * queue moves on to the next one; cancelling stops the whole queue.
+   * @returns The outcome of every job, also reported with the final progress
+   */
+  async exportQueue(jobs: ExportJob[]): Promise<ExportJobResult[]> {
+    if (this.isExporting || this.queue) {
+      throw new Error("Export already in progress");
+    }
+
+    trackEvent("export_queue", {
+      jobs: jobs.length,
+      formats: jobs.map((job) => job.settings.format).join(","),
+    });
+
+    const callbacks = this.callbacks;
+    const queue = { cancelled: false, skipped: false };
+    const results: ExportJobResult[] = [];
+    this.queue = queue;
+
+    try {
+      for (const [index, job] of jobs.entries()) {
+        if (queue.cancelled) {
+          results.push({ name: job.name, skipped: true });
+          continue;
+        }
+
+        const info = { index, count: jobs.length, name: job.name };
+        let error: string | undefined;
+        queue.skipped = false;
+        this.lastFile = null;
+
+        // Jobs report to the queue: their errors are collected and
+        // completion is announced once every job has run
+        this.callbacks = {
+          onProgress: (progress) =>
+            callbacks.onProgress({ ...progress, job: info }),
+          onComplete: () => {},
+          onError: (message) => {
+            if (error === undefined) {
+              error = message;
+            }
+          },
+        };
+
+        try {
+          await this.runExport(job.settings, job.range);
+        } catch (jobError) {
+          error =
+            jobError instanceof Error ? jobError.message : String(jobError);
+        }
+
+        const skipped = queue.skipped || queue.cancelled;
+        results.push({
+          name: job.name,
+          file: error || skipped ? undefined : (this.lastFile ?? undefined),
+          error: skipped ? undefined : error,
+          skipped,
+        });
+      }
+    } finally {
+      this.callbacks = callbacks;
+      this.queue = null;
+    }
+
+    const produced = results.filter((result) => result.file).length;
+    callbacks.onProgress({
+      phase: "complete",
+      progress: 100,
+      message: `Exported ${produced} of ${jobs.length} files`,
+      results,
+    });
+
+    return results;
+  }
+
+  /**
+   * Clamp the requested range to the animation
+   * @returns The start in seconds and the duration in source frames
+   */
+  private resolveRange(range?: ExportRange): {
+    startTime: number;
+    duration: number;
+  } {
+    const totalDuration = this.player.currentDuration;
+    if (!range) {
+      return { startTime: 0, duration: totalDuration };
+    }
+
+    const sourceFps = this.player.currentFps;
+    const start = Math.max(0, Math.min(range.start * sourceFps, totalDuration));
+    const end = Math.max(0, Math.min(range.end * sourceFps, totalDuration));
+    if (end <= start) {
+      throw new Error("The export range is empty");
+    }
+
+    return { startTime: start / sourceFps, duration: end - start };
+  }
+
+  /**
+   * Decode the player's audio track and cut out the exported range
+   */
+  private async prepareAudio(
+    startTime: number,
+    durationInSeconds: number,
+  ): Promise<AudioBuffer | null> {
+    const file = this.player.audioTrack;
+    if (!file) {
+      return null;
+    }
+
+    this.callbacks.onProgress({
+      phase: "preparing",
+      progress: 0,
+      message: "Preparing audio...",
+    });
+
+    const buffer = await decodeAudioTrack(file);
+    return renderAudioRange(
+      buffer,
+      this.player.currentAudioOffset - startTime,
+      durationInSeconds,
+    );
+  }
+
+  async exportGIF(
+    settings?: Partial<GIFExportSettings>,
+    range?: ExportRange,
+  ): Promise<void> {
     if (this.isExporting) {
       throw new Error("Export already in progress");
     }
@@ -189,33 +451,274 @@ export class ExportController {
       scale: exportSettings.scale,
     });
 
+    await this.runImageExport(
+      {
+        label: "GIF",
+        finalizingMessage: "Finalizing GIF...",
+        filename: "canvas-commons-animation",
+        extension: "gif",
+        fps: exportSettings.fps,
+        scale: exportSettings.scale,
+        createExporter: (callbacks) =>
+          new GIFExporter(exportSettings, callbacks),
+      },
+      range,
+    );
+  }
+
+  /**
+   * Export every frame as a lossless PNG, packaged in a single ZIP archive
+   */
+  async exportPNGSequence(
+    settings?: Partial<PNGSequenceExportSettings>,
+    range?: ExportRange,
+  ): Promise<void> {
+    if (this.isExporting) {
+      throw new Error("Export already in progress");
+    }
+
+    const defaultSettings: PNGSequenceExportSettings = {
+      fps: this.player.currentFps,
+      scale: 1,
+      background: null,
+    };
+
+    const exportSettings = { ...defaultSettings, ...settings };
+
+    // Track export event
+    trackEvent("export_animation", {
+      format: "png-sequence",
+      fps: exportSettings.fps,
+      scale: exportSettings.scale,
+      transparent: exportSettings.background === null,
+    });
+
+    await this.runImageExport(
+      {
+        label: "PNG sequence",
+        finalizingMessage: "Packaging ZIP archive...",
+        filename: "canvas-commons-frames",
+        extension: "zip",
+        fps: exportSettings.fps,
+        scale: exportSettings.scale,
+        createExporter: (callbacks) =>
+          new PNGSequenceExporter(exportSettings, callbacks),
+      },
+      range,
+    );
+  }
+
+  async exportWebP(
+    settings?: Partial<WebPExportSettings>,
+    range?: ExportRange,
+  ): Promise<void> {
+    if (this.isExporting) {
+      throw new Error("Export already in progress");
+    }
+
+    const defaultSettings: WebPExportSettings = {
+      fps: 30,
+      quality: 0.8,
+      loop: 0,
+      scale: 1,
+      background: null,
+    };
+
+    const exportSettings = { ...defaultSettings, ...settings };
+
+    // Track export event
+    trackEvent("export_animation", {
+      format: "webp",
+      fps: exportSettings.fps,
+      quality: exportSettings.quality,
+      scale: exportSettings.scale,
+      transparent: exportSettings.background === null,
+    });
+
+    await this.runImageExport(
+      {
+        label: "WebP",
+        finalizingMessage: "Finalizing WebP...",
+        filename: "canvas-commons-animation",
+        extension: "webp",
+        fps: exportSettings.fps,
+        scale: exportSettings.scale,
+        createExporter: (callbacks) =>
+          new WebPExporter(exportSettings, callbacks),
+      },
+      range,
+    );
+  }
+
+  async exportAPNG(
+    settings?: Partial<APNGExportSettings>,
+    range?: ExportRange,
+  ): Promise<void> {
+    if (this.isExporting) {
+      throw new Error("Export already in progress");
+    }
+
+    const defaultSettings: APNGExportSettings = {
+      fps: 30,
+      loop: 0,
+      scale: 1,
+      background: null,
+    };
+
+    const exportSettings = { ...defaultSettings, ...settings };
+
+    // Track export event
+    trackEvent("export_animation", {
+      format: "apng",
+      fps: exportSettings.fps,
+      scale: exportSettings.scale,
+      transparent: exportSettings.background === null,
+    });
+
+    await this.runImageExport(
+      {
+        label: "APNG",
+        finalizingMessage: "Finalizing APNG...",
+        filename: "canvas-commons-animation",
+        extension: "png",
+        fps: exportSettings.fps,
+        scale: exportSettings.scale,
+        createExporter: (callbacks) =>
+          new APNGExporter(exportSettings, callbacks),
+      },
+      range,
+    );
+  }
+
+  /**
+   * Render a single frame and download it, or copy it to the clipboard
+   * @param frame - Frame number at the project's frame rate
+   */
+  async exportStill(
+    frame: number,
+    settings?: Partial<StillExportSettings>,
+    copyToClipboard = false,
+  ): Promise<void> {
+    if (this.isExporting) {
+      throw new Error("Export already in progress");
+    }
+
+    const defaultSettings: StillExportSettings = {
+      format: "png",
+      quality: 0.92,
+      scale: 1,
+      background: null,
+    };
+
+    const exportSettings = { ...defaultSettings, ...settings };
+    if (copyToClipboard) {
+      // The clipboard only accepts PNG images
+      exportSettings.format = "png";
+    }
+
+    // Track export event
+    trackEvent("export_still", {
+      format: exportSettings.format,
+      scale: exportSettings.scale,
+      clipboard: copyToClipboard,
+    });
+
     this.isExporting = true;
 
     try {
       this.callbacks.onProgress({
         phase: "preparing",
         progress: 0,
-        message: "Preparing GIF export...",
+        message: "Rendering frame...",
       });
 
-      const duration = this.player.currentDuration;
-      const sourceFps = this.player.currentFps;
-      const canvas = this.canvasGetter();
-
-      if (!canvas) {
-        throw new Error("Canvas not found");
+      if (copyToClipboard) {
+        await copyImageToClipboard(() =>
+          this.renderStill(frame, exportSettings),
+        );
+      } else {
+        const blob = await this.renderStill(frame, exportSettings);
+        const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+        const extension = STILL_EXTENSIONS[exportSettings.format];
+        downloadBlob(
+          blob,
+          `canvas-commons-frame-${frame}-${timestamp}.${extension}`,
+        );
       }
 
+      this.callbacks.onProgress({
+        phase: "complete",
+        progress: 100,
+        message: copyToClipboard ? "Copied to clipboard!" : "Export complete!",
+      });
+
+      setTimeout(() => {
+        this.callbacks.onComplete();
+      }, 1000);
+    } catch (error) {
+      this.callbacks.onError(
+        `Export failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  private async renderStill(
+    frame: number,
+    settings: StillExportSettings,
+  ): Promise<Blob> {
+    const duration = this.player.currentDuration;
+    if (duration <= 0) {
+      throw new Error("No animation to export");
+    }
+
+    const sourceFps = this.player.currentFps;
+    const time = Math.max(0, Math.min(frame, duration)) / sourceFps;
+    const renderer = this.player.createOffscreenRenderer(settings.scale);
+    const images: Blob[] = [];
+
+    try {
+      await renderer.render(sourceFps, time, 1, async (canvas) => {
+        images.push(await encodeStill(canvas, settings));
+      });
+    } finally {
+      renderer.dispose();
+    }
+
+    return images[0];
+  }
+
+  /**
+   * Render the range offscreen into an image exporter and download the
+   * resulting file
+   */
+  private async runImageExport(
+    options: ImageExportOptions,
+    range?: ExportRange,
+  ): Promise<void> {
+    this.isExporting = true;
+
+    try {
+      this.callbacks.onProgress({
+        phase: "preparing",
+        progress: 0,
+        message: `Preparing ${options.label} export...`,
+      });
+
+      const sourceFps = this.player.currentFps;
+      const { startTime, duration } = this.resolveRange(range);
+
       if (duration <= 0) {
         throw new Error("No animation to export");
       }
 
-      this.gifExporter = new GIFExporter(exportSettings, {
+      const totalExportFrames = Math.ceil((duration / sourceFps) * options.fps);
+
+      const exporter = options.createExporter({
         onProgress: (progress) => {
-          const durationInSeconds = duration / sourceFps;
-          const totalExportFrames = Math.ceil(
-            durationInSeconds * exportSettings.fps,
-          );
           const currentFrame = Math.floor((progress * totalExportFrames) / 100);
 
           this.callbacks.onProgress({
@@ -224,70 +727,49 @@ export class ExportController {
             message:
               progress < 95
                 ? `Exporting frame ${currentFrame}/${totalExportFrames}...`
-                : "Finalizing GIF...",
+                : options.finalizingMessage,
           });
         },
         onComplete: (blob) => {
           const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-          const filename = `canvas-commons-animation-${timestamp}.gif`;
-          downloadBlob(blob, filename);
-
-          this.callbacks.onProgress({
-            phase: "complete",
-            progress: 100,
-            message: "Export complete!",
-          });
-
-          setTimeout(() => {
-            this.callbacks.onComplete();
-          }, 1000);
+          this.finishExport(
+            blob,
+            `${options.filename}-${timestamp}.${options.extension}`,
+          );
         },
         onError: (error) => {
           this.callbacks.onError(error);
         },
       });
-
-      await this.gifExporter.start(
-        canvas.width,
-        canvas.height,
-        duration,
-        sourceFps,
-      );
-
-      const wasPlaying = this.player.playing;
-      const originalFrame = this.player.currentFrame;
-
-      this.player.reset();
-      await new Promise((resolve) => setTimeout(resolve, 100));
-
-      const durationInSeconds = duration / sourceFps;
-      const totalExportFrames = Math.ceil(
-        durationInSeconds * exportSettings.fps,
-      );
-      const frameStep = duration / totalExportFrames;
-
-      for (let i = 0; i < totalExportFrames; i++) {
-        if (!this.gifExporter || this.gifExporter.signal?.aborted) {
-          break;
+      this.imageExporter = exporter;
+
+      const renderer = this.player.createOffscreenRenderer(options.scale);
+
+      try {
+        await exporter.start(
+          renderer.width,
+          renderer.height,
+          duration,
+          sourceFps,
+        );
+        // The exporter has already reported why it couldn't start
+        if (exporter.signal?.aborted) {
+          return;
         }
 
-        const sourceFrame = Math.round(i * frameStep);
-
-        this.player.seek(sourceFrame);
-        await new Promise((resolve) => setTimeout(resolve, 50));
-
-        if (this.gifExporter && !this.gifExporter.signal?.aborted) {
-          await this.gifExporter.addFrame(canvas);
-        }
+        await this.renderFrames(
+          renderer,
+          exporter,
+          options.fps,
+          startTime,
+          totalExportFrames,
+        );
+      } finally {
+        renderer.dispose();
       }
 
-      if (this.gifExporter && !this.gifExporter.signal?.aborted) {
-        await this.gifExporter.stop();
-      }
-
-      this.player.seek(originalFrame);
-      if (wasPlaying) {
-        this.player.togglePlayback();
+      if (this.imageExporter && !exporter.signal?.aborted) {
+        await exporter.stop();
       }
     } catch (error) {
       this.callbacks.onError(
@@ -300,12 +782,50 @@ export class ExportController {
     }
   }
 
+  /**
+   * Render the animation offscreen and feed every frame to the exporter.
+   * Each frame is handed over only once the stage has finished drawing it.
+   */
+  private async renderFrames(
+    renderer: OffscreenRenderer,
+    exporter: FrameExporter,
+    fps: number,
+    startTime: number,
+    frameCount: number,
+  ): Promise<void> {
+    await renderer.render(
+      fps,
+      startTime,
+      frameCount,
+      (canvas) => exporter.addFrame(canvas),
+      exporter.signal,
+    );
+  }
+
+  /**
+   * Cancel the running job of a queue and continue with the next one
+   */
+  skipQueuedExport(): void {
+    if (!this.queue) {
+      return;
+    }
+    this.queue.skipped = true;
+    this.cancelCurrentExport();
+  }
+
   cancelExport(): void {
+    if (this.queue) {
+      this.queue.cancelled = true;
+    }
+    this.cancelCurrentExport();
+  }
+
+  private cancelCurrentExport(): void {
     if (this.exporter) {
       this.exporter.cancel();
     }
-    if (this.gifExporter) {
-      this.gifExporter.cancel();
+    if (this.imageExporter) {
+      this.imageExporter.cancel();
     }
     this.cleanup();
   }
@@ -313,10 +833,10 @@ export class ExportController {
   private cleanup(): void {
     this.isExporting = false;
     this.exporter = null;
-    this.gifExporter = null;
+    this.imageExporter = null;
   }
 
   get isExportInProgress(): boolean {
-    return this.isExporting;
+    return this.isExporting || this.queue !== null;
   }
 }
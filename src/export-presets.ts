@@ -0,0 +1,189 @@
+import {
+  CONTAINER_CODECS,
+  type VideoCodec,
+  type VideoContainer,
+} from "./video-exporter";
+
+/**
+ * Export settings stored in a preset, tagged with their format. Video and
+ * GIF settings use the field names of ExportSettings and GIFExportSettings.
+ * Ranges are left out since they depend on the project.
+ */
+export type ExportPresetSettings =
+  | {
+      format: VideoContainer;
+      fps: number;
+      quality: number;
+      videoBitrate: number;
+      scale: number;
+      videoCodec: VideoCodec;
+    }
+  | {
+      format: "gif";
+      fps: number;
+      quality: number;
+      scale: number;
+      dither: string | false;
+    }
+  | {
+      format: "png" | "webp" | "apng";
+      fps: number;
+      quality: number;
+      scale: number;
+      loop: number;
+      transparent: boolean;
+    };
+
+export interface ExportPreset {
+  name: string;
+  settings: ExportPresetSettings;
+}
+
+const STORAGE_KEY = "motion-canvas-fiddle-export-presets";
+
+// Version of the JSON format used for storage and preset files
+const PRESETS_VERSION = 1;
+
+/**
+ * Validate a preset read from storage or a file
+ */
+function parsePreset(value: unknown): ExportPreset {
+  if (!value || typeof value !== "object") {
+    throw new Error("Invalid preset");
+  }
+
+  const { name, settings } = value as Record<string, unknown>;
+  if (typeof name !== "string" || !name.trim()) {
+    throw new Error("A preset is missing its name");
+  }
+  if (!settings || typeof settings !== "object") {
+    throw new Error(`Preset "${name}" has no settings`);
+  }
+
+  const fields = settings as Record<string, unknown>;
+  const number = (key: string, min: number, max: number): number => {
+    const field = fields[key];
+    if (typeof field !== "number" || !(field >= min && field <= max)) {
+      throw new Error(`Preset "${name}" has an invalid ${key}`);
+    }
+    return field;
+  };
+  const fps = number("fps", 1, 120);
+  const scale = number("scale", 0.05, 8);
+
+  switch (fields.format) {
+    case "mp4":
+    case "webm": {
+      const videoCodec = fields.videoCodec as VideoCodec;
+      if (!CONTAINER_CODECS[fields.format].includes(videoCodec)) {
+        throw new Error(`Preset "${name}" has an invalid videoCodec`);
+      }
+      return {
+        name,
+        settings: {
+          format: fields.format,
+          fps,
+          quality: number("quality", 0, 1),
+          videoBitrate: number("videoBitrate", 100000, 50000000),
+          scale,
+          videoCodec,
+        },
+      };
+    }
+    case "gif": {
+      const dither = fields.dither;
+      if (typeof dither !== "string" && dither !== false) {
+        throw new Error(`Preset "${name}" has an invalid dither`);
+      }
+      return {
+        name,
+        settings: {
+          format: "gif",
+          fps,
+          quality: number("quality", 1, 30),
+          scale,
+          dither,
+        },
+      };
+    }
+    case "png":
+    case "webp":
+    case "apng":
+      return {
+        name,
+        settings: {
+          format: fields.format,
+          fps,
+          quality: number("quality", 0, 1),
+          scale,
+          loop: number("loop", 0, 0xffff),
+          transparent: fields.transparent === true,
+        },
+      };
+    default:
+      throw new Error(`Preset "${name}" has an unsupported format`);
+  }
+}
+
+/**
+ * Read presets from JSON, either a preset file or a bare array of presets
+ */
+export function parseExportPresets(json: string): ExportPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const presets = Array.isArray(data)
+    ? data
+    : (data as { presets?: unknown } | null)?.presets;
+  if (!Array.isArray(presets)) {
+    throw new Error("The file does not contain export presets");
+  }
+
+  return presets.map(parsePreset);
+}
+
+export function serializeExportPresets(presets: ExportPreset[]): string {
+  return JSON.stringify({ version: PRESETS_VERSION, presets }, null, 2);
+}
+
+export function loadExportPresets(): ExportPreset[] {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return parseExportPresets(stored);
+  } catch (error) {
+    console.warn("Failed to load export presets:", error);
+    return [];
+  }
+}
+
+export function saveExportPresets(presets: ExportPreset[]): void {
+  localStorage.setItem(STORAGE_KEY, serializeExportPresets(presets));
+}
+
+/**
+ * Add presets to a list. Presets with the name of an existing one replace it
+ * in place; the others are appended.
+ */
+export function mergeExportPresets(
+  presets: ExportPreset[],
+  added: ExportPreset[],
+): ExportPreset[] {
+  const merged = [...presets];
+  for (const preset of added) {
+    const index = merged.findIndex((other) => other.name === preset.name);
+    if (index === -1) {
+      merged.push(preset);
+    } else {
+      merged[index] = preset;
+    }
+  }
+  return merged;
+}
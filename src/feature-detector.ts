@@ -1,61 +1,35 @@
 /**
  * Feature Detection Module
  *
- * Detects TypeScript/JavaScript features that require WebContainer compilation
- * instead of Babel. Uses lightweight regex patterns for fast detection.
+ * Detects the TypeScript/JavaScript features a project uses, and whether it
+ * needs WebContainer compilation instead of Babel. Babel compiles decorators
+ * and every export form, so only packages that have to be installed need it.
+ * Uses lightweight regex patterns for fast detection.
  */
 
+import { BUNDLED_PACKAGES, resolveBundledPackage } from "./package-registry";
+
 export interface FeatureFlags {
   /** Whether the code uses TypeScript decorators (@decorator syntax) */
   hasDecorators: boolean;
 
-  /** Whether the code has multiple exports or re-exports */
-  hasComplexExports: boolean;
-
   /** Whether the code imports external packages not bundled in fiddle */
   hasExternalPackages: boolean;
 
   /** List of detected external package names */
   externalPackages: string[];
 
-  /** Whether WebContainer compilation is needed */
+  /** Whether WebContainer compilation is needed, to install external packages */
   needsWebContainer: boolean;
 }
 
-// Known bundled packages that don't require WebContainer
-const BUNDLED_PACKAGES = new Set([
-  "@motion-canvas/core",
-  "@motion-canvas/2d",
-  "@hhenrichsen/canvas-commons",
-  "@spidunno/motion-canvas-graphing",
-  "three",
-  "shiki",
-  "@lezer/common",
-  "@lezer/highlight",
-  "@lezer/lr",
-  "@lezer/cpp",
-  "@lezer/css",
-  "@lezer/go",
-  "@lezer/html",
-  "@lezer/java",
-  "@lezer/javascript",
-  "@lezer/json",
-  "@lezer/markdown",
-  "@lezer/php",
-  "@lezer/python",
-  "@lezer/rust",
-  "@lezer/sass",
-  "@lezer/xml",
-  "@lezer/yaml",
-]);
-
 /**
- * Detect features in user code that require WebContainer compilation
+ * Detect the features of user code, including whether it requires
+ * WebContainer compilation
  */
 export function detectFeatures(code: string): FeatureFlags {
   const flags: FeatureFlags = {
     hasDecorators: false,
-    hasComplexExports: false,
     hasExternalPackages: false,
     externalPackages: [],
     needsWebContainer: false,
@@ -67,17 +41,42 @@ export function detectFeatures(code: string): FeatureFlags {
   // Check for decorators
   flags.hasDecorators = detectDecorators(codeWithoutComments);
 
-  // Check for complex export patterns
-  flags.hasComplexExports = detectComplexExports(codeWithoutComments);
-
   // Check for external package imports
   const externalPackages = detectExternalPackages(codeWithoutComments);
   flags.hasExternalPackages = externalPackages.length > 0;
   flags.externalPackages = externalPackages;
 
   // Determine if WebContainer is needed
-  flags.needsWebContainer =
-    flags.hasDecorators || flags.hasComplexExports || flags.hasExternalPackages;
+  flags.needsWebContainer = flags.hasExternalPackages;
+
+  return flags;
+}
+
+/**
+ * Detect features across a multi-file project. WebContainer compilation is
+ * needed when any file imports an external package.
+ */
+export function detectProjectFeatures(
+  files: Record<string, string>,
+  entryFile: string,
+): FeatureFlags {
+  const flags = detectFeatures(files[entryFile] ?? "");
+  const externalPackages = new Set(flags.externalPackages);
+
+  for (const [path, code] of Object.entries(files)) {
+    if (path === entryFile) continue;
+
+    const codeWithoutComments = removeComments(code);
+    flags.hasDecorators =
+      flags.hasDecorators || detectDecorators(codeWithoutComments);
+    for (const pkg of detectExternalPackages(codeWithoutComments)) {
+      externalPackages.add(pkg);
+    }
+  }
+
+  flags.externalPackages = Array.from(externalPackages);
+  flags.hasExternalPackages = flags.externalPackages.length > 0;
+  flags.needsWebContainer = flags.hasExternalPackages;
 
   return flags;
 }
@@ -109,42 +108,16 @@ function detectDecorators(code: string): boolean {
 }
 
 /**
- * Detect complex export patterns that might need special handling
- */
-function detectComplexExports(code: string): boolean {
-  // Count number of exports
-  const exportMatches = code.match(
-    /\bexport\s+(class|function|const|let|var|type|interface|enum)/g,
-  );
-  const exportCount = exportMatches ? exportMatches.length : 0;
-
-  // Check for re-exports
-  const hasReexports = /export\s+\*\s+from|export\s+\{[^}]+\}\s+from/.test(
-    code,
-  );
-
-  // Check for export default AND other exports (mixed exports)
-  const hasDefaultExport = /export\s+default/.test(code);
-  const hasNamedExports = exportCount > 0;
-  const hasMixedExports =
-    hasDefaultExport && hasNamedExports && exportCount > 1;
-
-  // Consider it complex if:
-  // - Has re-exports
-  // - Has many exports (> 3)
-  // - Has mixed default and named exports with multiple items
-  return hasReexports || exportCount > 3 || hasMixedExports;
-}
-
-/**
- * Detect external package imports (not bundled in fiddle)
+ * Detect external package imports and re-exports (not bundled in fiddle)
  */
 function detectExternalPackages(code: string): string[] {
   const externalPackages: string[] = [];
 
-  // Match import statements
-  // Matches: import ... from 'package' or import ... from "package"
-  const importPattern = /import\s+(?:[\w{},\s*]+\s+from\s+)?['"]([^'"]+)['"]/g;
+  // Match import statements and re-exports
+  // Matches: import ... from 'package', import "package" or
+  // export ... from 'package'
+  const importPattern =
+    /(?:import|export)\s+(?:[\w{},\s*]+\s+from\s+)?['"]([^'"]+)['"]/g;
 
   let match: RegExpExecArray | null;
   const seenPackages = new Set<string>();
@@ -168,8 +141,9 @@ function detectExternalPackages(code: string): string[] {
       packageName = importPath.split("/")[0];
     }
 
-    // Check if it's a bundled package
-    if (!BUNDLED_PACKAGES.has(packageName) && !seenPackages.has(packageName)) {
+    // Check if it's a bundled package. Subpaths the bundled package doesn't
+    // serve, like "three/addons/...", are installed and built instead.
+    if (!resolveBundledPackage(importPath) && !seenPackages.has(packageName)) {
       seenPackages.add(packageName);
       externalPackages.push(packageName);
     }
@@ -179,15 +153,17 @@ function detectExternalPackages(code: string): string[] {
 }
 
 // Packages to exclude from analytics (always used, not interesting)
-const ANALYTICS_EXCLUDED_PACKAGES = new Set([
-  "@motion-canvas/core",
-  "@motion-canvas/2d",
-]);
-
-// Special relative imports that map to known packages
-const SPECIAL_RELATIVE_IMPORTS: Record<string, string> = {
-  "./shiki": "ShikiHighlighter",
-};
+const ANALYTICS_EXCLUDED_PACKAGES = new Set(
+  BUNDLED_PACKAGES.filter((pkg) => pkg.core).map((pkg) => pkg.name),
+);
+
+// The fiddle's own modules, which are reported by their global
+const SPECIAL_RELATIVE_IMPORTS: Record<string, string> = Object.fromEntries(
+  BUNDLED_PACKAGES.filter((pkg) => pkg.name.startsWith(".")).map((pkg) => [
+    pkg.name,
+    pkg.global,
+  ]),
+);
 
 /**
  * Detect ALL package imports for analytics (includes bundled packages)
@@ -199,8 +175,9 @@ export function detectAllPackages(code: string): string[] {
   // Remove comments to avoid false positives
   const codeWithoutComments = removeComments(code);
 
-  // Match import statements
-  const importPattern = /import\s+(?:[\w{},\s*]+\s+from\s+)?['"]([^'"]+)['"]/g;
+  // Match import statements and re-exports
+  const importPattern =
+    /(?:import|export)\s+(?:[\w{},\s*]+\s+from\s+)?['"]([^'"]+)['"]/g;
 
   let match: RegExpExecArray | null;
   const seenPackages = new Set<string>();
@@ -255,21 +232,7 @@ export function explainFeatures(flags: FeatureFlags): string {
     return "Using fast Babel compilation";
   }
 
-  const reasons: string[] = [];
-
-  if (flags.hasDecorators) {
-    reasons.push("TypeScript decorators detected");
-  }
-
-  if (flags.hasComplexExports) {
-    reasons.push("Complex export patterns detected");
-  }
-
-  if (flags.hasExternalPackages) {
-    reasons.push(`External packages: ${flags.externalPackages.join(", ")}`);
-  }
-
-  return `Using Vite (WebContainer) compilation: ${reasons.join("; ")}`;
+  return `Using Vite (WebContainer) compilation: External packages: ${flags.externalPackages.join(", ")}`;
 }
 
 /**
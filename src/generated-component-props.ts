@@ -5,3547 +5,7995 @@ export interface PropInfo {
   name: string;
   description?: string;
   type?: string;
+  /** Whether the prop has to be given */
+  required?: boolean;
+  /** The initial value of the prop's signal, as source code */
+  defaultValue?: string;
+  deprecated?: boolean;
+  /** The component that declares the prop, when it's inherited */
+  inheritedFrom?: string;
+  /** The literal values the prop accepts, as source code */
+  options?: string[];
 }
 
 export const componentProps: Record<string, PropInfo[]> = {
-  "Camera": [
+  "Bezier": [
     {
-      "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "key",
-      "type": "string"
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "x",
-      "type": "SignalValue<number>"
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "y",
-      "type": "SignalValue<number>"
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "rotation",
-      "type": "SignalValue<number>"
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "scaleX",
-      "type": "SignalValue<number>"
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "scaleY",
-      "type": "SignalValue<number>"
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "skewX",
-      "type": "SignalValue<number>"
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "skewY",
-      "type": "SignalValue<number>"
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
     },
     {
-      "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
     },
     {
-      "name": "zIndex",
-      "type": "SignalValue<number>"
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "opacity",
-      "type": "SignalValue<number>"
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "name": "layout",
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "name": "tagName",
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
-      "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "name": "width",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "name": "height",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "maxWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "cache",
-      "type": "SignalValue<boolean>"
+      "name": "maxHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "name": "minWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "name": "minHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "name": "ratio",
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "name": "marginTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "marginBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "composite",
-      "type": "SignalValue<boolean>"
+      "name": "marginLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "name": "marginRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "name": "margin",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "scene",
-      "type": "Node"
+      "name": "paddingTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "zoom",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "Knot": [
+      "name": "paddingBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
     {
-      "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "name": "paddingLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "paddingRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "padding",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "key",
-      "type": "string"
+      "name": "direction",
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
-      "name": "x",
-      "type": "SignalValue<number>"
+      "name": "basis",
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
-      "name": "y",
-      "type": "SignalValue<number>"
+      "name": "grow",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "shrink",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "rotation",
-      "type": "SignalValue<number>"
+      "name": "wrap",
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
-      "name": "scaleX",
-      "type": "SignalValue<number>"
+      "name": "justifyContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
-      "name": "scaleY",
-      "type": "SignalValue<number>"
+      "name": "alignContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
-      "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "alignItems",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
-      "name": "skewX",
-      "type": "SignalValue<number>"
+      "name": "alignSelf",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
-      "name": "skewY",
-      "type": "SignalValue<number>"
+      "name": "rowGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "columnGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "zIndex",
-      "type": "SignalValue<number>"
+      "name": "gap",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "opacity",
-      "type": "SignalValue<number>"
+      "name": "fontFamily",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "name": "fontSize",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "name": "fontStyle",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "name": "fontWeight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "name": "lineHeight",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "name": "letterSpacing",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "textWrap",
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
-      "name": "cache",
-      "type": "SignalValue<boolean>"
+      "name": "textDirection",
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
-      "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
-      "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "composite",
-      "type": "SignalValue<boolean>"
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startHandle",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endHandle",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "auto",
-      "type": "SignalValue<PossibleKnotAuto>"
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startHandleAuto",
-      "type": "SignalValue<number>"
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endHandleAuto",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "Layout": [
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Camera": [
+    {
+      "name": "scene",
+      "description": "The scene node that the camera is rendering.",
+      "type": "Node"
     },
     {
-      "name": "layout",
-      "type": "LayoutMode"
+      "name": "zoom",
+      "description": "The zoom level of the camera.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1"
     },
     {
-      "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
+    },
+    {
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Circle": [
+    {
+      "name": "startAngle",
+      "description": "The starting angle in degrees for the circle sector.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "endAngle",
+      "description": "The ending angle in degrees for the circle sector.",
+      "type": "SignalValue<number>",
+      "defaultValue": "360"
+    },
+    {
+      "name": "counterclockwise",
+      "description": "Whether the circle sector should be drawn counterclockwise.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
+    },
+    {
+      "name": "closed",
+      "description": "Whether the path of this circle should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "layout",
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "tagName",
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    }
-  ],
-  "MathExpression": [
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Code": [
+    {
+      "name": "highlighter",
+      "description": "The code highlighter to use for this code node.",
+      "type": "SignalValue<CodeHighlighter | null>",
+      "defaultValue": "() => Code.defaultHighlighter"
     },
     {
-      "name": "equation",
-      "type": "SignalValue<string>"
+      "name": "code",
+      "description": "The code to display.",
+      "type": "SignalValue<PossibleCodeScope>"
     },
     {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "selection",
+      "description": "The currently selected code range.",
+      "type": "SignalValue<PossibleCodeSelection>",
+      "defaultValue": "lines(0, Infinity)"
+    },
+    {
+      "name": "drawHooks",
+      "description": "Custom drawing logic for the code.",
+      "type": "SignalValue<DrawHooks>",
+      "defaultValue": "{\n    token(ctx, text, position, color, selection) {\n      ctx.fillStyle = color;\n      ctx.globalAlpha *= map(0.2, 1, selection);\n      ctx.fillText(text, position.x, position.y);\n    },\n  }"
     },
     {
       "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "domain",
-      "type": "SignalValue<[number, number]>"
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
     },
     {
-      "name": "fillParametric",
-      "type": "SignalValue<boolean>"
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
     },
     {
       "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    }
-  ],
-  "Shape": [
-    {
-      "name": "ref",
-      "type": "ReferenceReceiver<any>"
-    },
-    {
-      "name": "children",
-      "type": "SignalValue<ComponentChildren>"
-    },
-    {
-      "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
-    },
-    {
-      "name": "key",
-      "type": "string"
-    },
-    {
-      "name": "x",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "y",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "position",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "rotation",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "scaleX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "scaleY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "skewX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "skewY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "zIndex",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "opacity",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "filters",
-      "type": "SignalValue<Filter[]>"
-    },
-    {
-      "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
-    },
-    {
-      "name": "shadowBlur",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "cache",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
-    },
-    {
-      "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    }
-  ],
-  "CodeLineNumbers": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
-    },
-    {
-      "name": "layout",
-      "type": "LayoutMode"
-    },
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "CubicBezier": [
     {
-      "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "name": "p0",
+      "description": "The start point of the Bézier curve.",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "width",
-      "type": "SignalValue<Length>"
+      "name": "p0X",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "height",
-      "type": "SignalValue<Length>"
+      "name": "p0Y",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "name": "p1",
+      "description": "The first control point of the Bézier curve.",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "name": "p1X",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "name": "p1Y",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "name": "p2",
+      "description": "The second control point of the Bézier curve.",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "ratio",
+      "name": "p2X",
       "type": "SignalValue<number>"
     },
     {
-      "name": "marginTop",
+      "name": "p2Y",
       "type": "SignalValue<number>"
     },
     {
-      "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "name": "p3",
+      "description": "The end point of the Bézier curve.",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "marginLeft",
+      "name": "p3X",
       "type": "SignalValue<number>"
     },
     {
-      "name": "marginRight",
+      "name": "p3Y",
       "type": "SignalValue<number>"
     },
     {
-      "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "layout",
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "tagName",
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
+    },
+    {
+      "name": "width",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "height",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "maxWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "maxHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "ratio",
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "margin",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "code",
-      "type": "Reference<Code>"
-    },
-    {
-      "name": "numberProps",
-      "type": "TxtProps"
-    },
-    {
-      "name": "rootLayoutProps",
-      "type": "LayoutProps"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "columnLayoutProps",
-      "type": "LayoutProps"
-    }
-  ],
-  "Glow": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Curve": [
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "amount",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "copyOpacity",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "Plot": [
-    {
-      "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Grid": [
+    {
+      "name": "spacing",
+      "description": "The spacing between the grid lines.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "80"
+    },
+    {
+      "name": "start",
+      "description": "The percentage that should be clipped from the beginning of each grid line.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "end",
+      "description": "The percentage that should be clipped from the end of each grid line.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "minX",
-      "type": "SignalValue<number>"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "minY",
-      "type": "SignalValue<number>"
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "min",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
-      "name": "maxX",
-      "type": "SignalValue<number>"
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "maxY",
-      "type": "SignalValue<number>"
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "max",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "ticksX",
-      "type": "SignalValue<number>"
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "ticksY",
-      "type": "SignalValue<number>"
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "ticks",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "labelSizeX",
-      "type": "SignalValue<number>"
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "labelSizeY",
-      "type": "SignalValue<number>"
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "labelSize",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "labelPaddingX",
-      "type": "SignalValue<number>"
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "labelPaddingY",
-      "type": "SignalValue<number>"
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "labelPadding",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "tickPaddingX",
-      "type": "SignalValue<number>"
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "tickPaddingY",
-      "type": "SignalValue<number>"
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "tickPadding",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "tickLabelSizeX",
-      "type": "SignalValue<number>"
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "tickLabelSizeY",
-      "type": "SignalValue<number>"
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "tickLabelSize",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "tickOverflowX",
-      "type": "SignalValue<number>"
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "tickOverflowY",
-      "type": "SignalValue<number>"
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "tickOverflow",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "gridStrokeWidth",
-      "type": "SignalValue<number>"
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "axisStrokeWidth",
-      "type": "SignalValue<number>"
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "labelX",
-      "type": "SignalValue<string>"
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "axisColorX",
-      "type": "SignalValue<PossibleColor>"
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "axisTextColorX",
-      "type": "SignalValue<PossibleColor>"
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "labelY",
-      "type": "SignalValue<string>"
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
-      "name": "axisColorY",
-      "type": "SignalValue<PossibleColor>"
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Icon": [
+    {
+      "name": "icon",
+      "description": "The identifier of the icon.",
+      "type": "SignalValue<string>",
+      "required": true
     },
     {
-      "name": "axisTextColorY",
-      "type": "SignalValue<PossibleColor>"
+      "name": "color",
+      "description": "The color of the icon",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'white'"
     },
     {
-      "name": "labelFormatterX",
-      "type": "(x: number) => string"
+      "name": "src",
+      "description": "The source of this image.",
+      "type": "SignalValue<string | null>",
+      "inheritedFrom": "Img"
     },
     {
-      "name": "labelFormatterY",
-      "type": "(y: number) => string"
-    }
-  ],
-  "ScatterPlot": [
+      "name": "alpha",
+      "description": "The alpha value of this image.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Img"
+    },
     {
-      "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "name": "smoothing",
+      "description": "Whether the image should be smoothed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Img"
     },
     {
-      "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "radius",
+      "description": "Rounds the corners of this rectangle.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "smoothCorners",
+      "description": "Enables corner smoothing.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "key",
-      "type": "string"
+      "name": "cornerSharpness",
+      "description": "Controls the sharpness of {@link smoothCorners}.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0.6",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "x",
-      "type": "SignalValue<number>"
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "y",
-      "type": "SignalValue<number>"
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "rotation",
-      "type": "SignalValue<number>"
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "scaleX",
-      "type": "SignalValue<number>"
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "scaleY",
-      "type": "SignalValue<number>"
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "skewX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "skewY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "zIndex",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "opacity",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "filters",
-      "type": "SignalValue<Filter[]>"
-    },
-    {
-      "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
-    },
-    {
-      "name": "shadowBlur",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "cache",
-      "type": "SignalValue<boolean>"
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
     },
     {
-      "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
     },
     {
-      "name": "composite",
-      "type": "SignalValue<boolean>"
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "pointRadius",
-      "type": "number"
-    },
-    {
-      "name": "pointColor",
-      "type": "PossibleCanvasStyle"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "data",
-      "type": "SignalValue<PossibleVector2[]>"
-    },
-    {
-      "name": "start",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "end",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "Table": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Img": [
+    {
+      "name": "src",
+      "description": "The source of this image.",
+      "type": "SignalValue<string | null>"
+    },
+    {
+      "name": "alpha",
+      "description": "The alpha value of this image.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1"
+    },
+    {
+      "name": "smoothing",
+      "description": "Whether the image should be smoothed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true"
+    },
+    {
+      "name": "radius",
+      "description": "Rounds the corners of this rectangle.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Rect"
+    },
+    {
+      "name": "smoothCorners",
+      "description": "Enables corner smoothing.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Rect"
+    },
+    {
+      "name": "cornerSharpness",
+      "description": "Controls the sharpness of {@link smoothCorners}.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0.6",
+      "inheritedFrom": "Rect"
+    },
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
+    },
+    {
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
     }
   ],
-  "Terminal": [
+  "Knot": [
+    {
+      "name": "startHandle",
+      "description": "The position of the knot's start handle. The position is provided relative to the knot's position.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Mirrored position of the endHandle."
+    },
+    {
+      "name": "endHandle",
+      "description": "The position of the knot's end handle. The position is provided relative to the knot's position.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Mirrored position of the startHandle."
+    },
+    {
+      "name": "auto",
+      "description": "How much to blend between the user-provided handles and the auto-calculated handles.",
+      "type": "SignalValue<PossibleKnotAuto>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "startHandleAuto",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "endHandleAuto",
+      "type": "SignalValue<number>"
+    },
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Latex": [
+    {
+      "name": "tex",
+      "type": "SignalValue<string[] | string>",
+      "defaultValue": "''"
+    },
+    {
+      "name": "renderProps",
+      "type": "SignalValue<OptionList>"
+    },
+    {
+      "name": "wrap",
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
+    },
+    {
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "left",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "prefix",
-      "type": "SignalValue<string | TxtProps>"
-    },
-    {
-      "name": "defaultTxtProps",
-      "type": "TxtProps"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "wpm",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "MathGraphingCalculator": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
-    },
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Layout": [
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
@@ -3557,23 +8005,44 @@ export const componentProps: Record<string, PropInfo[]> = {
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null"
     },
     {
       "name": "marginTop",
@@ -3617,39 +8086,97 @@ export const componentProps: Record<string, PropInfo[]> = {
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
@@ -3661,7 +8188,8 @@ export const componentProps: Record<string, PropInfo[]> = {
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0"
     },
     {
       "name": "fontFamily",
@@ -3689,19 +8217,37 @@ export const componentProps: Record<string, PropInfo[]> = {
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}"
     },
     {
       "name": "offsetX",
@@ -3713,10493 +8259,24015 @@ export const componentProps: Record<string, PropInfo[]> = {
     },
     {
       "name": "offset",
+      "description": "Represents the offset of this node's origin.",
       "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "middle",
+      "description": "The position of the center of this node.",
       "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "top",
+      "description": "The position of the top edge of this node.",
       "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
       "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "left",
+      "description": "The position of the left edge of this node.",
       "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "right",
+      "description": "The position of the right edge of this node.",
       "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
       "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "topRight",
+      "description": "The position of the top right corner of this node.",
       "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
       "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
       "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "complex",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
     },
-    {
-      "name": "debug",
-      "type": "SignalValue<boolean>"
-    }
-  ],
-  "MathSpace": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Line": [
+    {
+      "name": "radius",
+      "description": "The radius of the line's corners.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "points",
+      "description": "The points of the line.",
+      "type": "SignalValue<SignalValue<PossibleVector2>[]>",
+      "defaultValue": "null"
+    },
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "minX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "minY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "min",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "maxX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "maxY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "max",
-      "type": "SignalValue<PossibleVector2>"
-    }
-  ],
-  "Code": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
-    },
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Node": [
     {
-      "name": "layout",
-      "type": "LayoutMode"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>"
     },
     {
-      "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>"
     },
     {
-      "name": "width",
-      "type": "SignalValue<Length>"
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true
     },
     {
-      "name": "height",
-      "type": "SignalValue<Length>"
+      "name": "key",
+      "type": "string"
     },
     {
-      "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "name": "x",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "name": "y",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
     },
     {
-      "name": "ratio",
+      "name": "scaleX",
       "type": "SignalValue<number>"
     },
     {
-      "name": "marginTop",
+      "name": "scaleY",
       "type": "SignalValue<number>"
     },
     {
-      "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one"
     },
     {
-      "name": "marginLeft",
+      "name": "skewX",
       "type": "SignalValue<number>"
     },
     {
-      "name": "marginRight",
+      "name": "skewY",
       "type": "SignalValue<number>"
     },
+    {
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero"
+    },
+    {
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1"
+    },
+    {
+      "name": "filters",
+      "type": "SignalValue<Filter[]>"
+    },
+    {
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'"
+    },
+    {
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
+    },
+    {
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
+    },
+    {
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]"
+    }
+  ],
+  "Path": [
+    {
+      "name": "data",
+      "type": "SignalValue<string>",
+      "required": true
+    },
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "layout",
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "tagName",
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
+    },
+    {
+      "name": "width",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "height",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "maxWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "maxHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "ratio",
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "margin",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "padding",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "direction",
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
+    },
+    {
+      "name": "basis",
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
+    },
+    {
+      "name": "grow",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "shrink",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "wrap",
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
+    },
+    {
+      "name": "justifyContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
+    },
+    {
+      "name": "alignContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
+    },
+    {
+      "name": "alignItems",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
+    },
+    {
+      "name": "alignSelf",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
+    },
+    {
+      "name": "rowGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "columnGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "gap",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontFamily",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontSize",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontStyle",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontWeight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "lineHeight",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "letterSpacing",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "textWrap",
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
+    },
+    {
+      "name": "textDirection",
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
+    },
+    {
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
+    },
+    {
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
+    },
+    {
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Polygon": [
+    {
+      "name": "sides",
+      "description": "The number of sides of the polygon.",
+      "type": "SignalValue<number>",
+      "defaultValue": "6"
+    },
+    {
+      "name": "radius",
+      "description": "The radius of the polygon's corners.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "layout",
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "tagName",
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
+    },
+    {
+      "name": "width",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "height",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "maxWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "maxHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "ratio",
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "margin",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "padding",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "direction",
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
+    },
+    {
+      "name": "basis",
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
+    },
+    {
+      "name": "grow",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "shrink",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "wrap",
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
+    },
+    {
+      "name": "justifyContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
+    },
+    {
+      "name": "alignContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
+    },
+    {
+      "name": "alignItems",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
+    },
+    {
+      "name": "alignSelf",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
+    },
+    {
+      "name": "rowGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "columnGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "gap",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontFamily",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontSize",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontStyle",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontWeight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "lineHeight",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "letterSpacing",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "textWrap",
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
+    },
+    {
+      "name": "textDirection",
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
+    },
+    {
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
+    },
+    {
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
+    },
+    {
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "QuadBezier": [
+    {
+      "name": "p0",
+      "description": "The start point of the Bézier curve.",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "p0X",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "p0Y",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "p1",
+      "description": "The control point of the Bézier curve.",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "p1X",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "p1Y",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "p2",
+      "description": "The end point of the Bézier curve.",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "p2X",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "p2Y",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "layout",
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "tagName",
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
+    },
+    {
+      "name": "width",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "height",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "maxWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "maxHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "ratio",
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "margin",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "padding",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "direction",
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
+    },
+    {
+      "name": "basis",
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
+    },
+    {
+      "name": "grow",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "shrink",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "wrap",
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
+    },
+    {
+      "name": "justifyContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
+    },
+    {
+      "name": "alignContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
+    },
+    {
+      "name": "alignItems",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
+    },
+    {
+      "name": "alignSelf",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
+    },
+    {
+      "name": "rowGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "columnGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "gap",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontFamily",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontSize",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontStyle",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontWeight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "lineHeight",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "letterSpacing",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "textWrap",
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
+    },
+    {
+      "name": "textDirection",
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
+    },
+    {
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
+    },
+    {
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
+    },
+    {
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Ray": [
+    {
+      "name": "from",
+      "description": "The starting point of the ray.",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "fromX",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "fromY",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "to",
+      "description": "The ending point of the ray.",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "toX",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "toY",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "layout",
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "tagName",
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
+    },
+    {
+      "name": "width",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "height",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "maxWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "maxHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "ratio",
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "margin",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "paddingRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "padding",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "direction",
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
+    },
+    {
+      "name": "basis",
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
+    },
+    {
+      "name": "grow",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "shrink",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "wrap",
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
+    },
+    {
+      "name": "justifyContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
+    },
+    {
+      "name": "alignContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
+    },
+    {
+      "name": "alignItems",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
+    },
+    {
+      "name": "alignSelf",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
+    },
+    {
+      "name": "rowGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "columnGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "gap",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontFamily",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontSize",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontStyle",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "fontWeight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "lineHeight",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "letterSpacing",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "textWrap",
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
+    },
+    {
+      "name": "textDirection",
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
+    },
+    {
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
+    },
+    {
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
+    },
+    {
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Rect": [
+    {
+      "name": "radius",
+      "description": "Rounds the corners of this rectangle.",
+      "type": "SignalValue<PossibleSpacing>"
+    },
+    {
+      "name": "smoothCorners",
+      "description": "Enables corner smoothing.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
+    },
+    {
+      "name": "cornerSharpness",
+      "description": "Controls the sharpness of {@link smoothCorners}.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0.6"
+    },
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "layout",
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "tagName",
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
+    },
+    {
+      "name": "width",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "height",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "maxWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "maxHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "minHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
+    },
+    {
+      "name": "ratio",
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "marginRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "highlighter",
-      "type": "SignalValue<CodeHighlighter | null>"
-    },
-    {
-      "name": "code",
-      "type": "SignalValue<PossibleCodeScope>"
-    },
-    {
-      "name": "selection",
-      "type": "SignalValue<PossibleCodeSelection>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "drawHooks",
-      "type": "SignalValue<DrawHooks>"
-    }
-  ],
-  "Curve": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "SVG": [
+    {
+      "name": "svg",
+      "description": "SVG string to be rendered",
+      "type": "SignalValue<string>",
+      "required": true
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "right",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "Grid": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Shape": [
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "spacing",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "start",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "end",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "SVG": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Spline": [
+    {
+      "name": "smoothness",
+      "description": "The smoothness of the spline when using auto-calculated handles.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0.4"
+    },
+    {
+      "name": "points",
+      "description": "The knots of the spline as an array of knots with auto-calculated handles.",
+      "type": "SignalValue<SignalValue<PossibleVector2[]>>",
+      "defaultValue": "null"
+    },
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "svg",
-      "type": "SignalValue<string>"
-    }
-  ],
-  "Txt": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "TxtChildren"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Txt": [
+    {
+      "name": "children",
+      "type": "TxtChildren"
+    },
+    {
+      "name": "text",
+      "type": "SignalValue<string>",
+      "defaultValue": "''"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "text",
-      "type": "SignalValue<string>"
-    }
-  ],
-  "TxtLeaf": [
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
+    },
     {
-      "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "children",
-      "type": "string"
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "key",
-      "type": "string"
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
-      "name": "x",
-      "type": "SignalValue<number>"
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Video": [
+    {
+      "name": "src",
+      "description": "The source of this video.",
+      "type": "SignalValue<string>"
     },
     {
-      "name": "y",
-      "type": "SignalValue<number>"
+      "name": "alpha",
+      "description": "The alpha value of this video.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1"
     },
     {
-      "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "smoothing",
+      "description": "Whether the video should be smoothed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true"
     },
     {
-      "name": "rotation",
-      "type": "SignalValue<number>"
+      "name": "loop",
+      "description": "Whether this video should loop upon reaching the end.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false"
     },
     {
-      "name": "scaleX",
-      "type": "SignalValue<number>"
+      "name": "playbackRate",
+      "description": "The rate at which the video plays, as multiples of the normal speed.",
+      "type": "number",
+      "defaultValue": "1"
     },
     {
-      "name": "scaleY",
-      "type": "SignalValue<number>"
+      "name": "time",
+      "description": "The starting time for this video in seconds.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0"
     },
     {
-      "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "play",
+      "type": "boolean"
     },
     {
-      "name": "skewX",
-      "type": "SignalValue<number>"
+      "name": "radius",
+      "description": "Rounds the corners of this rectangle.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "skewY",
-      "type": "SignalValue<number>"
+      "name": "smoothCorners",
+      "description": "Enables corner smoothing.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "cornerSharpness",
+      "description": "Controls the sharpness of {@link smoothCorners}.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0.6",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "zIndex",
-      "type": "SignalValue<number>"
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "opacity",
-      "type": "SignalValue<number>"
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "cache",
-      "type": "SignalValue<boolean>"
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
     },
     {
-      "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
     },
     {
-      "name": "composite",
-      "type": "SignalValue<boolean>"
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "text",
-      "type": "SignalValue<string>"
-    }
-  ],
-  "MathGrid": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
+    },
+    {
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "View2D": [
+    {
+      "name": "assetHash",
+      "type": "string",
+      "required": true
+    },
+    {
+      "name": "radius",
+      "description": "Rounds the corners of this rectangle.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Rect"
+    },
+    {
+      "name": "smoothCorners",
+      "description": "Enables corner smoothing.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Rect"
+    },
+    {
+      "name": "cornerSharpness",
+      "description": "Controls the sharpness of {@link smoothCorners}.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0.6",
+      "inheritedFrom": "Rect"
+    },
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "cache",
-      "type": "SignalValue<boolean>"
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
     },
     {
-      "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
     },
     {
-      "name": "composite",
-      "type": "SignalValue<boolean>"
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "xAxisStroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "yAxisStroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "axesLineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "spacing",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "start",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "alpha",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "MathAxis": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "CodeLineNumbers": [
+    {
+      "name": "code",
+      "type": "Reference<Code>",
+      "required": true
+    },
+    {
+      "name": "numberProps",
+      "type": "TxtProps"
+    },
+    {
+      "name": "rootLayoutProps",
+      "type": "LayoutProps"
+    },
+    {
+      "name": "columnLayoutProps",
+      "type": "LayoutProps"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
-    },
-    {
-      "name": "offsetX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "offsetY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "top",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "left",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "right",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "spacing",
-      "type": "SignalValue<number>"
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "alpha",
-      "type": "SignalValue<number>"
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "axis",
-      "type": "SignalValue<'x' | 'y'>"
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "displayZero",
-      "type": "SignalValue<boolean>"
-    }
-  ],
-  "Circle": [
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "FileTree": [
+    {
+      "name": "structure",
+      "type": "FileStructure"
+    },
+    {
+      "name": "folderColor",
+      "type": "SignalValue<PossibleColor>"
+    },
+    {
+      "name": "fileColor",
+      "type": "SignalValue<PossibleColor>"
+    },
+    {
+      "name": "assetColor",
+      "type": "SignalValue<PossibleColor>"
+    },
+    {
+      "name": "labelColor",
+      "type": "SignalValue<PossibleColor>"
+    },
+    {
+      "name": "indentAmount",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "rowSize",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "radius",
+      "description": "Rounds the corners of this rectangle.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Rect"
+    },
+    {
+      "name": "smoothCorners",
+      "description": "Enables corner smoothing.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Rect"
+    },
+    {
+      "name": "cornerSharpness",
+      "description": "Controls the sharpness of {@link smoothCorners}.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0.6",
+      "inheritedFrom": "Rect"
+    },
+    {
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
-    },
-    {
-      "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
-    },
-    {
-      "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
-    },
-    {
-      "name": "offsetX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "offsetY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "top",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "left",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "right",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startAngle",
-      "type": "SignalValue<number>"
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endAngle",
-      "type": "SignalValue<number>"
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "counterclockwise",
-      "type": "SignalValue<boolean>"
-    }
-  ],
-  "Line": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Glow": [
+    {
+      "name": "amount",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "copyOpacity",
+      "type": "SignalValue<number>"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "radius",
-      "type": "SignalValue<number>"
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "points",
-      "type": "SignalValue<SignalValue<PossibleVector2>[]>"
-    }
-  ],
-  "Path": [
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
     {
-      "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "key",
-      "type": "string"
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "x",
-      "type": "SignalValue<number>"
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "y",
-      "type": "SignalValue<number>"
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "rotation",
-      "type": "SignalValue<number>"
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "scaleX",
-      "type": "SignalValue<number>"
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "scaleY",
-      "type": "SignalValue<number>"
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
-      "name": "skewX",
-      "type": "SignalValue<number>"
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "LinePlot": [
+    {
+      "name": "data",
+      "type": "[number, number][]"
     },
     {
-      "name": "skewY",
-      "type": "SignalValue<number>"
+      "name": "points",
+      "description": "The points of the line.",
+      "type": "never",
+      "defaultValue": "null"
     },
     {
-      "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "radius",
+      "description": "The radius of the line's corners.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Line"
     },
     {
-      "name": "zIndex",
-      "type": "SignalValue<number>"
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "opacity",
-      "type": "SignalValue<number>"
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "cache",
-      "type": "SignalValue<boolean>"
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
     },
     {
-      "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
     },
     {
-      "name": "composite",
-      "type": "SignalValue<boolean>"
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "start",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "end",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "data",
-      "type": "SignalValue<string>"
-    }
-  ],
-  "Polygon": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
-    },
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "MotionCanvasLogo": [
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
-    },
-    {
-      "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
-    },
-    {
-      "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
-    },
-    {
-      "name": "offsetX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "offsetY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "top",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "left",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "right",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "sides",
-      "type": "SignalValue<number>"
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "radius",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "Ray": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Plot": [
+    {
+      "name": "minX",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "layout",
-      "type": "LayoutMode"
+      "name": "minY",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "name": "min",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "width",
-      "type": "SignalValue<Length>"
+      "name": "maxX",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "height",
-      "type": "SignalValue<Length>"
+      "name": "maxY",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "name": "max",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "name": "ticksX",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "name": "ticksY",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "name": "ticks",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "ratio",
+      "name": "labelSizeX",
       "type": "SignalValue<number>"
     },
     {
-      "name": "marginTop",
+      "name": "labelSizeY",
       "type": "SignalValue<number>"
     },
     {
-      "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "name": "labelSize",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "marginLeft",
+      "name": "labelPaddingX",
       "type": "SignalValue<number>"
     },
     {
-      "name": "marginRight",
+      "name": "labelPaddingY",
       "type": "SignalValue<number>"
     },
     {
-      "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "labelPadding",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "paddingTop",
+      "name": "tickPaddingX",
       "type": "SignalValue<number>"
     },
     {
-      "name": "paddingBottom",
+      "name": "tickPaddingY",
       "type": "SignalValue<number>"
     },
     {
-      "name": "paddingLeft",
+      "name": "tickPadding",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "tickLabelSizeX",
       "type": "SignalValue<number>"
     },
     {
-      "name": "paddingRight",
+      "name": "tickLabelSizeY",
       "type": "SignalValue<number>"
     },
     {
-      "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "tickLabelSize",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "name": "tickOverflowX",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "name": "tickOverflowY",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "grow",
+      "name": "tickOverflow",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "gridStrokeWidth",
       "type": "SignalValue<number>"
     },
     {
-      "name": "shrink",
+      "name": "axisStrokeWidth",
       "type": "SignalValue<number>"
     },
     {
-      "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "name": "labelX",
+      "type": "SignalValue<string>"
     },
     {
-      "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "name": "axisColorX",
+      "type": "SignalValue<PossibleColor>"
     },
     {
-      "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "name": "axisTextColorX",
+      "type": "SignalValue<PossibleColor>"
     },
     {
-      "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "name": "labelY",
+      "type": "SignalValue<string>"
     },
     {
-      "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "name": "axisColorY",
+      "type": "SignalValue<PossibleColor>"
     },
     {
-      "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "name": "axisTextColorY",
+      "type": "SignalValue<PossibleColor>"
     },
     {
-      "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "name": "labelFormatterX",
+      "type": "(x: number) => string"
     },
     {
-      "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "name": "labelFormatterY",
+      "type": "(y: number) => string"
     },
     {
-      "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "name": "layout",
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fontSize",
-      "type": "SignalValue<number>"
+      "name": "tagName",
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
-      "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "name": "width",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "name": "height",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "name": "maxWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "name": "maxHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "name": "minWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "name": "minHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "name": "ratio",
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "name": "marginTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "offsetX",
-      "type": "SignalValue<number>"
+      "name": "marginBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "offsetY",
-      "type": "SignalValue<number>"
+      "name": "marginLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "marginRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "margin",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "paddingTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "paddingBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "paddingLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "paddingRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "padding",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "direction",
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
+    },
+    {
+      "name": "basis",
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
+    },
+    {
+      "name": "grow",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "shrink",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
+    },
+    {
+      "name": "wrap",
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
+    },
+    {
+      "name": "justifyContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
+    },
+    {
+      "name": "alignContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
-      "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "alignItems",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
-      "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "alignSelf",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
-      "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "rowGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "columnGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "clip",
-      "type": "SignalValue<boolean>"
+      "name": "gap",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "fontFamily",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "fontSize",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
+      "name": "fontStyle",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "name": "fontWeight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "lineHeight",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "letterSpacing",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "textWrap",
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "textDirection",
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "from",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fromX",
-      "type": "SignalValue<number>"
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fromY",
-      "type": "SignalValue<number>"
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "to",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "toX",
-      "type": "SignalValue<number>"
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "toY",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "Rect": [
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "ScatterPlot": [
+    {
+      "name": "pointRadius",
+      "type": "number"
+    },
+    {
+      "name": "pointColor",
+      "type": "PossibleCanvasStyle"
+    },
+    {
+      "name": "data",
+      "type": "SignalValue<PossibleVector2[]>"
+    },
+    {
+      "name": "start",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "end",
+      "type": "SignalValue<number>"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "radius",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "smoothCorners",
-      "type": "SignalValue<boolean>"
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
-      "name": "cornerSharpness",
-      "type": "SignalValue<number>"
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
     }
   ],
-  "Spline": [
-    {
-      "name": "ref",
-      "type": "ReferenceReceiver<any>"
-    },
+  "Scrollable": [
     {
-      "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "activeOpacity",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "inactiveOpacity",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "key",
-      "type": "string"
+      "name": "handleProps",
+      "type": "RectProps"
     },
     {
-      "name": "x",
+      "name": "scrollHandleDelay",
       "type": "SignalValue<number>"
     },
     {
-      "name": "y",
+      "name": "scrollHandleDuration",
       "type": "SignalValue<number>"
     },
     {
-      "name": "position",
+      "name": "scrollOffset",
       "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "rotation",
-      "type": "SignalValue<number>"
+      "name": "scrollPadding",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
-      "name": "scaleX",
+      "name": "handleWidth",
       "type": "SignalValue<number>"
     },
     {
-      "name": "scaleY",
+      "name": "handleInset",
       "type": "SignalValue<number>"
     },
     {
-      "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "zoom",
+      "type": "SignalValue<number>"
     },
     {
-      "name": "skewX",
-      "type": "SignalValue<number>"
+      "name": "radius",
+      "description": "Rounds the corners of this rectangle.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "skewY",
-      "type": "SignalValue<number>"
+      "name": "smoothCorners",
+      "description": "Enables corner smoothing.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "cornerSharpness",
+      "description": "Controls the sharpness of {@link smoothCorners}.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0.6",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "zIndex",
-      "type": "SignalValue<number>"
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "opacity",
-      "type": "SignalValue<number>"
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "cache",
-      "type": "SignalValue<boolean>"
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
     },
     {
-      "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
     },
     {
-      "name": "composite",
-      "type": "SignalValue<boolean>"
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "start",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "smoothness",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "points",
-      "type": "SignalValue<SignalValue<PossibleVector2[]>>"
-    }
-  ],
-  "LinePlot": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Table": [
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "start",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "end",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "radius",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "points",
-      "type": "never"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "data",
-      "type": "[number, number][]"
-    }
-  ],
-  "Img": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
-    },
-    {
-      "name": "layout",
-      "type": "LayoutMode"
-    },
-    {
-      "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
-    },
-    {
-      "name": "width",
-      "type": "SignalValue<Length>"
-    },
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "TableData": [
     {
-      "name": "height",
-      "type": "SignalValue<Length>"
+      "name": "children",
+      "type": "Node[] | Node"
     },
     {
-      "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "name": "radius",
+      "description": "Rounds the corners of this rectangle.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "name": "smoothCorners",
+      "description": "Enables corner smoothing.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "name": "cornerSharpness",
+      "description": "Controls the sharpness of {@link smoothCorners}.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0.6",
+      "inheritedFrom": "Rect"
     },
     {
-      "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "name": "closed",
+      "description": "Whether the curve should be closed.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "ratio",
-      "type": "SignalValue<number>"
+      "name": "start",
+      "description": "A percentage from the start before which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "marginTop",
-      "type": "SignalValue<number>"
+      "name": "startOffset",
+      "description": "The offset in pixels from the start of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "name": "startArrow",
+      "description": "Whether to display an arrow at the start of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "name": "end",
+      "description": "A percentage from the start after which the curve should be clipped.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "marginRight",
-      "type": "SignalValue<number>"
+      "name": "endOffset",
+      "description": "The offset in pixels from the end of the curve.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "endArrow",
+      "description": "Whether to display an arrow at the end of the visible curve.",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "name": "arrowSize",
+      "description": "Controls the size of the end and start arrows.",
+      "type": "SignalValue<number>",
+      "defaultValue": "24",
+      "inheritedFrom": "Curve"
     },
     {
-      "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
     },
     {
-      "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
     },
     {
-      "name": "grow",
-      "type": "SignalValue<number>"
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "shrink",
-      "type": "SignalValue<number>"
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
-      "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "name": "layout",
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "name": "tagName",
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
-      "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "name": "width",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "name": "height",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "name": "maxWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "name": "maxHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "name": "minWidth",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "name": "minHeight",
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
-      "name": "fontSize",
-      "type": "SignalValue<number>"
+      "name": "ratio",
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "name": "marginTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "name": "marginBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "name": "marginLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "name": "marginRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "name": "margin",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "name": "paddingTop",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "name": "paddingBottom",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "name": "paddingLeft",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "offsetX",
-      "type": "SignalValue<number>"
+      "name": "paddingRight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "offsetY",
-      "type": "SignalValue<number>"
+      "name": "padding",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "direction",
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
-      "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "basis",
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
-      "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "grow",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "shrink",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "wrap",
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
-      "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "justifyContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
-      "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "alignContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
-      "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "alignItems",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
-      "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "alignSelf",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
-      "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "rowGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "clip",
-      "type": "SignalValue<boolean>"
+      "name": "columnGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "gap",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "fontFamily",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
+      "name": "fontSize",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "name": "fontStyle",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "fontWeight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "lineHeight",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "letterSpacing",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "textWrap",
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "textDirection",
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "radius",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "smoothCorners",
-      "type": "SignalValue<boolean>"
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "cornerSharpness",
-      "type": "SignalValue<number>"
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "src",
-      "type": "SignalValue<string | null>"
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "alpha",
-      "type": "SignalValue<number>"
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "smoothing",
-      "type": "SignalValue<boolean>"
-    }
-  ],
-  "Video": [
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
+    },
     {
-      "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
-    },
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "TableRow": [
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
-    },
-    {
-      "name": "grow",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "shrink",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
-    },
-    {
-      "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
-    },
-    {
-      "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
-    },
-    {
-      "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
-    },
-    {
-      "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
-    },
-    {
-      "name": "rowGap",
-      "type": "SignalValue<Length>"
-    },
-    {
-      "name": "columnGap",
-      "type": "SignalValue<Length>"
-    },
-    {
-      "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
-    },
-    {
-      "name": "fontFamily",
-      "type": "SignalValue<string>"
-    },
-    {
-      "name": "fontSize",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "fontStyle",
-      "type": "SignalValue<string>"
-    },
-    {
-      "name": "fontWeight",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineHeight",
-      "type": "SignalValue<Length>"
-    },
-    {
-      "name": "letterSpacing",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
-    },
-    {
-      "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
-    },
-    {
-      "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
-    },
-    {
-      "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
-    },
-    {
-      "name": "offsetX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "offsetY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "top",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
-      "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "grow",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "shrink",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "wrap",
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
-      "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "justifyContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
-      "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "alignContent",
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
-      "name": "clip",
-      "type": "SignalValue<boolean>"
+      "name": "alignItems",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "alignSelf",
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "rowGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
+      "name": "columnGap",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "name": "gap",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "fontFamily",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "fontSize",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "fontStyle",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "fontWeight",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "lineHeight",
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
+      "name": "letterSpacing",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "textWrap",
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
+      "name": "textDirection",
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "radius",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "smoothCorners",
-      "type": "SignalValue<boolean>"
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "cornerSharpness",
-      "type": "SignalValue<number>"
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "src",
-      "type": "SignalValue<string>"
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "alpha",
-      "type": "SignalValue<number>"
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "smoothing",
-      "type": "SignalValue<boolean>"
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "loop",
-      "type": "SignalValue<boolean>"
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "playbackRate",
-      "type": "number"
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "time",
-      "type": "SignalValue<number>"
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "play",
-      "type": "boolean"
-    }
-  ],
-  "View2D": [
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Terminal": [
+    {
+      "name": "prefix",
+      "type": "SignalValue<string | TxtProps>"
+    },
+    {
+      "name": "defaultTxtProps",
+      "type": "TxtProps"
+    },
+    {
+      "name": "wpm",
+      "type": "SignalValue<number>"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "start",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "end",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "radius",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "smoothCorners",
-      "type": "SignalValue<boolean>"
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "cornerSharpness",
-      "type": "SignalValue<number>"
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "assetHash",
-      "type": "string"
-    }
-  ],
-  "Scrollable": [
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "Window": [
+    {
+      "name": "title",
+      "type": "SignalValue<string>"
+    },
+    {
+      "name": "icon",
+      "type": "SignalValue<string>"
+    },
+    {
+      "name": "iconColor",
+      "type": "SignalValue<Color>"
+    },
+    {
+      "name": "titleProps",
+      "type": "TxtProps"
+    },
+    {
+      "name": "headerColor",
+      "type": "SignalValue<PossibleCanvasStyle>"
+    },
+    {
+      "name": "bodyColor",
+      "type": "SignalValue<PossibleCanvasStyle>"
+    },
+    {
+      "name": "windowStyle",
+      "type": "WindowStyle",
+      "options": [
+        "0",
+        "1"
+      ]
+    },
+    {
+      "name": "scrollOffset",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "buttonColors",
+      "type": "SignalValue<[\n        PossibleCanvasStyle,\n        PossibleCanvasStyle,\n        PossibleCanvasStyle\n    ]>"
+    },
+    {
+      "name": "buttonIconColors",
+      "type": "SignalValue<[\n        PossibleCanvasStyle,\n        PossibleCanvasStyle,\n        PossibleCanvasStyle\n    ]>"
+    },
+    {
+      "name": "buttonLightColor",
+      "type": "SignalValue<PossibleCanvasStyle>"
+    },
+    {
+      "name": "buttonDarkColor",
+      "type": "SignalValue<PossibleCanvasStyle>"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "start",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "end",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "radius",
-      "type": "SignalValue<PossibleSpacing>"
-    },
-    {
-      "name": "smoothCorners",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "cornerSharpness",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "activeOpacity",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "inactiveOpacity",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "handleProps",
-      "type": "RectProps"
-    },
-    {
-      "name": "scrollHandleDelay",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "scrollHandleDuration",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "scrollOffset",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "scrollPadding",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "handleWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "handleInset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "zoom",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "Window": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "MathAxis": [
+    {
+      "name": "spacing",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "start",
+      "description": "The percentage that should be clipped from the beginning of each grid line.",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "end",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "alpha",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "axis",
+      "type": "SignalValue<'x' | 'y'>",
+      "options": [
+        "'x'",
+        "'y'"
+      ]
+    },
+    {
+      "name": "displayZero",
+      "type": "SignalValue<boolean>"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "description": "The percentage that should be clipped from the end of each grid line.",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
+    },
+    {
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "MathExpression": [
+    {
+      "name": "equation",
+      "type": "SignalValue<string>"
     },
     {
       "name": "stroke",
       "type": "SignalValue<PossibleCanvasStyle>"
     },
     {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>"
     },
     {
       "name": "lineWidth",
       "type": "SignalValue<number>"
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "domain",
+      "type": "SignalValue<[number, number]>"
+    },
+    {
+      "name": "fillParametric",
+      "type": "SignalValue<boolean>"
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>"
+    },
+    {
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "radius",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "smoothCorners",
-      "type": "SignalValue<boolean>"
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "cornerSharpness",
-      "type": "SignalValue<number>"
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "title",
-      "type": "SignalValue<string>"
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "icon",
-      "type": "SignalValue<string>"
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "iconColor",
-      "type": "SignalValue<Color>"
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "titleProps",
-      "type": "TxtProps"
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
-      "name": "headerColor",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "MathGraph": [
     {
-      "name": "bodyColor",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "equation",
+      "type": "SignalValue<string>",
+      "inheritedFrom": "MathExpression"
     },
     {
-      "name": "windowStyle",
-      "type": "WindowStyle"
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "MathExpression"
     },
     {
-      "name": "scrollOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "MathExpression"
     },
     {
-      "name": "buttonColors",
-      "type": "SignalValue<[\n        PossibleCanvasStyle,\n        PossibleCanvasStyle,\n        PossibleCanvasStyle\n    ]>"
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "MathExpression"
     },
     {
-      "name": "buttonIconColors",
-      "type": "SignalValue<[\n        PossibleCanvasStyle,\n        PossibleCanvasStyle,\n        PossibleCanvasStyle\n    ]>"
+      "name": "domain",
+      "type": "SignalValue<[number, number]>",
+      "inheritedFrom": "MathExpression"
     },
     {
-      "name": "buttonLightColor",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "fillParametric",
+      "type": "SignalValue<boolean>",
+      "inheritedFrom": "MathExpression"
     },
     {
-      "name": "buttonDarkColor",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    }
-  ],
-  "FileTree": [
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "inheritedFrom": "MathExpression"
+    },
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "MathGraphingCalculator": [
+    {
+      "name": "complex",
+      "type": "SignalValue<boolean>"
+    },
+    {
+      "name": "debug",
+      "type": "SignalValue<boolean>"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
-    },
-    {
-      "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
-    },
-    {
-      "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
-    },
-    {
-      "name": "offsetX",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "offsetY",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "top",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "left",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "right",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
-      "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
-    },
-    {
-      "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "start",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "textAlign",
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "size",
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "offsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "offsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "name": "offset",
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "radius",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "middle",
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "smoothCorners",
-      "type": "SignalValue<boolean>"
+      "name": "top",
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "cornerSharpness",
-      "type": "SignalValue<number>"
+      "name": "bottom",
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "structure",
-      "type": "FileStructure"
+      "name": "left",
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "folderColor",
-      "type": "SignalValue<PossibleColor>"
+      "name": "right",
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fileColor",
-      "type": "SignalValue<PossibleColor>"
+      "name": "topLeft",
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "assetColor",
-      "type": "SignalValue<PossibleColor>"
+      "name": "topRight",
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "labelColor",
-      "type": "SignalValue<PossibleColor>"
+      "name": "bottomLeft",
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "indentAmount",
-      "type": "SignalValue<number>"
+      "name": "bottomRight",
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "rowSize",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "TableData": [
+      "name": "clip",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
+    },
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "Node[] | Node"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "MathGrid": [
+    {
+      "name": "xAxisStroke",
+      "type": "SignalValue<PossibleCanvasStyle>"
+    },
+    {
+      "name": "yAxisStroke",
+      "type": "SignalValue<PossibleCanvasStyle>"
+    },
+    {
+      "name": "axesLineWidth",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "spacing",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "start",
+      "description": "The percentage that should be clipped from the beginning of each grid line.",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "end",
+      "description": "The percentage that should be clipped from the end of each grid line.",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "alpha",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "fill",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "stroke",
+      "type": "SignalValue<PossibleCanvasStyle>",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "strokeFirst",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineWidth",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineJoin",
+      "type": "SignalValue<CanvasLineJoin>",
+      "defaultValue": "'miter'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'bevel'",
+        "'miter'",
+        "'round'"
+      ]
+    },
+    {
+      "name": "lineCap",
+      "type": "SignalValue<CanvasLineCap>",
+      "defaultValue": "'butt'",
+      "inheritedFrom": "Shape",
+      "options": [
+        "'round'",
+        "'butt'",
+        "'square'"
+      ]
+    },
+    {
+      "name": "lineDash",
+      "type": "SignalValue<number[]>",
+      "defaultValue": "[]",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "lineDashOffset",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Shape"
+    },
+    {
+      "name": "antialiased",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "true",
+      "inheritedFrom": "Shape"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
-    },
-    {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
-    },
-    {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
-    },
-    {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
-    },
-    {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "start",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "end",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
-    },
-    {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
-    },
-    {
-      "name": "radius",
-      "type": "SignalValue<PossibleSpacing>"
-    },
-    {
-      "name": "smoothCorners",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
-    {
-      "name": "cornerSharpness",
-      "type": "SignalValue<number>"
-    }
-  ],
-  "Icon": [
     {
       "name": "ref",
-      "type": "ReferenceReceiver<any>"
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "children",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "spawner",
-      "type": "SignalValue<ComponentChildren>"
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
       "name": "key",
-      "type": "string"
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
       "name": "x",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "y",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "position",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "rotation",
-      "type": "SignalValue<number>"
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scaleY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "scale",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skewY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "skew",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
       "name": "zIndex",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "opacity",
-      "type": "SignalValue<number>"
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
       "name": "filters",
-      "type": "SignalValue<Filter[]>"
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowColor",
-      "type": "SignalValue<PossibleColor>"
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowBlur",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "shadowOffset",
-      "type": "SignalValue<PossibleVector2>"
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cache",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingTop",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingBottom",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingLeft",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePaddingRight",
-      "type": "SignalValue<number>"
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "cachePadding",
-      "type": "SignalValue<PossibleSpacing>"
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
     },
     {
       "name": "composite",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
       "name": "compositeOperation",
-      "type": "SignalValue<GlobalCompositeOperation>"
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
     },
     {
       "name": "shaders",
-      "type": "PossibleShaderConfig"
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
+    }
+  ],
+  "MathSpace": [
+    {
+      "name": "minX",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "minY",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "min",
+      "type": "SignalValue<PossibleVector2>"
+    },
+    {
+      "name": "maxX",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "maxY",
+      "type": "SignalValue<number>"
+    },
+    {
+      "name": "max",
+      "type": "SignalValue<PossibleVector2>"
     },
     {
       "name": "layout",
-      "type": "LayoutMode"
+      "type": "LayoutMode",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "tagName",
-      "type": "keyof HTMLElementTagNameMap"
+      "type": "keyof HTMLElementTagNameMap",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'object'",
+        "'input'",
+        "'progress'",
+        "'select'",
+        "'a'",
+        "'abbr'",
+        "'address'",
+        "'area'",
+        "'article'",
+        "'aside'",
+        "'audio'",
+        "'b'",
+        "'base'",
+        "'bdi'",
+        "'bdo'",
+        "'blockquote'",
+        "'body'",
+        "'br'",
+        "'button'",
+        "'canvas'",
+        "'caption'",
+        "'cite'",
+        "'code'",
+        "'col'",
+        "'colgroup'",
+        "'data'",
+        "'datalist'",
+        "'dd'",
+        "'del'",
+        "'details'",
+        "'dfn'",
+        "'dialog'",
+        "'div'",
+        "'dl'",
+        "'dt'",
+        "'em'",
+        "'embed'",
+        "'fieldset'",
+        "'figcaption'",
+        "'figure'",
+        "'footer'",
+        "'form'",
+        "'h1'",
+        "'h2'",
+        "'h3'",
+        "'h4'",
+        "'h5'",
+        "'h6'",
+        "'head'",
+        "'header'",
+        "'hgroup'",
+        "'hr'",
+        "'html'",
+        "'i'",
+        "'iframe'",
+        "'img'",
+        "'ins'",
+        "'kbd'",
+        "'label'",
+        "'legend'",
+        "'li'",
+        "'link'",
+        "'main'",
+        "'map'",
+        "'mark'",
+        "'menu'",
+        "'meta'",
+        "'meter'",
+        "'nav'",
+        "'noscript'",
+        "'ol'",
+        "'optgroup'",
+        "'option'",
+        "'output'",
+        "'p'",
+        "'picture'",
+        "'pre'",
+        "'q'",
+        "'rp'",
+        "'rt'",
+        "'ruby'",
+        "'s'",
+        "'samp'",
+        "'script'",
+        "'search'",
+        "'section'",
+        "'slot'",
+        "'small'",
+        "'source'",
+        "'span'",
+        "'strong'",
+        "'style'",
+        "'sub'",
+        "'summary'",
+        "'sup'",
+        "'table'",
+        "'tbody'",
+        "'td'",
+        "'template'",
+        "'textarea'",
+        "'tfoot'",
+        "'th'",
+        "'thead'",
+        "'time'",
+        "'title'",
+        "'tr'",
+        "'track'",
+        "'u'",
+        "'ul'",
+        "'var'",
+        "'video'",
+        "'wbr'"
+      ]
     },
     {
       "name": "width",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "height",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "maxWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "maxHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minWidth",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "minHeight",
-      "type": "SignalValue<LengthLimit>"
+      "type": "SignalValue<LengthLimit>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'"
+      ]
     },
     {
       "name": "ratio",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "marginRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "margin",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingTop",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingBottom",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingLeft",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "paddingRight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "padding",
-      "type": "SignalValue<PossibleSpacing>"
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "direction",
-      "type": "SignalValue<FlexDirection>"
+      "type": "SignalValue<FlexDirection>",
+      "defaultValue": "'row'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'row'",
+        "'row-reverse'",
+        "'column'",
+        "'column-reverse'"
+      ]
     },
     {
       "name": "basis",
-      "type": "SignalValue<FlexBasis>"
+      "type": "SignalValue<FlexBasis>",
+      "defaultValue": "null",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'max-content'",
+        "'min-content'",
+        "'content'",
+        "'fit-content'"
+      ]
     },
     {
       "name": "grow",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "shrink",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "wrap",
-      "type": "SignalValue<FlexWrap>"
+      "type": "SignalValue<FlexWrap>",
+      "defaultValue": "'nowrap'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'nowrap'",
+        "'wrap'",
+        "'wrap-reverse'"
+      ]
     },
     {
       "name": "justifyContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'start'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignContent",
-      "type": "SignalValue<FlexContent>"
+      "type": "SignalValue<FlexContent>",
+      "defaultValue": "'normal'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'space-between'",
+        "'space-around'",
+        "'space-evenly'",
+        "'stretch'"
+      ]
     },
     {
       "name": "alignItems",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'stretch'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "alignSelf",
-      "type": "SignalValue<FlexItems>"
+      "type": "SignalValue<FlexItems>",
+      "defaultValue": "'auto'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'stretch'",
+        "'baseline'"
+      ]
     },
     {
       "name": "rowGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "columnGap",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "gap",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "0",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontFamily",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontSize",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontStyle",
-      "type": "SignalValue<string>"
+      "type": "SignalValue<string>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "fontWeight",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "lineHeight",
-      "type": "SignalValue<Length>"
+      "type": "SignalValue<Length>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "letterSpacing",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "textWrap",
-      "type": "SignalValue<TextWrap>"
+      "type": "SignalValue<TextWrap>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'pre'"
+      ]
     },
     {
       "name": "textDirection",
-      "type": "SignalValue<CanvasDirection>"
+      "type": "SignalValue<CanvasDirection>",
+      "defaultValue": "'inherit'",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'inherit'",
+        "'ltr'",
+        "'rtl'"
+      ]
     },
     {
       "name": "textAlign",
-      "type": "SignalValue<CanvasTextAlign>"
+      "type": "SignalValue<CanvasTextAlign>",
+      "inheritedFrom": "Layout",
+      "options": [
+        "'center'",
+        "'start'",
+        "'end'",
+        "'left'",
+        "'right'"
+      ]
     },
     {
       "name": "size",
-      "type": "SignalValue<PossibleVector2<Length>>"
+      "description": "Represents the size of this node.",
+      "type": "SignalValue<PossibleVector2<Length>>",
+      "defaultValue": "{x: null, y: null}",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetX",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offsetY",
-      "type": "SignalValue<number>"
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "offset",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "Represents the offset of this node's origin.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "middle",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the center of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "top",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottom",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "left",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the left edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "right",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the right edge of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "topRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the top right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomLeft",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom left corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "bottomRight",
-      "type": "SignalValue<PossibleVector2>"
+      "description": "The position of the bottom right corner of this node.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Layout"
     },
     {
       "name": "clip",
-      "type": "SignalValue<boolean>"
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Layout"
     },
     {
-      "name": "fill",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "ref",
+      "type": "ReferenceReceiver<any>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "stroke",
-      "type": "SignalValue<PossibleCanvasStyle>"
+      "name": "children",
+      "type": "SignalValue<ComponentChildren>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "strokeFirst",
-      "type": "SignalValue<boolean>"
+      "name": "spawner",
+      "type": "SignalValue<ComponentChildren>",
+      "deprecated": true,
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineWidth",
-      "type": "SignalValue<number>"
+      "name": "key",
+      "type": "string",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineJoin",
-      "type": "SignalValue<CanvasLineJoin>"
+      "name": "x",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineCap",
-      "type": "SignalValue<CanvasLineCap>"
+      "name": "y",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineDash",
-      "type": "SignalValue<number[]>"
+      "name": "position",
+      "description": "Represents the position of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "lineDashOffset",
-      "type": "SignalValue<number>"
+      "name": "rotation",
+      "description": "Represents the rotation (in degrees) of this node relative to its parent.",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "antialiased",
-      "type": "SignalValue<boolean>"
+      "name": "scaleX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "closed",
-      "type": "SignalValue<boolean>"
+      "name": "scaleY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "start",
-      "type": "SignalValue<number>"
+      "name": "scale",
+      "description": "Represents the scale of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.one",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "startOffset",
-      "type": "SignalValue<number>"
+      "name": "skewX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "startArrow",
-      "type": "SignalValue<boolean>"
+      "name": "skewY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "end",
-      "type": "SignalValue<number>"
+      "name": "skew",
+      "description": "Represents the skew of this node in local space of its parent.",
+      "type": "SignalValue<PossibleVector2>",
+      "defaultValue": "Vector2.zero",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "endOffset",
-      "type": "SignalValue<number>"
+      "name": "zIndex",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "endArrow",
-      "type": "SignalValue<boolean>"
+      "name": "opacity",
+      "description": "Represents the opacity of this node in the range 0-1.",
+      "type": "SignalValue<number>",
+      "defaultValue": "1",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "arrowSize",
-      "type": "SignalValue<number>"
+      "name": "filters",
+      "type": "SignalValue<Filter[]>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "radius",
-      "type": "SignalValue<PossibleSpacing>"
+      "name": "shadowColor",
+      "type": "SignalValue<PossibleColor>",
+      "defaultValue": "'#0000'",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "smoothCorners",
-      "type": "SignalValue<boolean>"
+      "name": "shadowBlur",
+      "type": "SignalValue<number>",
+      "defaultValue": "0",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "cornerSharpness",
-      "type": "SignalValue<number>"
+      "name": "shadowOffsetX",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "src",
-      "type": "SignalValue<string | null>"
+      "name": "shadowOffsetY",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "alpha",
-      "type": "SignalValue<number>"
+      "name": "shadowOffset",
+      "type": "SignalValue<PossibleVector2>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "smoothing",
-      "type": "SignalValue<boolean>"
+      "name": "cache",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "icon",
-      "type": "SignalValue<string>"
+      "name": "cachePaddingTop",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
     },
     {
-      "name": "color",
-      "type": "SignalValue<PossibleColor>"
+      "name": "cachePaddingBottom",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingLeft",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePaddingRight",
+      "description": "{@inheritDoc Node.cachePadding}",
+      "type": "SignalValue<number>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "cachePadding",
+      "description": "Controls the padding of the cached canvas used by this node.",
+      "type": "SignalValue<PossibleSpacing>",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "composite",
+      "type": "SignalValue<boolean>",
+      "defaultValue": "false",
+      "inheritedFrom": "Node"
+    },
+    {
+      "name": "compositeOperation",
+      "type": "SignalValue<GlobalCompositeOperation>",
+      "defaultValue": "'source-over'",
+      "inheritedFrom": "Node",
+      "options": [
+        "'copy'",
+        "'color'",
+        "'color-burn'",
+        "'color-dodge'",
+        "'darken'",
+        "'destination-atop'",
+        "'destination-in'",
+        "'destination-out'",
+        "'destination-over'",
+        "'difference'",
+        "'exclusion'",
+        "'hard-light'",
+        "'hue'",
+        "'lighten'",
+        "'lighter'",
+        "'luminosity'",
+        "'multiply'",
+        "'overlay'",
+        "'saturation'",
+        "'screen'",
+        "'soft-light'",
+        "'source-atop'",
+        "'source-in'",
+        "'source-out'",
+        "'source-over'",
+        "'xor'"
+      ]
+    },
+    {
+      "name": "shaders",
+      "type": "PossibleShaderConfig",
+      "defaultValue": "[]",
+      "inheritedFrom": "Node"
     }
   ]
 };
+
+/** The classes each component inherits from, nearest first */
+export const componentInheritance: Record<string, string[]> = {
+  "Bezier": [
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Camera": [
+    "Node"
+  ],
+  "Circle": [
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Code": [
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "CubicBezier": [
+    "Bezier",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Curve": [
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Grid": [
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Icon": [
+    "Img",
+    "Rect",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Img": [
+    "Rect",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Knot": [
+    "Node"
+  ],
+  "Latex": [
+    "SVG",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Layout": [
+    "Node"
+  ],
+  "Line": [
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Node": [],
+  "Path": [
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Polygon": [
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "QuadBezier": [
+    "Bezier",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Ray": [
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Rect": [
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "SVG": [
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Shape": [
+    "Layout",
+    "Node"
+  ],
+  "Spline": [
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Txt": [
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Video": [
+    "Rect",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "View2D": [
+    "Rect",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "CodeLineNumbers": [
+    "Layout",
+    "Node"
+  ],
+  "FileTree": [
+    "Rect",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Glow": [
+    "Layout",
+    "Node"
+  ],
+  "LinePlot": [
+    "Line",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "MotionCanvasLogo": [
+    "Layout",
+    "Node"
+  ],
+  "Plot": [
+    "Layout",
+    "Node"
+  ],
+  "ScatterPlot": [
+    "Layout",
+    "Node"
+  ],
+  "Scrollable": [
+    "Rect",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "Table": [
+    "Layout",
+    "Node"
+  ],
+  "TableData": [
+    "Rect",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "TableRow": [
+    "Layout",
+    "Node"
+  ],
+  "Terminal": [
+    "Layout",
+    "Node"
+  ],
+  "Window": [
+    "Rect",
+    "Curve",
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "MathAxis": [
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "MathExpression": [
+    "Node"
+  ],
+  "MathGraph": [
+    "Node"
+  ],
+  "MathGraphingCalculator": [
+    "Layout",
+    "Node"
+  ],
+  "MathGrid": [
+    "Shape",
+    "Layout",
+    "Node"
+  ],
+  "MathSpace": [
+    "Layout",
+    "Node"
+  ]
+};
@@ -4,7 +4,7 @@ export interface GIFExportSettings {
   fps: number;
   quality: number; // 1-30, lower = better quality (pixel sample interval)
   maxColors: number; // 2-256
-  scale: number; // 0.25-2, resolution scale factor
+  scale: number; // resolution scale factor, applied when rendering
   dither: string | false; // Dithering method or false
 }
 
@@ -24,8 +24,6 @@ export class GIFExporter {
   private totalFrames = 0;
   private settings: GIFExportSettings;
   private callbacks: GIFExportCallbacks;
-  private scaledWidth = 0;
-  private scaledHeight = 0;
 
   constructor(settings: GIFExportSettings, callbacks: GIFExportCallbacks) {
     this.settings = settings;
@@ -50,32 +48,23 @@ export class GIFExporter {
     this.totalFrames = Math.ceil(durationInSeconds * this.settings.fps);
 
     try {
-      // Apply scale factor to dimensions
-      const scale = this.settings.scale || 1;
-      this.scaledWidth = Math.round(width * scale);
-      this.scaledHeight = Math.round(height * scale);
-
-      // Create canvas for frame capture at scaled resolution
+      // Create canvas for frame capture
       this.canvas = document.createElement("canvas");
-      this.canvas.width = this.scaledWidth;
-      this.canvas.height = this.scaledHeight;
+      this.canvas.width = width;
+      this.canvas.height = height;
       this.context = this.canvas.getContext("2d", { willReadFrequently: true });
 
       if (!this.context) {
         throw new Error("Failed to get canvas context");
       }
 
-      // Enable image smoothing for better downscaling quality
-      this.context.imageSmoothingEnabled = true;
-      this.context.imageSmoothingQuality = "high";
-
       // Create GIF encoder with gif.js
       // Worker path needs to be served from the public folder
       this.gif = new GIF({
         workers: navigator.hardwareConcurrency || 2,
         quality: this.settings.quality,
-        width: this.scaledWidth,
-        height: this.scaledHeight,
+        width,
+        height,
         workerScript: `${import.meta.env.BASE_URL}gif.worker.js`,
         dither: this.settings.dither,
       });
@@ -96,6 +85,8 @@ export class GIFExporter {
       this.callbacks.onProgress(0);
     } catch (error) {
       this.isExporting = false;
+      // Nothing is rendered for an export that failed to start
+      this.abortController?.abort();
       this.callbacks.onError(
         `Failed to start GIF export: ${
           error instanceof Error ? error.message : String(error)
@@ -170,8 +161,14 @@ export class GIFExporter {
     try {
       this.callbacks.onProgress(50);
 
-      // Start the rendering process - this triggers the 'finished' event when done
-      this.gif.render();
+      // Start the rendering process and wait for the 'finished' event, or
+      // for the export to be cancelled
+      const gif = this.gif;
+      await new Promise<void>((resolve) => {
+        gif.on("finished", () => resolve());
+        gif.on("abort", () => resolve());
+        gif.render();
+      });
     } catch (error) {
       if (!this.abortController?.signal.aborted) {
         this.callbacks.onError(
@@ -0,0 +1,214 @@
+/**
+ * Import Map
+ *
+ * Resolves the bare specifiers of packages that aren't bundled to URLs the
+ * browser can import them from: an ESM CDN, or a mirror of packages served
+ * alongside the fiddle for offline or air-gapped use. The service worker
+ * caches the modules fetched from them, so they keep working offline.
+ */
+
+const STORAGE_KEY = "importMapSettings";
+
+export type PackageSource = "cdn" | "mirror" | "off";
+
+export interface ImportMapSettings {
+  /** Where unbundled packages are loaded from; "off" builds them with Vite */
+  source: PackageSource;
+  /** The CDN's base URL; packages are loaded from `${cdnUrl}${specifier}` */
+  cdnUrl: string;
+  /** A directory with the mirrored packages, listed in its import-map.json */
+  mirrorUrl: string;
+  /** Specifiers mapped to URLs, taking precedence over the CDN or mirror */
+  imports: Record<string, string>;
+}
+
+/**
+ * Packages are built with Vite by default: a CDN's copy of a package that
+ * depends on Motion Canvas would load its own copy of it, rather than the
+ * bundled one
+ */
+export const DEFAULT_IMPORT_MAP_SETTINGS: ImportMapSettings = {
+  source: "off",
+  cdnUrl: "https://esm.sh/",
+  mirrorUrl: "./esm/",
+  imports: {},
+};
+
+/**
+ * Specifiers mapped to URLs, in the format of an import map's `imports`:
+ * keys ending in "/" map every specifier they prefix
+ */
+export interface ImportMap {
+  imports: Record<string, string>;
+  /** Base URL of the bare specifiers `imports` doesn't list */
+  fallback?: string;
+}
+
+function isRecordOfStrings(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((entry) => typeof entry === "string")
+  );
+}
+
+/**
+ * Read the `imports` of an import map from JSON, throwing when it isn't one
+ */
+export function parseImports(json: string): Record<string, string> {
+  const parsed: unknown = JSON.parse(json);
+  const imports =
+    typeof parsed === "object" && parsed !== null && "imports" in parsed
+      ? parsed.imports
+      : parsed;
+  if (!isRecordOfStrings(imports)) {
+    throw new Error("An import map maps specifiers to URL strings");
+  }
+  return imports;
+}
+
+export function loadImportMapSettings(): ImportMapSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return DEFAULT_IMPORT_MAP_SETTINGS;
+    }
+
+    const parsed = JSON.parse(stored);
+    return {
+      source: ["cdn", "mirror", "off"].includes(parsed.source)
+        ? parsed.source
+        : DEFAULT_IMPORT_MAP_SETTINGS.source,
+      cdnUrl:
+        typeof parsed.cdnUrl === "string"
+          ? parsed.cdnUrl
+          : DEFAULT_IMPORT_MAP_SETTINGS.cdnUrl,
+      mirrorUrl:
+        typeof parsed.mirrorUrl === "string"
+          ? parsed.mirrorUrl
+          : DEFAULT_IMPORT_MAP_SETTINGS.mirrorUrl,
+      imports: isRecordOfStrings(parsed.imports) ? parsed.imports : {},
+    };
+  } catch (error) {
+    console.warn("Failed to load import map settings:", error);
+    return DEFAULT_IMPORT_MAP_SETTINGS;
+  }
+}
+
+export function saveImportMapSettings(settings: ImportMapSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith("/") ? url : `${url}/`;
+}
+
+/**
+ * Resolve the URLs of a map against a base URL, like the browser does
+ */
+function resolveUrls(
+  imports: Record<string, string>,
+  base: string,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(imports).map(([specifier, url]) => [
+      specifier,
+      new URL(url, base).href,
+    ]),
+  );
+}
+
+/**
+ * Create the import map the settings describe, or null when packages that
+ * aren't bundled should be built with Vite instead. A mirror's packages are
+ * listed in the import-map.json of its directory.
+ */
+export async function createImportMap(
+  settings: ImportMapSettings,
+): Promise<ImportMap | null> {
+  const imports = resolveUrls(settings.imports, document.baseURI);
+
+  switch (settings.source) {
+    case "off":
+      return null;
+    case "cdn":
+      return {
+        imports,
+        fallback: new URL(withTrailingSlash(settings.cdnUrl), document.baseURI)
+          .href,
+      };
+    case "mirror": {
+      const mirrorUrl = new URL(
+        withTrailingSlash(settings.mirrorUrl),
+        document.baseURI,
+      ).href;
+      const mapUrl = new URL("import-map.json", mirrorUrl).href;
+
+      let mirrored: Record<string, string>;
+      try {
+        const response = await fetch(mapUrl);
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+        mirrored = parseImports(await response.text());
+      } catch (error) {
+        throw new Error(
+          `Failed to load the package mirror's import map from ${mapUrl}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+
+      return { imports: { ...resolveUrls(mirrored, mapUrl), ...imports } };
+    }
+  }
+}
+
+/**
+ * Tell the service worker which origins the map loads modules from, as it
+ * only caches the cross-origin modules of those
+ */
+export function shareModuleOrigins(map: ImportMap): void {
+  const urls = [...Object.values(map.imports), map.fallback ?? ""];
+  const origins = new Set(
+    urls
+      .filter((url) => /^https?:\/\//.test(url))
+      .map((url) => new URL(url).origin),
+  );
+  navigator.serviceWorker?.controller?.postMessage({
+    type: "SET_MODULE_ORIGINS",
+    origins: Array.from(origins),
+  });
+}
+
+function isBareSpecifier(specifier: string): boolean {
+  return !/^(\.{0,2}\/|[a-z][a-z0-9+.-]*:)/i.test(specifier);
+}
+
+/**
+ * Resolve a specifier to the URL it's imported from, or null when the map
+ * doesn't cover it. URLs are left as they are.
+ */
+export function resolveImport(
+  map: ImportMap,
+  specifier: string,
+): string | null {
+  if (Object.prototype.hasOwnProperty.call(map.imports, specifier)) {
+    return map.imports[specifier];
+  }
+
+  // The longest prefix wins, as in the browser
+  const prefix = Object.keys(map.imports)
+    .filter((key) => key.endsWith("/") && specifier.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) {
+    return map.imports[prefix] + specifier.slice(prefix.length);
+  }
+
+  if (/^https?:\/\//.test(specifier)) {
+    return specifier;
+  }
+
+  return map.fallback && isBareSpecifier(specifier)
+    ? `${map.fallback}${specifier}`
+    : null;
+}
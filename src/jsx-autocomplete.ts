@@ -5,7 +5,28 @@ import type {
 } from "@codemirror/autocomplete";
 import { syntaxTree } from "@codemirror/language";
 import type { SyntaxNode } from "@lezer/common";
-import { componentProps } from "./generated-component-props";
+import { componentProps, type PropInfo } from "./generated-component-props";
+
+// Props most components are given, suggested before the rest
+const COMMON_PROPS = new Set([
+  "ref",
+  "x",
+  "y",
+  "position",
+  "width",
+  "height",
+  "size",
+  "fill",
+  "stroke",
+  "lineWidth",
+  "opacity",
+  "scale",
+  "rotation",
+]);
+
+// An attribute being given a value: its name, then an opening brace and
+// quote when they've been typed, then the value so far
+const ATTRIBUTE_VALUE = /([\w$]+)=(\{\s*)?(["'])?([\w$.-]*)$/;
 
 function findJSXContext(node: SyntaxNode, state: any): { componentName: string; inAttribute: boolean } | null {
   let current: SyntaxNode | null = node;
@@ -48,6 +69,126 @@ function findJSXContext(node: SyntaxNode, state: any): { componentName: string;
   return null;
 }
 
+/**
+ * Ranks required props first, then the component's own props, then common
+ * ones. Deprecated props go last.
+ */
+function getBoost(prop: PropInfo): number {
+  if (prop.deprecated) {
+    return -50;
+  }
+  return (
+    (prop.required ? 4 : 0) +
+    (prop.inheritedFrom ? 0 : 2) +
+    (COMMON_PROPS.has(prop.name) ? 1 : 0)
+  );
+}
+
+function describeProp(prop: PropInfo): string {
+  return [
+    prop.deprecated && "Deprecated.",
+    prop.description,
+    prop.defaultValue && `Default: ${prop.defaultValue}`,
+    prop.inheritedFrom && `Inherited from ${prop.inheritedFrom}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * How a prop is ranked and described among completions
+ */
+export function getPropCompletion(
+  prop: PropInfo,
+): Pick<Completion, "detail" | "info" | "boost"> {
+  return {
+    detail: prop.type,
+    info: describeProp(prop) || undefined,
+    boost: getBoost(prop),
+  };
+}
+
+/**
+ * The props of the component whose attribute name is being written, or
+ * null when the cursor isn't on an attribute name
+ */
+export function findAttributeProps(
+  context: CompletionContext,
+): PropInfo[] | null {
+  const nodeBefore = syntaxTree(context.state).resolveInner(context.pos, -1);
+  const onAttributeName =
+    (nodeBefore.name === "JSXIdentifier" &&
+      nodeBefore.parent?.name === "JSXAttribute") ||
+    nodeBefore.name === "JSXOpenTag" ||
+    nodeBefore.name === "JSXSelfClosingTag";
+  if (!onAttributeName) {
+    return null;
+  }
+
+  const jsxContext = findJSXContext(nodeBefore, context.state);
+  if (!jsxContext || !jsxContext.inAttribute) {
+    return null;
+  }
+  return componentProps[jsxContext.componentName] ?? null;
+}
+
+/**
+ * Suggests the literal values a prop accepts, e.g. `textAlign={'center'}`,
+ * right after the `=`, inside the braces or inside the quotes
+ */
+export function jsxAttributeValueCompletion(
+  context: CompletionContext,
+): CompletionResult | null {
+  const match = context.matchBefore(/[\w$]+=(?:\{\s*)?["']?[\w$.-]*/);
+  const parts = match && ATTRIBUTE_VALUE.exec(match.text);
+  if (!match || !parts) {
+    return null;
+  }
+
+  const nodeBefore = syntaxTree(context.state).resolveInner(match.from, 1);
+  const jsxContext = findJSXContext(nodeBefore, context.state);
+  if (!jsxContext || !jsxContext.inAttribute) {
+    return null;
+  }
+
+  const [, name, brace, quote, value] = parts;
+  const prop = componentProps[jsxContext.componentName]?.find(
+    (prop) => prop.name === name,
+  );
+  if (!prop?.options) {
+    return null;
+  }
+
+  const toCompletion = (option: string, label: string): Completion => ({
+    label,
+    type: "enum",
+    detail: option === prop.defaultValue ? "default" : undefined,
+  });
+
+  let options: Completion[];
+  if (quote) {
+    // Only strings go between quotes, without their own quotes
+    options = prop.options
+      .filter((option) => option.startsWith("'"))
+      .map((option) =>
+        toCompletion(option, option.slice(1, -1).replace(/\\'/g, "'")),
+      );
+  } else if (brace) {
+    options = prop.options.map((option) => toCompletion(option, option));
+  } else {
+    options = prop.options.map((option) => toCompletion(option, `{${option}}`));
+  }
+
+  return {
+    from: context.pos - value.length,
+    options,
+    validFor: /^[\w$.-]*$/,
+  };
+}
+
+/**
+ * Suggests the props of the component being written
+ */
 export function jsxAttributeCompletion(
   context: CompletionContext,
 ): CompletionResult | null {
@@ -96,8 +237,7 @@ export function jsxAttributeCompletion(
     .map((prop) => ({
       label: prop.name,
       type: "property",
-      detail: prop.description,
-      info: prop.type,
+      ...getPropCompletion(prop),
     }));
 
   return {
@@ -0,0 +1,212 @@
+/**
+ * Legacy Decorators
+ *
+ * Compiles decorators the way TypeScript does with `experimentalDecorators`,
+ * which is what Motion Canvas's `@signal()` and `@initial()` are written for.
+ * Babel's own legacy decorators give decorated fields an initializer, which
+ * would overwrite the signals those decorators create for `declare` fields.
+ */
+
+import type { NodePath, PluginObj, PluginPass, types } from "@babel/core";
+
+type Babel = typeof import("@babel/core");
+
+// TypeScript's __decorate helper
+const DECORATE_HELPER = `
+  function HELPER(decorators, target, key, desc) {
+    var c = arguments.length,
+      r = c < 3 ? target : desc === null ? (desc = Object.getOwnPropertyDescriptor(target, key)) : desc,
+      d;
+    for (var i = decorators.length - 1; i >= 0; i--)
+      if ((d = decorators[i])) r = (c < 3 ? d(r) : c > 3 ? d(target, key, r) : d(target, key)) || r;
+    return c > 3 && r && Object.defineProperty(target, key, r), r;
+  }
+`;
+
+interface DecoratedMember {
+  decorators: types.Expression[];
+  key: string;
+  isStatic: boolean;
+  /** Fields are decorated without a descriptor, methods and accessors with one */
+  isField: boolean;
+}
+
+/**
+ * A Babel plugin that compiles legacy decorators. It runs before the other
+ * plugins, so it sees `declare` fields before the TypeScript plugin removes
+ * them, and removes every field without a value like TypeScript does when
+ * class fields are assigned rather than defined.
+ */
+export function legacyDecorators({ types: t, template }: Babel): PluginObj {
+  const buildHelper = template.statement(DECORATE_HELPER, {
+    placeholderPattern: /^HELPER$/,
+  });
+
+  const getHelper = (
+    program: NodePath<types.Program>,
+    state: PluginPass,
+  ): types.Identifier => {
+    let helper: types.Identifier | undefined = state.get("decorateHelper");
+    if (!helper) {
+      helper = program.scope.generateUidIdentifier("decorate");
+      const [declaration] = program.unshiftContainer(
+        "body",
+        buildHelper({ HELPER: helper }),
+      );
+      program.scope.registerDeclaration(declaration);
+      state.set("decorateHelper", helper);
+    }
+    return t.cloneNode(helper);
+  };
+
+  const getKey = (
+    member: NodePath<types.ClassMethod | types.ClassProperty>,
+  ): string => {
+    const { key, computed } = member.node;
+    if (!computed && t.isIdentifier(key)) {
+      return key.name;
+    }
+    if (t.isStringLiteral(key) || t.isNumericLiteral(key)) {
+      return String(key.value);
+    }
+    throw member.buildCodeFrameError(
+      "Legacy decorators aren't supported on computed members",
+    );
+  };
+
+  const compileClass = (
+    path: NodePath<types.Class>,
+    program: NodePath<types.Program>,
+    state: PluginPass,
+  ): void => {
+    const members: DecoratedMember[] = [];
+    for (const member of path.get("body.body")) {
+      const { node } = member;
+      if (
+        (member.isClassMethod() || member.isClassProperty()) &&
+        member.node.decorators?.length
+      ) {
+        members.push({
+          decorators: member.node.decorators.map(
+            (decorator) => decorator.expression,
+          ),
+          key: getKey(member),
+          isStatic: member.node.static,
+          isField: member.isClassProperty(),
+        });
+        member.node.decorators = null;
+      } else if ("decorators" in node && node.decorators?.length) {
+        throw member.buildCodeFrameError(
+          "Legacy decorators aren't supported on private members",
+        );
+      }
+
+      // Fields without a value only declare a type
+      if (member.isClassProperty() && !member.node.value) {
+        member.remove();
+      }
+    }
+
+    // TypeScript decorates instance members first, then static ones
+    members.sort((a, b) => Number(a.isStatic) - Number(b.isStatic));
+
+    const classDecorators = (path.node.decorators ?? []).map(
+      (decorator) => decorator.expression,
+    );
+    path.node.decorators = null;
+    if (members.length === 0 && classDecorators.length === 0) {
+      return;
+    }
+
+    const decorate = (ref: types.Identifier): types.Expression[] => {
+      const calls: types.Expression[] = members.map((member) =>
+        t.callExpression(getHelper(program, state), [
+          t.arrayExpression(member.decorators),
+          member.isStatic
+            ? t.cloneNode(ref)
+            : t.memberExpression(t.cloneNode(ref), t.identifier("prototype")),
+          t.stringLiteral(member.key),
+          member.isField ? t.buildUndefinedNode() : t.nullLiteral(),
+        ]),
+      );
+      if (classDecorators.length > 0) {
+        calls.push(
+          t.assignmentExpression(
+            "=",
+            t.cloneNode(ref),
+            t.callExpression(getHelper(program, state), [
+              t.arrayExpression(classDecorators),
+              t.cloneNode(ref),
+            ]),
+          ),
+        );
+      }
+      return calls;
+    };
+
+    if (path.isClassExpression()) {
+      const ref = path.scope.generateUidIdentifier(
+        path.node.id?.name ?? "class",
+      );
+      path.scope.push({ id: ref });
+      path.replaceWith(
+        t.sequenceExpression([
+          t.assignmentExpression("=", t.cloneNode(ref), path.node),
+          ...decorate(ref),
+          t.cloneNode(ref),
+        ]),
+      );
+      return;
+    }
+
+    if (!path.isClassDeclaration()) return;
+    const node = path.node;
+    node.id = node.id ?? path.scope.generateUidIdentifier("default");
+    const ref = node.id;
+    const statements = decorate(ref).map((call) => t.expressionStatement(call));
+
+    if (classDecorators.length === 0) {
+      const statement = path.parentPath.isExportDeclaration()
+        ? path.parentPath
+        : path;
+      statement.insertAfter(statements);
+      return;
+    }
+
+    // Class decorators can replace the class, so its binding is reassigned
+    const declaration = t.variableDeclaration("let", [
+      t.variableDeclarator(t.cloneNode(ref), t.toExpression(node)),
+    ]);
+    if (path.parentPath.isExportDefaultDeclaration()) {
+      path.parentPath.replaceWithMultiple([
+        declaration,
+        ...statements,
+        t.exportDefaultDeclaration(t.cloneNode(ref)),
+      ]);
+    } else if (path.parentPath.isExportNamedDeclaration()) {
+      const [exported] = path.parentPath.replaceWith(
+        t.exportNamedDeclaration(declaration),
+      );
+      exported.insertAfter(statements);
+    } else {
+      const [replaced] = path.replaceWith(declaration);
+      replaced.insertAfter(statements);
+    }
+  };
+
+  return {
+    manipulateOptions(_options, parserOptions) {
+      parserOptions.plugins.push("decorators-legacy");
+    },
+    visitor: {
+      // Classes are compiled up front, before other plugins visit them
+      Program(program, state) {
+        program.traverse({
+          Class(path) {
+            compileClass(path, program, state);
+          },
+        });
+      },
+    },
+  };
+}
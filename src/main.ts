@@ -7,30 +7,68 @@
 import "@catppuccin/palette/css/catppuccin.css";
 
 import { loadCoreModules, type LazyModules } from "./lazy-imports";
-import { URLStateManager } from "./url-state";
+import { URLStateManager, type SavedTimeEvents } from "./url-state";
+import {
+  ENTRY_FILE,
+  singleFileProject,
+  type ProjectFiles,
+} from "./project-files";
 import type { EditorView } from "@codemirror/view";
 import "./components/loading-overlay";
 import "./components/fiddle-app";
 import "./components/security-warning-modal";
 import type { LoadingOverlay } from "./components/loading-overlay";
 import type { FiddleApp } from "./components/fiddle-app";
+import type { SceneInfo } from "./player";
+import type { SourceLocation } from "./source-map";
+import type { TypeChecker } from "./type-checker";
+import type { DecoratorVersion } from "./compiler";
+import type { StillFormat } from "./still-exporter";
 import { SecurityWarningModal } from "./components/security-warning-modal";
 import { fetchFromGist, fetchFromUrl } from "./code-loader";
 import { schedulePrefetch } from "./prefetch";
+import { loadImportMapSettings } from "./import-map";
 import "./register-service-worker"; // Auto-registers service worker
 import { initAnalytics, trackEvent } from "./analytics";
+import { saveAudioTrack, loadAudioTrack, clearAudioTrack } from "./audio-track";
+import type { AudioData } from "@motion-canvas/core";
 
 let editor: EditorView;
 let player: any;
 let app: FiddleApp;
 let splitter: any;
 let modules: LazyModules;
+let typeChecker: TypeChecker;
 
-async function runAnimation(preserveFrame?: number): Promise<void> {
+// The frame export the URL's still parameter asks for, made once the scene
+// has run successfully
+let pendingStillExport: {
+  frame: number;
+  format: StillFormat;
+  scale: number;
+} | null = null;
+
+// Shown while the project is too large to be saved in the URL
+let unsavedProjectWarning: string | null = null;
+
+/**
+ * Compile and run the project
+ * @returns Whether the scene compiled and was loaded into the player
+ */
+async function runAnimation(preserveFrame?: number): Promise<boolean> {
   app.hideError();
 
   try {
-    const code = modules.getEditorContent(editor);
+    const files = modules.getProjectFiles(editor);
+    const code = files[ENTRY_FILE];
+
+    const decorators: DecoratorVersion =
+      localStorage.getItem("decoratorVersion") === "2023-05"
+        ? "2023-05"
+        : "legacy";
+
+    // Runs in a worker alongside the compile, which doesn't wait for it
+    checkTypes(files, decorators);
 
     // Get compilation mode from settings
     const compilationMode = localStorage.getItem("compilationMode") || "auto";
@@ -50,17 +88,21 @@ async function runAnimation(preserveFrame?: number): Promise<void> {
 
     // Log compilation start
     outputConsole?.info("Starting compilation...");
+    outputConsole?.setCached(false);
 
     // Show compilation progress
     const scene = await modules.compileScene(code, {
+      files,
       forceWebContainer,
       forceBabel,
+      importMap: loadImportMapSettings(),
+      decorators,
       logger,
-      loadMotionCanvasGraphing: modules.loadMotionCanvasGraphing,
-      loadThree: modules.loadThree,
-      loadShiki: modules.loadShiki,
-      loadShikiHighlighter: modules.loadShikiHighlighter,
-      loadLezer: modules.loadLezer,
+      onCacheHit: () => outputConsole?.setCached(true),
+      onDiagnostics: (diagnostics) => {
+        modules.showCompileDiagnostics(editor, diagnostics);
+        syncFileList();
+      },
       onProgress: (progress) => {
         console.log(
           `[${progress.stage}] ${progress.message} (${progress.progress}%)`,
@@ -74,6 +116,11 @@ async function runAnimation(preserveFrame?: number): Promise<void> {
 
     await player.updateScene(scene);
 
+    // Errors are hidden when a run starts, but the project still isn't saved
+    if (unsavedProjectWarning) {
+      app.showError(unsavedProjectWarning);
+    }
+
     // Restore frame after scene update if one was provided
     if (preserveFrame && preserveFrame > 0) {
       setTimeout(() => {
@@ -84,6 +131,13 @@ async function runAnimation(preserveFrame?: number): Promise<void> {
         }
       }, 200);
     }
+
+    if (pendingStillExport) {
+      const { frame, ...settings } = pendingStillExport;
+      pendingStillExport = null;
+      await app.exportStill(frame, settings);
+    }
+    return true;
   } catch (error: unknown) {
     console.error("Animation error:", error);
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -95,9 +149,73 @@ async function runAnimation(preserveFrame?: number): Promise<void> {
     }
 
     app.showError(errorMessage);
+    return false;
   }
 }
 
+/**
+ * Type check the project and show the errors found, unless the files were
+ * edited while the check was running
+ */
+function checkTypes(files: ProjectFiles, decorators: DecoratorVersion): void {
+  typeChecker
+    .check(files, decorators)
+    .then((diagnostics) => {
+      const current = modules.getProjectFiles(editor);
+      const paths = Object.keys(current);
+      const unchanged =
+        paths.length === Object.keys(files).length &&
+        paths.every((path) => current[path] === files[path]);
+
+      if (diagnostics && unchanged) {
+        modules.showTypeDiagnostics(editor, diagnostics);
+      }
+    })
+    .catch((error) => {
+      console.warn("Type checking failed:", error);
+    });
+}
+
+/**
+ * Persist the project files to the URL (default single-file code is omitted)
+ */
+function saveProjectToURL(): void {
+  const files = modules.getProjectFiles(editor);
+  const paths = Object.keys(files);
+
+  if (paths.length === 1 && files[ENTRY_FILE] === modules.DEFAULT_CODE) {
+    URLStateManager.clearCode();
+    unsavedProjectWarning = null;
+  } else if (URLStateManager.updateFiles(files)) {
+    unsavedProjectWarning = null;
+  } else {
+    unsavedProjectWarning =
+      "The project is too large to save in the URL, so reloading the page would lose it";
+    app.getConsole()?.warn(unsavedProjectWarning);
+    app.showError(unsavedProjectWarning);
+  }
+}
+
+/**
+ * Forget the time events moved in a project that's being replaced, which
+ * would otherwise move the events of its replacement's scenes of the same
+ * name
+ */
+function clearTimeEvents(): void {
+  player.setSavedTimeEvents({});
+  URLStateManager.updateTimeEvents({});
+}
+
+/**
+ * Push the editor's file list to the file tree and tabs
+ */
+function syncFileList(): void {
+  app.updateFiles(
+    Object.keys(modules.getProjectFiles(editor)),
+    modules.getActiveFile(editor),
+  );
+}
+
 async function init(): Promise<void> {
   // Create and add loading overlay
   const loading = document.createElement("loading-overlay") as LoadingOverlay;
@@ -122,6 +240,7 @@ async function init(): Promise<void> {
     // Capture initial frame, code, and settings from URL before anything else
     const initialFrame = URLStateManager.getInitialFrame();
     let initialCode = URLStateManager.getInitialCode();
+    const initialFiles = URLStateManager.getInitialFiles();
     const initialSettings = URLStateManager.getInitialSettings();
 
     // Check for Gist or source URL parameters
@@ -130,7 +249,7 @@ async function init(): Promise<void> {
 
     // Fetch code from external sources if provided
     // Priority: gist > src > code
-    if (gistId && !initialCode) {
+    if (gistId && !initialCode && !initialFiles) {
       try {
         loading.updateProgress(90, "Loading code from Gist...");
         initialCode = await fetchFromGist(gistId);
@@ -148,7 +267,7 @@ async function init(): Promise<void> {
           `Failed to load Gist: ${error instanceof Error ? error.message : String(error)}`,
         );
       }
-    } else if (srcUrl && !initialCode) {
+    } else if (srcUrl && !initialCode && !initialFiles) {
       try {
         loading.updateProgress(90, "Loading code from URL...");
         initialCode = await fetchFromUrl(srcUrl);
@@ -165,7 +284,7 @@ async function init(): Promise<void> {
           `Failed to load from URL: ${error instanceof Error ? error.message : String(error)}`,
         );
       }
-    } else if (initialCode) {
+    } else if (initialCode || initialFiles) {
       // Track encoded code in URL (code was already in the URL, not from gist or src)
       trackEvent("load_code_from_url", {
         source: "encoded",
@@ -180,27 +299,31 @@ async function init(): Promise<void> {
     const editorContainer = app.editorContainer;
     const canvas = app.canvas;
 
+    typeChecker = new modules.TypeChecker();
     editor = modules.createEditor(editorContainer, {
       onSave: async () => {
         // Format the code and update the editor (if formatting is enabled)
-        const formattedCode = await modules.formatAndUpdateEditor(
-          editor,
-          app.isFormattingEnabled(),
-        );
+        await modules.formatAndUpdateEditor(editor, app.isFormattingEnabled());
 
         // Only save to URL if code is not the default
-        if (formattedCode === modules.DEFAULT_CODE) {
-          URLStateManager.clearCode();
-        } else {
-          URLStateManager.updateCode(formattedCode);
-        }
+        saveProjectToURL();
         await runAnimation(player?.currentFrame);
       },
+      onFileOpened: () => syncFileList(),
       initialCode,
+      initialFiles,
+      typeChecker,
     });
+    syncFileList();
 
     player = new modules.MotionCanvasPlayer(canvas, {
-      onError: (message: string) => app.showError(message),
+      onError: (message: string, location?: SourceLocation) => {
+        app.showError(message);
+        if (location) {
+          modules.showRuntimeError(editor, location, message);
+          syncFileList();
+        }
+      },
       onStateChanged: (playing: boolean) => {
         app.updatePlayState(playing);
         // Save frame to URL when pausing (but only if we have a meaningful frame)
@@ -212,6 +335,11 @@ async function init(): Promise<void> {
         app.updateProgress(frame, player.currentDuration),
       onDurationChanged: (duration: number) =>
         app.updateProgress(player.currentFrame, duration),
+      onScenesChanged: (scenes: SceneInfo[]) => app.updateScenes(scenes),
+      onCurrentSceneChanged: (index: number) => app.updateCurrentScene(index),
+      onTimeEventsChanged: (events: SavedTimeEvents) =>
+        URLStateManager.updateTimeEvents(events),
+      onAudioDataChanged: (data: AudioData | null) => app.updateAudioData(data),
     });
 
     // Set callbacks for the app
@@ -219,6 +347,9 @@ async function init(): Promise<void> {
       onResetCode: () => {
         modules.resetEditorToDefault(editor);
         URLStateManager.clearCode();
+        unsavedProjectWarning = null;
+        clearTimeEvents();
+        syncFileList();
       },
       onPlayPause: () => player.togglePlayback(),
       onResetPlayer: () => {
@@ -232,42 +363,79 @@ async function init(): Promise<void> {
           URLStateManager.updateFrame(frame);
         }
       },
+      onJumpToScene: (index: number) => player.seekToScene(index),
+      onTimeEventChanged: (
+        sceneIndex: number,
+        name: string,
+        offset: number,
+        preserve: boolean,
+      ) => player.setTimeEventOffset(sceneIndex, name, offset, preserve),
       onProjectSettingsChanged: (settings: any) =>
         player.updateProjectSettings(settings),
       onRunAnimation: async () => {
         // Format the code and update the editor (if formatting is enabled)
-        const formattedCode = await modules.formatAndUpdateEditor(
-          editor,
-          app.isFormattingEnabled(),
-        );
+        await modules.formatAndUpdateEditor(editor, app.isFormattingEnabled());
 
         // Only save to URL if code is not the default
-        if (formattedCode === modules.DEFAULT_CODE) {
-          URLStateManager.clearCode();
-        } else {
-          URLStateManager.updateCode(formattedCode);
-        }
+        saveProjectToURL();
         await runAnimation(player?.currentFrame);
       },
       onApplyTemplate: async (code: string) => {
-        // Set the editor content to the template code
-        editor.dispatch({
-          changes: {
-            from: 0,
-            to: editor.state.doc.length,
-            insert: code,
-          },
-        });
+        // Templates replace the whole project with a single entry file
+        modules.setProjectFiles(editor, singleFileProject(code));
+        clearTimeEvents();
+        syncFileList();
         // Format the code and update the editor (if formatting is enabled)
-        const formattedCode = await modules.formatAndUpdateEditor(
-          editor,
-          app.isFormattingEnabled(),
-        );
+        await modules.formatAndUpdateEditor(editor, app.isFormattingEnabled());
         // Update URL with template code
-        URLStateManager.updateCode(formattedCode);
+        saveProjectToURL();
         // Run the animation with the new template
         await runAnimation(player?.currentFrame);
       },
+      onSelectFile: (path: string) => {
+        modules.openFile(editor, path);
+        syncFileList();
+      },
+      onCreateFile: (path: string) => {
+        try {
+          modules.createFile(editor, path);
+          saveProjectToURL();
+        } catch (error) {
+          app.showError(error instanceof Error ? error.message : String(error));
+        }
+        syncFileList();
+      },
+      onDeleteFile: (path: string) => {
+        try {
+          modules.deleteFile(editor, path);
+          saveProjectToURL();
+        } catch (error) {
+          app.showError(error instanceof Error ? error.message : String(error));
+        }
+        syncFileList();
+      },
+      onRenameFile: (from: string, to: string) => {
+        try {
+          modules.renameFile(editor, from, to);
+          saveProjectToURL();
+        } catch (error) {
+          app.showError(error instanceof Error ? error.message : String(error));
+        }
+        syncFileList();
+      },
+      onAudioTrackChanged: async (file: File | null) => {
+        player.setAudioTrack(file);
+        app.updateAudioTrackName(file?.name ?? null);
+        try {
+          if (file) {
+            await saveAudioTrack(file);
+          } else {
+            await clearAudioTrack();
+          }
+        } catch (error) {
+          console.warn("Failed to store audio track:", error);
+        }
+      },
     };
 
     // Ensure we have default settings for first load
@@ -281,6 +449,12 @@ async function init(): Promise<void> {
     const settings = initialSettings
       ? { ...defaultSettings, ...initialSettings }
       : defaultSettings;
+    // Restore timeline adjustments before the first scene is created
+    const initialTimeEvents = URLStateManager.getInitialTimeEvents();
+    if (initialTimeEvents) {
+      player.setSavedTimeEvents(initialTimeEvents);
+    }
+
     await player.initialize(settings);
 
     // Explicitly apply project settings to ensure canvas background is set
@@ -289,6 +463,16 @@ async function init(): Promise<void> {
     // Set player for export functionality
     app.player = player;
 
+    // Reattach the audio track from the previous session
+    loadAudioTrack()
+      .then((file) => {
+        if (file) {
+          player.setAudioTrack(file);
+          app.updateAudioTrackName(file.name);
+        }
+      })
+      .catch((error) => console.warn("Failed to load audio track:", error));
+
     // Initialize splitter for both desktop and mobile
     // Wait for next frame to ensure DOM is rendered
     await new Promise((resolve) => requestAnimationFrame(resolve));
@@ -315,10 +499,20 @@ async function init(): Promise<void> {
 
     // Check if code came from URL and if we should show security warning
     const codeFromURL =
-      initialCode !== null || gistId !== null || srcUrl !== null;
+      initialCode !== null ||
+      initialFiles !== null ||
+      gistId !== null ||
+      srcUrl !== null;
     const shouldShowWarning =
       codeFromURL && !SecurityWarningModal.isWarningDisabled();
 
+    // Export the initial frame when the URL asks for it, for automation
+    const stillExport = URLStateManager.getInitialStillExport();
+    if (stillExport) {
+      URLStateManager.clearStillExport();
+      pendingStillExport = { frame: initialFrame, ...stillExport };
+    }
+
     if (shouldShowWarning) {
       // Show security warning and don't run animation until user saves
       const warningModal = document.createElement(
@@ -335,9 +529,19 @@ async function init(): Promise<void> {
 
       warningModal.addEventListener("continue", removeModal);
       warningModal.addEventListener("close", removeModal);
+
+      if (pendingStillExport) {
+        console.info(
+          "Still export waits for the code from the URL to be reviewed and run",
+        );
+      }
     } else {
       // Run initial animation only if code didn't come from URL or user has disabled warnings
-      await runAnimation(initialFrame);
+      const ran = await runAnimation(initialFrame);
+      if (!ran && pendingStillExport) {
+        console.warn("Still export skipped: the scene failed to compile");
+        pendingStillExport = null;
+      }
     }
   } catch (error) {
     console.error("Failed to initialize fiddle:", error);
@@ -0,0 +1,235 @@
+/**
+ * Module Resolver
+ *
+ * Scene code doesn't load bundled packages itself: the fiddle loads them and
+ * exposes each one as a global on `window` (see package-registry.ts). Both
+ * compilers rewrite the imports of bundled packages here, into lookups of
+ * those globals.
+ */
+
+import type * as BabelTypes from "@babel/types";
+import { resolveBundledPackage, type BundledPackage } from "./package-registry";
+import type { RawSourceMap } from "./source-map";
+
+type Babel = typeof import("@babel/standalone");
+type InputSourceMap = Parameters<Babel["transform"]>[1]["inputSourceMap"];
+
+export interface RewrittenModule {
+  code: string;
+  map: RawSourceMap | null;
+  /** Specifiers that aren't bundled packages, which were left as they were */
+  unresolved: string[];
+}
+
+/**
+ * Rewrite the imports and re-exports of bundled packages in compiled code
+ * into lookups of their globals. Every form is supported: default, namespace
+ * and named imports, side-effect imports, `export ... from`, `export * from`
+ * and dynamic `import()`. Without a source map, one inlined in the code is
+ * used; either way the returned map leads back to the original sources.
+ */
+export function rewriteImports(
+  Babel: Babel,
+  code: string,
+  inputSourceMap?: RawSourceMap,
+): RewrittenModule {
+  const unresolved = new Set<string>();
+
+  const resolve = (source: BabelTypes.StringLiteral): BundledPackage | null => {
+    const module = resolveBundledPackage(source.value);
+    if (!module) {
+      unresolved.add(source.value);
+    }
+    return module;
+  };
+
+  const plugin = ({ types: t }: { types: typeof BabelTypes }) => {
+    const lookup = (module: BundledPackage) =>
+      t.memberExpression(t.identifier("window"), t.identifier(module.global));
+
+    const member = (object: BabelTypes.Expression, name: string) =>
+      t.isValidIdentifier(name)
+        ? t.memberExpression(object, t.identifier(name))
+        : t.memberExpression(object, t.stringLiteral(name), true);
+
+    const nameOf = (node: BabelTypes.Identifier | BabelTypes.StringLiteral) =>
+      t.isIdentifier(node) ? node.name : node.value;
+
+    // Names a module exports itself, which `export *` doesn't override
+    const getLocalExports = (program: BabelTypes.Program) => {
+      const names = new Set<string>();
+      for (const statement of program.body) {
+        if (!t.isExportNamedDeclaration(statement)) continue;
+        if (statement.declaration) {
+          for (const name of Object.keys(
+            t.getOuterBindingIdentifiers(statement.declaration),
+          )) {
+            names.add(name);
+          }
+        }
+        for (const specifier of statement.specifiers) {
+          names.add(nameOf(specifier.exported));
+        }
+      }
+      return names;
+    };
+
+    return {
+      visitor: {
+        ImportDeclaration(path: any) {
+          const node: BabelTypes.ImportDeclaration = path.node;
+          const module = resolve(node.source);
+          if (!module) return;
+
+          const properties: BabelTypes.ObjectProperty[] = [];
+          const declarators: BabelTypes.VariableDeclarator[] = [];
+          for (const specifier of node.specifiers) {
+            if (t.isImportDefaultSpecifier(specifier)) {
+              declarators.push(
+                t.variableDeclarator(
+                  specifier.local,
+                  member(lookup(module), "default"),
+                ),
+              );
+            } else if (t.isImportNamespaceSpecifier(specifier)) {
+              declarators.push(
+                t.variableDeclarator(specifier.local, lookup(module)),
+              );
+            } else {
+              const name = nameOf(specifier.imported);
+              properties.push(
+                t.objectProperty(
+                  t.isValidIdentifier(name)
+                    ? t.identifier(name)
+                    : t.stringLiteral(name),
+                  specifier.local,
+                  false,
+                  name === specifier.local.name,
+                ),
+              );
+            }
+          }
+          if (properties.length > 0) {
+            declarators.unshift(
+              t.variableDeclarator(t.objectPattern(properties), lookup(module)),
+            );
+          }
+
+          if (declarators.length === 0) {
+            path.remove();
+          } else {
+            path.replaceWith(t.variableDeclaration("const", declarators));
+          }
+        },
+        ExportNamedDeclaration(path: any) {
+          const node: BabelTypes.ExportNamedDeclaration = path.node;
+          const module = node.source && resolve(node.source);
+          if (!module) return;
+
+          const declarators: BabelTypes.VariableDeclarator[] = [];
+          const specifiers: BabelTypes.ExportSpecifier[] = [];
+          for (const specifier of node.specifiers) {
+            const exported = nameOf(specifier.exported);
+            const local = path.scope.generateUidIdentifier(exported);
+            declarators.push(
+              t.variableDeclarator(
+                local,
+                t.isExportSpecifier(specifier)
+                  ? member(lookup(module), nameOf(specifier.local))
+                  : lookup(module),
+              ),
+            );
+            specifiers.push(
+              t.exportSpecifier(t.identifier(local.name), specifier.exported),
+            );
+          }
+
+          if (declarators.length === 0) {
+            path.remove();
+          } else {
+            path.replaceWithMultiple([
+              t.variableDeclaration("const", declarators),
+              t.exportNamedDeclaration(null, specifiers),
+            ]);
+          }
+        },
+        ExportAllDeclaration(path: any) {
+          const node: BabelTypes.ExportAllDeclaration = path.node;
+          const module = resolve(node.source);
+          if (!module) return;
+
+          // The exports of a global can only be listed once it's loaded
+          const exports = (window as any)[module.global];
+          if (!exports) {
+            unresolved.add(node.source.value);
+            return;
+          }
+
+          const localExports = getLocalExports(path.parent);
+          const declarators: BabelTypes.VariableDeclarator[] = [];
+          const specifiers: BabelTypes.ExportSpecifier[] = [];
+          for (const name of Object.keys(exports)) {
+            if (name === "default" || localExports.has(name)) continue;
+
+            const local = path.scope.generateUidIdentifier(name);
+            declarators.push(
+              t.variableDeclarator(local, member(lookup(module), name)),
+            );
+            specifiers.push(
+              t.exportSpecifier(
+                t.identifier(local.name),
+                t.isValidIdentifier(name)
+                  ? t.identifier(name)
+                  : t.stringLiteral(name),
+              ),
+            );
+          }
+
+          if (declarators.length === 0) {
+            path.remove();
+          } else {
+            path.replaceWithMultiple([
+              t.variableDeclaration("const", declarators),
+              t.exportNamedDeclaration(null, specifiers),
+            ]);
+          }
+        },
+        CallExpression(path: any) {
+          const node: BabelTypes.CallExpression = path.node;
+          const [source] = node.arguments;
+          if (!t.isImport(node.callee) || !t.isStringLiteral(source)) return;
+
+          const module = resolve(source);
+          if (!module) return;
+
+          path.replaceWith(
+            t.callExpression(
+              t.memberExpression(
+                t.identifier("Promise"),
+                t.identifier("resolve"),
+              ),
+              [lookup(module)],
+            ),
+          );
+        },
+      },
+    };
+  };
+
+  const result = Babel.transform(code, {
+    sourceType: "module",
+    sourceMaps: true,
+    inputSourceMap: inputSourceMap as InputSourceMap,
+    retainLines: true,
+    plugins: [plugin],
+  });
+  if (!result || result.code == null) {
+    throw new Error("Failed to rewrite imports");
+  }
+
+  return {
+    code: result.code,
+    map: (result.map as RawSourceMap | null | undefined) ?? null,
+    unresolved: Array.from(unresolved),
+  };
+}
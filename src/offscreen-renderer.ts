@@ -0,0 +1,147 @@
+import {
+  PlaybackManager,
+  PlaybackState,
+  PlaybackStatus,
+  Project,
+  SharedWebGLContext,
+  Stage,
+  Vector2,
+  type Scene,
+} from "@motion-canvas/core";
+// Not re-exported from the package root
+import { ReadOnlyTimeEvents } from "@motion-canvas/core/lib/scenes/timeEvents";
+
+/**
+ * Called with the stage's buffer once a frame has been fully rendered. The
+ * buffer is reused for the next frame, so it must be consumed before the
+ * returned promise resolves.
+ */
+export type FrameHandler = (
+  canvas: HTMLCanvasElement,
+  frame: number,
+) => Promise<void>;
+
+// Give the browser a chance to update the UI at roughly this interval
+const YIELD_INTERVAL_MS = 1000 / 30;
+
+/**
+ * Yield to the event loop without the clamping and background-tab
+ * throttling that applies to setTimeout
+ */
+function yieldToBrowser(): Promise<void> {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = () => {
+      channel.port1.close();
+      resolve();
+    };
+    channel.port2.postMessage(null);
+  });
+}
+
+/**
+ * Renders the project frame by frame with its own scenes, playback and stage,
+ * independent of the on-screen player. Each frame is awaited until the stage
+ * has finished drawing it, so the output does not depend on timing.
+ *
+ * A renderer takes a snapshot of the scenes when it is created and is meant
+ * to be used for a single export.
+ */
+export class OffscreenRenderer {
+  private playback = new PlaybackManager();
+  private status = new PlaybackStatus(this.playback);
+  private stage = new Stage();
+  private sharedWebGLContext: SharedWebGLContext;
+  private size: Vector2;
+
+  /**
+   * @param resolutionScale - Output size relative to the project size. Scenes
+   *                          are drawn at this scale rather than resampled.
+   */
+  constructor(project: Project, sceneDescriptions: any[], resolutionScale = 1) {
+    this.size = new Vector2(project.meta.shared.size.get());
+    this.sharedWebGLContext = new SharedWebGLContext(project.logger);
+
+    const scenes: Scene[] = sceneDescriptions.map((description) => {
+      // The latest compiled version of the scene, with the time events
+      // edited in the preview
+      const scene: Scene = new description.klass({
+        ...description.onReplaced.current,
+        meta: description.meta.clone(),
+        logger: project.logger,
+        playback: this.status,
+        size: this.size,
+        resolutionScale,
+        timeEventsClass: ReadOnlyTimeEvents,
+        sharedWebGLContext: this.sharedWebGLContext,
+        experimentalFeatures: project.experimentalFeatures,
+      });
+      scene.variables.updateSignals(project.variables ?? {});
+      return scene;
+    });
+
+    this.playback.setup(scenes);
+    this.stage.configure({ size: this.size, resolutionScale });
+  }
+
+  /** Width of the rendered frames in pixels */
+  get width(): number {
+    return this.stage.finalBuffer.width;
+  }
+
+  /** Height of the rendered frames in pixels */
+  get height(): number {
+    return this.stage.finalBuffer.height;
+  }
+
+  /**
+   * Render `frameCount` frames at `fps`, starting `startTime` seconds into
+   * the animation. Frames past the end repeat the last frame.
+   * @returns False when rendering was stopped by the signal
+   */
+  async render(
+    fps: number,
+    startTime: number,
+    frameCount: number,
+    onFrame: FrameHandler,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    this.playback.fps = fps;
+    this.playback.state = PlaybackState.Rendering;
+
+    await this.playback.recalculate();
+    await this.playback.reset();
+
+    const startFrame = Math.round(startTime * fps);
+    let lastYield = performance.now();
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      if (signal?.aborted) {
+        return false;
+      }
+
+      if (frame === 0) {
+        await this.playback.seek(startFrame);
+      } else if (!this.playback.finished) {
+        await this.playback.progress();
+      }
+
+      await this.stage.render(
+        this.playback.currentScene,
+        this.playback.previousScene,
+      );
+      await onFrame(this.stage.finalBuffer, frame);
+
+      if (performance.now() - lastYield > YIELD_INTERVAL_MS) {
+        await yieldToBrowser();
+        lastYield = performance.now();
+      }
+    }
+
+    return !signal?.aborted;
+  }
+
+  dispose(): void {
+    this.sharedWebGLContext.dispose();
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Package Registry
+ *
+ * The packages scene code can import without a WebContainer build. Each one
+ * is loaded on demand and exposed as a global on `window`, which compiled
+ * imports are rewritten to read from (see module-resolver.ts). Supporting
+ * another package only takes an entry here, and its typings in
+ * type-definitions.ts for editor support.
+ */
+
+export interface BundledPackage {
+  /** The specifier the package is imported by */
+  name: string;
+  /** The version installed for WebContainer builds; local modules have none */
+  version?: string;
+  /** The property of `window` the package's exports are exposed as */
+  global: string;
+  /** Imports the package's exports */
+  load: () => Promise<object>;
+  /** Whether subpaths, like "@motion-canvas/core/lib/utils", share its exports */
+  subpaths?: boolean;
+  /** Loaded at startup, since every scene uses it */
+  core?: boolean;
+  /** Fetched while the browser is idle, so it's cached for offline use */
+  prefetch?: boolean;
+  /** A Lezer language, whose `parser` the editor has a snippet to import */
+  parser?: boolean;
+}
+
+/**
+ * A Lezer package, exposed as a global named after it, e.g. LezerJavascript
+ */
+function lezer(
+  name: string,
+  version: string,
+  load: () => Promise<object>,
+  global = `Lezer${name[0].toUpperCase()}${name.slice(1)}`,
+): BundledPackage {
+  return { name: `@lezer/${name}`, version, global, load, prefetch: true };
+}
+
+/**
+ * A Lezer language package, which exports a parser
+ */
+function lezerLanguage(
+  name: string,
+  version: string,
+  load: () => Promise<object>,
+): BundledPackage {
+  return { ...lezer(name, version, load), parser: true };
+}
+
+export const BUNDLED_PACKAGES: BundledPackage[] = [
+  {
+    name: "@motion-canvas/core",
+    version: "^3.17.2",
+    global: "CanvasCore",
+    load: () => import("@motion-canvas/core"),
+    subpaths: true,
+    core: true,
+  },
+  {
+    name: "@motion-canvas/2d",
+    version: "^3.17.2",
+    global: "Canvas2D",
+    // Compiled JSX imports the runtime, which is served by the package
+    load: async () => {
+      const [module, jsxRuntime] = await Promise.all([
+        import("@motion-canvas/2d"),
+        import("@motion-canvas/2d/lib/jsx-runtime"),
+      ]);
+      return {
+        ...module,
+        jsx: jsxRuntime.jsx,
+        jsxs: jsxRuntime.jsxs,
+        Fragment: jsxRuntime.Fragment,
+      };
+    },
+    subpaths: true,
+    core: true,
+  },
+  {
+    name: "@hhenrichsen/canvas-commons",
+    version: "^0.10.2",
+    global: "CanvasCommons",
+    load: () => import("@hhenrichsen/canvas-commons"),
+    subpaths: true,
+  },
+  {
+    name: "@spidunno/motion-canvas-graphing",
+    version: "latest",
+    global: "MotionCanvasGraphing",
+    load: () => import("@spidunno/motion-canvas-graphing"),
+    subpaths: true,
+    prefetch: true,
+  },
+  {
+    name: "three",
+    version: "^0.180.0",
+    global: "THREE",
+    load: () => import("three"),
+    prefetch: true,
+  },
+  {
+    name: "shiki",
+    version: "latest",
+    global: "Shiki",
+    load: () => import("shiki"),
+    prefetch: true,
+  },
+  {
+    // The fiddle's highlighter, for scenes that don't have their own
+    name: "./shiki",
+    global: "ShikiHighlighterModule",
+    load: () => import("./shiki"),
+    prefetch: true,
+  },
+  lezer("common", "latest", () => import("@lezer/common")),
+  lezer("highlight", "latest", () => import("@lezer/highlight")),
+  lezer("lr", "latest", () => import("@lezer/lr"), "LezerLR"),
+  lezerLanguage("cpp", "^1.1.3", () => import("@lezer/cpp")),
+  lezerLanguage("css", "^1.3.0", () => import("@lezer/css")),
+  lezerLanguage("go", "^1.0.1", () => import("@lezer/go")),
+  lezerLanguage("html", "^1.3.12", () => import("@lezer/html")),
+  lezerLanguage("java", "^1.1.3", () => import("@lezer/java")),
+  lezerLanguage("javascript", "^1.5.4", () => import("@lezer/javascript")),
+  lezerLanguage("json", "^1.0.3", () => import("@lezer/json")),
+  lezerLanguage("markdown", "^1.5.1", () => import("@lezer/markdown")),
+  lezerLanguage("php", "^1.0.5", () => import("@lezer/php")),
+  lezerLanguage("python", "^1.1.18", () => import("@lezer/python")),
+  lezerLanguage("rust", "^1.0.2", () => import("@lezer/rust")),
+  lezerLanguage("sass", "^1.1.0", () => import("@lezer/sass")),
+  lezerLanguage("xml", "^1.0.6", () => import("@lezer/xml")),
+  lezerLanguage("yaml", "^1.0.3", () => import("@lezer/yaml")),
+];
+
+const packagesByName = new Map(BUNDLED_PACKAGES.map((pkg) => [pkg.name, pkg]));
+
+/**
+ * Find a bundled package by its name
+ */
+export function getBundledPackage(name: string): BundledPackage | null {
+  return packagesByName.get(name) ?? null;
+}
+
+/**
+ * Find the bundled package an import specifier refers to, including
+ * subpaths like "@motion-canvas/2d/lib/jsx-runtime". Project files take
+ * precedence, so relative specifiers should be resolved against them first.
+ */
+export function resolveBundledPackage(
+  specifier: string,
+): BundledPackage | null {
+  return (
+    getBundledPackage(specifier) ??
+    BUNDLED_PACKAGES.find(
+      (pkg) => pkg.subpaths && specifier.startsWith(`${pkg.name}/`),
+    ) ??
+    null
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Find the bundled packages that code imports, by looking for quoted
+ * specifiers that refer to them
+ */
+export function findImportedPackages(code: string): BundledPackage[] {
+  return BUNDLED_PACKAGES.filter((pkg) =>
+    new RegExp(
+      `(['"])${escapeRegExp(pkg.name)}${pkg.subpaths ? "(/[^'\"]*)?" : ""}\\1`,
+    ).test(code),
+  );
+}
+
+/**
+ * Patterns for Vite's `external` option that match the specifiers a package
+ * serves, as source code
+ */
+export function getExternalPatterns(pkg: BundledPackage): string[] {
+  const patterns = [`'${pkg.name}'`];
+  if (pkg.subpaths) {
+    patterns.push(`/^${escapeRegExp(pkg.name)}\\//`);
+  }
+  return patterns;
+}
+
+const loadedPackages = new Map<string, Promise<unknown>>();
+
+/**
+ * Load a bundled package and expose its exports as its global. Packages are
+ * only loaded once, and a failed load is tried again next time.
+ */
+export function loadBundledPackage(name: string): Promise<unknown> {
+  const pkg = getBundledPackage(name);
+  if (!pkg) {
+    return Promise.reject(new Error(`Unknown package '${name}'`));
+  }
+
+  let loading = loadedPackages.get(name);
+  if (!loading) {
+    loading = pkg.load().then(
+      (module) => {
+        (window as any)[pkg.global] = module;
+        return module;
+      },
+      (error) => {
+        loadedPackages.delete(name);
+        console.error(`Failed to load ${name}:`, error);
+        throw new Error(`Failed to load ${name}. Make sure it's installed.`);
+      },
+    );
+    loadedPackages.set(name, loading);
+  }
+  return loading;
+}
+
+/**
+ * Load several bundled packages at once
+ */
+export async function loadBundledPackages(
+  names: Iterable<string>,
+): Promise<void> {
+  await Promise.all(Array.from(names, (name) => loadBundledPackage(name)));
+}
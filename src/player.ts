@@ -8,22 +8,91 @@ import {
   ValueDispatcher,
   DefaultPlugin,
   Versions,
+  type AudioData,
 } from "@motion-canvas/core";
 import { makeScene2D } from "@motion-canvas/2d";
-import { URLStateManager } from "./url-state";
+import { URLStateManager, type SavedTimeEvents } from "./url-state";
+import { OffscreenRenderer } from "./offscreen-renderer";
+import { mapStackTrace, type SourceLocation } from "./source-map";
 
 export interface PlayerCallbacks {
-  onError: (message: string) => void;
+  /** `location` is where in the project a runtime error was thrown, if known */
+  onError: (message: string, location?: SourceLocation) => void;
   onStateChanged: (isPlaying: boolean) => void;
   onFrameChanged: (frame: number) => void;
   onDurationChanged: (duration: number) => void;
+  onScenesChanged: (scenes: SceneInfo[]) => void;
+  onCurrentSceneChanged: (index: number) => void;
+  onTimeEventsChanged: (events: SavedTimeEvents) => void;
+  onAudioDataChanged: (data: AudioData | null) => void;
+}
+
+/**
+ * A `waitUntil` event as registered by the running scene. Times are in
+ * seconds relative to the start of the scene.
+ */
+export interface TimeEventInfo {
+  name: string;
+  initialTime: number;
+  targetTime: number;
+  offset: number;
+}
+
+export interface SceneInfo {
+  name: string;
+  firstFrame: number;
+  lastFrame: number;
+  events: TimeEventInfo[];
+}
+
+/**
+ * Turn a compiled default export into an ordered list of scene descriptions.
+ *
+ * Accepts a single scene (`makeScene2D(...)`), an array of scenes, or a
+ * project-like object with a `scenes` array (`makeProject({ scenes })`).
+ * Scenes without a `name` are named by their position.
+ */
+export function resolveSceneDescriptions(exported: any): any[] {
+  let scenes: any[];
+
+  if (Array.isArray(exported)) {
+    scenes = exported;
+  } else if (exported && Array.isArray(exported.scenes)) {
+    scenes = exported.scenes;
+  } else if (exported && exported.klass) {
+    scenes = [exported];
+  } else {
+    throw new Error(
+      "Default export must be a scene, an array of scenes, or a project with a scenes array",
+    );
+  }
+
+  if (scenes.length === 0) {
+    throw new Error("The project must contain at least one scene");
+  }
+
+  return scenes.map((scene, index) => {
+    if (!scene || !scene.klass) {
+      throw new Error(`Scene ${index + 1} is not a valid scene description`);
+    }
+    return {
+      ...scene,
+      name: typeof scene.name === "string" ? scene.name : `Scene ${index + 1}`,
+    };
+  });
 }
 
 export class MotionCanvasPlayer {
   private player: Player | null = null;
   private stage: Stage | null = null;
   private project: Project | null = null;
-  private sceneDescription: any = null;
+  private sceneDescriptions: any[] = [];
+  private playerUnsubscribers: (() => void)[] = [];
+  private savedTimeEvents: SavedTimeEvents = {};
+  private hasUserScenes = false;
+  private audioFile: File | null = null;
+  private audioUrl: string | null = null;
+  private audioOffset = 0;
   private canvas: HTMLCanvasElement;
   private callbacks: PlayerCallbacks;
   private isPlaying = false;
@@ -40,18 +109,18 @@ export class MotionCanvasPlayer {
     width?: number;
     height?: number;
     background?: string | null;
+    audioOffset?: number;
   }): Promise<void> {
     if (this.project) return;
 
-    this.sceneDescription = makeScene2D(function* () {
-      yield;
-    });
-
-    // Scene replacement mechanism enables live reloading without recreating the entire player
-    this.sceneDescription.onReplaced = new ValueDispatcher(
-      this.sceneDescription,
-    );
-    this.sceneDescription.onReplaced.current = this.sceneDescription;
+    this.sceneDescriptions = [
+      this.createSceneDescription({
+        ...makeScene2D(function* () {
+          yield;
+        }),
+        name: "Scene 1",
+      }),
+    ];
 
     const logger = new Logger();
     const versions: Versions = {
@@ -65,7 +134,7 @@ export class MotionCanvasPlayer {
       name: "fiddle",
       logger,
       plugins: [DefaultPlugin()],
-      scenes: [this.sceneDescription],
+      scenes: this.sceneDescriptions,
       experimentalFeatures: true,
       versions,
       meta: null as any, // Will be set below
@@ -83,52 +152,154 @@ export class MotionCanvasPlayer {
 
     const fps = initialSettings?.fps || 30;
     this.project.meta.preview.fps.set(fps);
+    this.audioOffset = initialSettings?.audioOffset || 0;
 
-    this.player = new Player(this.project, {
+    this.stage = new Stage();
+    this.stage.configure({
       size: this.project.meta.shared.size.get(),
-      fps: fps, // Pass FPS to Player so it uses the same value for calculations
     });
 
-    // Expose player globally so user scenes can access playback controls if needed
-    (window as any).player = this.player;
+    this.project.logger.onLogged.subscribe((payload: any) => {
+      if (payload.level === "error") {
+        console.error("Motion Canvas error:", payload.message);
+        const location = payload.stack ? mapStackTrace(payload.stack) : null;
+        this.callbacks.onError(
+          `Runtime error: ${payload.message}`,
+          location ?? undefined,
+        );
+      }
+    });
 
-    this.stage = new Stage();
-    this.stage.configure({
+    this.createPlayer();
+    await this.waitForInitialCalculation();
+  }
+
+  /**
+   * Prepare a description for the Player, with a replacement dispatcher so
+   * the scene can be live-reloaded without recreating the player.
+   */
+  private createSceneDescription(scene: any): any {
+    const description = {
+      ...scene,
+      size: this.project?.meta.shared.size.get(),
+    };
+    description.onReplaced = new ValueDispatcher(description);
+
+    const savedEvents = this.savedTimeEvents[description.name];
+    if (savedEvents && description.meta) {
+      description.meta.timeEvents.set(savedEvents);
+    }
+
+    return description;
+  }
+
+  /**
+   * (Re)create the Player for the current scene list. The Player instantiates
+   * its scenes once, so this is needed whenever the scene list changes.
+   */
+  private createPlayer(): void {
+    if (!this.project) return;
+
+    if (this.player) {
+      this.player.deactivate();
+      this.playerUnsubscribers.forEach((unsubscribe) => unsubscribe());
+      this.playerUnsubscribers = [];
+    }
+
+    this.project.scenes = this.sceneDescriptions;
+    this.project.audio = this.audioUrl ?? undefined;
+    this.player = new Player(this.project, {
       size: this.project.meta.shared.size.get(),
+      fps: this.project.meta.preview.fps.get(), // Pass FPS to Player so it uses the same value for calculations
+      audioOffset: this.audioOffset,
     });
 
+    // The Player starts muted; an attached track is meant to be heard
+    if (this.audioUrl) {
+      this.player.toggleAudio(true);
+    }
+
+    // Expose player globally so user scenes can access playback controls if needed
+    (window as any).player = this.player;
+
     this.setupEventListeners();
-    await this.waitForInitialCalculation();
   }
 
   private setupEventListeners(): void {
-    if (!this.player || !this.project) return;
-
-    this.player.onRender.subscribe(async () => {
-      await this.render();
-    });
+    if (!this.player) return;
 
-    this.project.logger.onLogged.subscribe((payload: any) => {
-      if (payload.level === "error") {
-        console.error("Motion Canvas error:", payload.message);
-        this.callbacks.onError(`Runtime error: ${payload.message}`);
-      }
-    });
+    const player = this.player;
 
-    this.player.onStateChanged.subscribe((state) => {
-      this.isPlaying = !state.paused;
-      this.callbacks.onStateChanged(this.isPlaying);
-    });
+    this.playerUnsubscribers.push(
+      player.onRender.subscribe(async () => {
+        await this.render();
+      }),
+
+      player.onStateChanged.subscribe((state) => {
+        this.isPlaying = !state.paused;
+        this.callbacks.onStateChanged(this.isPlaying);
+      }),
+
+      player.onFrameChanged.subscribe((frame) => {
+        this.lastFrame = frame;
+        this.callbacks.onFrameChanged(frame);
+      }),
+
+      player.onDurationChanged.subscribe((duration) => {
+        this.duration = duration;
+        this.callbacks.onDurationChanged(duration);
+      }),
+
+      player.playback.onScenesRecalculated.subscribe((scenes) => {
+        const sceneInfos = scenes.map((scene) => ({
+          name: scene.name,
+          firstFrame: scene.firstFrame,
+          lastFrame: scene.lastFrame,
+          events: scene.timeEvents.onChanged.current.map((event) => ({
+            name: event.name,
+            initialTime: event.initialTime,
+            targetTime: event.targetTime,
+            offset: event.offset,
+          })),
+        }));
+        this.callbacks.onScenesChanged(sceneInfos);
+        this.syncSavedTimeEvents(sceneInfos);
+      }),
+
+      player.audio.onDataChanged.subscribe((data) => {
+        this.callbacks.onAudioDataChanged(data);
+      }),
+
+      player.playback.onSceneChanged.subscribe((scene) => {
+        this.callbacks.onCurrentSceneChanged(
+          player.playback.onScenesRecalculated.current.indexOf(scene),
+        );
+      }),
+    );
+  }
 
-    this.player.onFrameChanged.subscribe((frame) => {
-      this.lastFrame = frame;
-      this.callbacks.onFrameChanged(frame);
-    });
+  /**
+   * Record the adjusted time events of the running scenes and notify when
+   * they differ from what was saved. The placeholder scene shown before the
+   * first compile is skipped so it cannot wipe events restored from the URL.
+   */
+  private syncSavedTimeEvents(scenes: SceneInfo[]): void {
+    if (!this.hasUserScenes) return;
+
+    const saved: SavedTimeEvents = {};
+    for (const scene of scenes) {
+      const adjusted = scene.events
+        .filter((event) => event.offset > 0)
+        .map((event) => ({ name: event.name, targetTime: event.targetTime }));
+      if (adjusted.length > 0) {
+        saved[scene.name] = adjusted;
+      }
+    }
 
-    this.player.onDurationChanged.subscribe((duration) => {
-      this.duration = duration;
-      this.callbacks.onDurationChanged(duration);
-    });
+    if (JSON.stringify(saved) !== JSON.stringify(this.savedTimeEvents)) {
+      this.savedTimeEvents = saved;
+      this.callbacks.onTimeEventsChanged(saved);
+    }
   }
 
   private async render(): Promise<void> {
@@ -166,21 +337,45 @@ export class MotionCanvasPlayer {
     });
   }
 
+  /**
+   * Replace the running scenes with a newly compiled default export, which
+   * may be a single scene or an ordered list of scenes
+   */
   async updateScene(newScene: any): Promise<void> {
-    if (!this.sceneDescription || !this.project || !this.player) {
+    if (!this.project || !this.player) {
       throw new Error("Player not initialized");
     }
 
+    const newScenes = resolveSceneDescriptions(newScene);
     const wasPlaying = this.isPlaying;
     const currentFrame = this.lastFrame;
+    this.hasUserScenes = true;
+
+    // Scenes keep the name they were created with, so renaming or
+    // reordering them also requires a new player
+    const sameScenes =
+      newScenes.length === this.sceneDescriptions.length &&
+      newScenes.every(
+        (scene, index) => scene.name === this.sceneDescriptions[index].name,
+      );
 
-    const updatedDescription = {
-      ...this.sceneDescription.onReplaced.current,
-      ...newScene,
-      size: this.project.meta.shared.size.get(),
-    };
+    if (sameScenes) {
+      newScenes.forEach((scene, index) => {
+        const description = this.sceneDescriptions[index];
+        description.onReplaced.current = {
+          ...description.onReplaced.current,
+          ...scene,
+          size: this.project!.meta.shared.size.get(),
+        };
+      });
+    } else {
+      this.sceneDescriptions = newScenes.map((scene) =>
+        this.createSceneDescription(scene),
+      );
+      this.createPlayer();
+      await this.waitForInitialCalculation();
+    }
 
-    this.sceneDescription.onReplaced.current = updatedDescription;
     this.player.requestReset();
 
     await new Promise((resolve) => setTimeout(resolve, 100));
@@ -219,9 +414,14 @@ export class MotionCanvasPlayer {
     height?: number;
     fps?: number;
     background?: string | null;
+    audioOffset?: number;
   }): Promise<void> {
     if (!this.project || !this.stage) return;
 
+    if (settings.audioOffset !== undefined) {
+      this.setAudioOffset(settings.audioOffset);
+    }
+
     if (settings.width && settings.height) {
       const size = new Vector2(settings.width, settings.height);
       this.project.meta.shared.size.set(size);
@@ -254,7 +454,7 @@ export class MotionCanvasPlayer {
           fps: settings.fps,
           size: this.project.meta.shared.size.get(),
           range: [0, Infinity],
-          audioOffset: 0,
+          audioOffset: this.audioOffset,
           resolutionScale: 1,
         } as any);
 
@@ -297,6 +497,21 @@ export class MotionCanvasPlayer {
     }
   }
 
+  /**
+   * Create a renderer for exporting the current scenes without touching
+   * the preview
+   */
+  createOffscreenRenderer(resolutionScale = 1): OffscreenRenderer {
+    if (!this.project) {
+      throw new Error("Player not initialized");
+    }
+    return new OffscreenRenderer(
+      this.project,
+      this.sceneDescriptions,
+      resolutionScale,
+    );
+  }
+
   get currentFrame(): number {
     return this.lastFrame;
   }
@@ -309,6 +524,88 @@ export class MotionCanvasPlayer {
     return this.isPlaying;
   }
 
+  /**
+   * Seek to the first frame of the scene at the given index
+   */
+  seekToScene(index: number): void {
+    const scene = this.player?.playback.onScenesRecalculated.current[index];
+    if (scene) {
+      this.seek(scene.firstFrame);
+    }
+  }
+
+  /**
+   * Move a time event by changing its offset (seconds after the moment the
+   * scene reached `waitUntil`). With `preserve`, later events keep their
+   * absolute timing instead of shifting along.
+   */
+  setTimeEventOffset(
+    sceneIndex: number,
+    name: string,
+    offset: number,
+    preserve = false,
+  ): void {
+    const scene =
+      this.player?.playback.onScenesRecalculated.current[sceneIndex];
+    if (scene) {
+      scene.timeEvents.set(name, Math.max(0, offset), preserve);
+    }
+  }
+
+  /**
+   * Restore adjusted time events, e.g. from the URL. Scenes are matched by
+   * name; running scenes are reloaded with the new timing.
+   */
+  setSavedTimeEvents(events: SavedTimeEvents): void {
+    this.savedTimeEvents = events;
+
+    const scenes = this.player?.playback.onScenesRecalculated.current ?? [];
+    for (const scene of scenes) {
+      if (events[scene.name]) {
+        scene.meta.timeEvents.set(events[scene.name]);
+      }
+    }
+  }
+
+  /**
+   * Attach an audio file that plays in sync with the animation, or remove
+   * the current one by passing null
+   */
+  setAudioTrack(file: File | null): void {
+    if (this.audioUrl) {
+      URL.revokeObjectURL(this.audioUrl);
+    }
+
+    this.audioFile = file;
+    this.audioUrl = file ? URL.createObjectURL(file) : null;
+
+    if (this.project) {
+      this.project.audio = this.audioUrl ?? undefined;
+    }
+
+    if (this.player) {
+      this.player.audio.setSource(this.audioUrl ?? "");
+      this.player.toggleAudio(file !== null);
+    }
+  }
+
+  /**
+   * Shift the audio track in seconds; positive values start it later
+   */
+  setAudioOffset(offset: number): void {
+    this.audioOffset = offset;
+    this.player?.audio.setOffset(offset);
+    this.player?.requestSeek(this.lastFrame);
+  }
+
+  get audioTrack(): File | null {
+    return this.audioFile;
+  }
+
+  get currentAudioOffset(): number {
+    return this.audioOffset;
+  }
+
   get currentFps(): number {
     if (!this.project) return 30;
     return this.project.meta.preview.fps.get();
@@ -1,30 +1,34 @@
-export interface ExportSettings {
-  quality: number;
+import { ZipWriter } from "./zip-writer";
+
+export interface PNGSequenceExportSettings {
   fps: number;
-  videoBitrate: number;
-  videoCodec: string;
+  scale: number; // resolution scale factor, applied when rendering
+  /** Fill color behind each frame, or null to keep the alpha channel */
+  background: string | null;
 }
 
-export interface ExportCallbacks {
+export interface PNGSequenceExportCallbacks {
   onProgress: (progress: number) => void;
   onComplete: (blob: Blob) => void;
   onError: (error: string) => void;
 }
 
-export class MP4Exporter {
-  private output: any = null;
-  private canvasSource: any = null;
+export class PNGSequenceExporter {
+  private zip: ZipWriter | null = null;
   private isExporting = false;
   private abortController: AbortController | null = null;
   private canvas: HTMLCanvasElement | null = null;
   private context: CanvasRenderingContext2D | null = null;
   private frameCount = 0;
   private totalFrames = 0;
-  private settings: ExportSettings;
-  private callbacks: ExportCallbacks;
-  private mediaBunny: any = null;
-
-  constructor(settings: ExportSettings, callbacks: ExportCallbacks) {
+  private padding = 4;
+  private settings: PNGSequenceExportSettings;
+  private callbacks: PNGSequenceExportCallbacks;
+
+  constructor(
+    settings: PNGSequenceExportSettings,
+    callbacks: PNGSequenceExportCallbacks,
+  ) {
     this.settings = settings;
     this.callbacks = callbacks;
   }
@@ -45,14 +49,10 @@ export class MP4Exporter {
     // Duration is in frames at sourceFps, convert to seconds then to frames at export fps
     const durationInSeconds = duration / sourceFps;
     this.totalFrames = Math.ceil(durationInSeconds * this.settings.fps);
+    // Pad so file names sort correctly: frame-0000.png, frame-0001.png, ...
+    this.padding = Math.max(4, String(this.totalFrames - 1).length);
 
     try {
-      // Dynamically import MediaBunny
-      this.mediaBunny = await import("mediabunny");
-      const { Output, BufferTarget, CanvasSource, Mp4OutputFormat } =
-        this.mediaBunny;
-
-      // Create canvas for frame capture
       this.canvas = document.createElement("canvas");
       this.canvas.width = width;
       this.canvas.height = height;
@@ -62,35 +62,14 @@ export class MP4Exporter {
         throw new Error("Failed to get canvas context");
       }
 
-      // Create MediaBunny components
-      const target = new BufferTarget();
-      const format = new Mp4OutputFormat();
-
-      // Create output with correct format
-      this.output = new Output({
-        format: format,
-        target: target,
-      });
-
-      // Create canvas source
-      this.canvasSource = new CanvasSource(this.canvas, {
-        codec: "avc", // Use standard codec name
-        bitrate: this.settings.videoBitrate,
-      });
-
-      // Add video track with frame rate
-      this.output.addVideoTrack(this.canvasSource, {
-        frameRate: this.settings.fps,
-      });
-
-      // Start the export
-      await this.output.start();
-
+      this.zip = new ZipWriter();
       this.callbacks.onProgress(0);
     } catch (error) {
       this.isExporting = false;
+      // Nothing is rendered for an export that failed to start
+      this.abortController?.abort();
       this.callbacks.onError(
-        `Failed to start export: ${
+        `Failed to start PNG export: ${
           error instanceof Error ? error.message : String(error)
         }`,
       );
@@ -103,18 +82,16 @@ export class MP4Exporter {
     }
 
     // Check all required objects are still available (not cleaned up)
-    if (!this.context || !this.canvas || !this.canvasSource || !this.output) {
+    if (!this.context || !this.canvas || !this.zip) {
       return;
     }
 
     try {
-      // Check for abort before processing
-      if (this.abortController?.signal.aborted) {
-        return;
-      }
-
-      // Copy frame from source canvas to export canvas
       this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+      if (this.settings.background) {
+        this.context.fillStyle = this.settings.background;
+        this.context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      }
       this.context.drawImage(
         sourceCanvas,
         0,
@@ -123,12 +100,23 @@ export class MP4Exporter {
         this.canvas.height,
       );
 
-      // Calculate timestamp and duration for this frame
-      const timestampInSeconds = this.frameCount / this.settings.fps;
-      const durationInSeconds = 1 / this.settings.fps;
+      const blob = await new Promise<Blob | null>((resolve) =>
+        this.canvas!.toBlob(resolve, "image/png"),
+      );
+      if (!blob) {
+        throw new Error("Failed to encode PNG");
+      }
+
+      // The export may have been cancelled while the frame was encoding
+      if (!this.zip || this.abortController?.signal.aborted) {
+        return;
+      }
 
-      // Add frame to MediaBunny with timestamp and duration
-      this.canvasSource.add(timestampInSeconds, durationInSeconds);
+      const index = String(this.frameCount).padStart(this.padding, "0");
+      this.zip.addFile(
+        `frame-${index}.png`,
+        new Uint8Array(await blob.arrayBuffer()),
+      );
 
       this.frameCount++;
       const progress =
@@ -149,7 +137,7 @@ export class MP4Exporter {
   async stop(): Promise<void> {
     if (
       !this.isExporting ||
-      !this.output ||
+      !this.zip ||
       this.abortController?.signal.aborted
     ) {
       return;
@@ -157,20 +145,13 @@ export class MP4Exporter {
 
     try {
       this.callbacks.onProgress(95);
-
-      // Finalize the export
-      await this.output.finalize();
-
-      // Get the buffer from the target
-      const videoFile = this.output.target.buffer;
-      const blob = new Blob([videoFile], { type: "video/mp4" });
-
+      const blob = this.zip.finish();
       this.callbacks.onProgress(100);
       this.callbacks.onComplete(blob);
     } catch (error) {
       if (!this.abortController?.signal.aborted) {
         this.callbacks.onError(
-          `Failed to finalize export: ${
+          `Failed to finalize PNG export: ${
             error instanceof Error ? error.message : String(error)
           }`,
         );
@@ -187,16 +168,13 @@ export class MP4Exporter {
 
     // Signal abort to all operations
     this.abortController?.abort();
-
-    // Cleanup will happen in the next addFrame or stop call
     this.cleanup();
   }
 
   private cleanup(): void {
     this.isExporting = false;
     this.abortController = null;
-    this.output = null;
-    this.canvasSource = null;
+    this.zip = null;
     this.canvas = null;
     this.context = null;
     this.frameCount = 0;
@@ -213,14 +191,3 @@ export class MP4Exporter {
     return this.abortController?.signal;
   }
 }
-
-export function downloadBlob(blob: Blob, filename: string): void {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
-}
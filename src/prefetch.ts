@@ -4,6 +4,7 @@
  */
 
 import type { LazyModules } from "./lazy-imports";
+import { BUNDLED_PACKAGES } from "./package-registry";
 
 /**
  * Prefetch commonly used library chunks during idle time
@@ -33,63 +34,19 @@ export function schedulePrefetch(modules: LazyModules): void {
 
   console.log("[Prefetch] Scheduling chunk prefetch during idle time");
 
-  // Prefetch lezer parsers (highest value - 17 chunks, relatively small)
-  scheduleIdle(async () => {
-    try {
-      console.log("[Prefetch] Loading lezer parsers...");
-      await modules.loadLezer();
-      console.log("[Prefetch] Lezer parsers cached");
-    } catch (error) {
-      console.warn("[Prefetch] Failed to prefetch lezer:", error);
-    }
-  });
-
-  // Prefetch shiki (medium priority, single chunk)
-  scheduleIdle(async () => {
-    try {
-      console.log("[Prefetch] Loading shiki...");
-      await modules.loadShiki();
-      console.log("[Prefetch] Shiki cached");
-    } catch (error) {
-      console.warn("[Prefetch] Failed to prefetch shiki:", error);
-    }
-  });
-
-  // Prefetch ShikiHighlighter (local module)
-  scheduleIdle(async () => {
-    try {
-      console.log("[Prefetch] Loading ShikiHighlighter...");
-      await modules.loadShikiHighlighter();
-      console.log("[Prefetch] ShikiHighlighter cached");
-    } catch (error) {
-      console.warn("[Prefetch] Failed to prefetch ShikiHighlighter:", error);
-    }
-  });
-
-  // Prefetch three.js (lower priority, larger chunk)
-  scheduleIdle(async () => {
-    try {
-      console.log("[Prefetch] Loading three.js...");
-      await modules.loadThree();
-      console.log("[Prefetch] Three.js cached");
-    } catch (error) {
-      console.warn("[Prefetch] Failed to prefetch three.js:", error);
-    }
-  });
-
-  // Prefetch motion-canvas-graphing
-  scheduleIdle(async () => {
-    try {
-      console.log("[Prefetch] Loading motion-canvas-graphing...");
-      await modules.loadMotionCanvasGraphing();
-      console.log("[Prefetch] Motion-canvas-graphing cached");
-    } catch (error) {
-      console.warn(
-        "[Prefetch] Failed to prefetch motion-canvas-graphing:",
-        error,
-      );
-    }
-  });
+  for (const pkg of BUNDLED_PACKAGES) {
+    if (!pkg.prefetch) continue;
+
+    scheduleIdle(async () => {
+      try {
+        console.log(`[Prefetch] Loading ${pkg.name}...`);
+        await modules.loadBundledPackage(pkg.name);
+        console.log(`[Prefetch] ${pkg.name} cached`);
+      } catch (error) {
+        console.warn(`[Prefetch] Failed to prefetch ${pkg.name}:`, error);
+      }
+    });
+  }
 }
 
 /**
@@ -0,0 +1,107 @@
+/**
+ * Project Files Module
+ *
+ * A fiddle project is a flat map of relative file paths to their contents.
+ * The entry file default-exports the scene; every other file is reached
+ * through relative imports such as `./components/Card`.
+ */
+
+export type ProjectFiles = Record<string, string>;
+
+/** Path of the file that must default-export the scene */
+export const ENTRY_FILE = "fiddle.tsx";
+
+// Candidates tried, in order, when resolving an extensionless import
+const RESOLVE_SUFFIXES = ["", ".tsx", ".ts", "/index.tsx", "/index.ts"];
+
+const SOURCE_FILE_PATTERN = /^[\w\-./]+\.tsx?$/;
+
+/**
+ * Create a project containing only the entry file
+ */
+export function singleFileProject(code: string): ProjectFiles {
+  return { [ENTRY_FILE]: code };
+}
+
+/**
+ * Normalize a path: strip leading "./" and "/", collapse "." and ".." segments
+ */
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") {
+      continue;
+    }
+    if (segment === "..") {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join("/");
+}
+
+/**
+ * Check whether a user-supplied path is usable as a project file name
+ */
+export function isValidFilePath(path: string): boolean {
+  if (!SOURCE_FILE_PATTERN.test(path)) {
+    return false;
+  }
+
+  // Reject paths that try to escape the project root or contain empty segments
+  return path
+    .split("/")
+    .every((segment) => segment !== "" && segment !== "." && segment !== "..");
+}
+
+/**
+ * Check whether an import specifier is relative to the importing file
+ */
+export function isRelativeSpecifier(specifier: string): boolean {
+  return specifier.startsWith("./") || specifier.startsWith("../");
+}
+
+/**
+ * Resolve a relative import to a project file path
+ * @returns The resolved path, or null when no project file matches
+ */
+export function resolveRelativeImport(
+  importer: string,
+  specifier: string,
+  files: ProjectFiles,
+): string | null {
+  const importerDir = importer.includes("/")
+    ? importer.slice(0, importer.lastIndexOf("/"))
+    : "";
+  const basePath = normalizePath(`${importerDir}/${specifier}`);
+
+  for (const suffix of RESOLVE_SUFFIXES) {
+    const candidate = `${basePath}${suffix}`;
+    if (candidate in files) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sort file paths with the entry file first, then alphabetically
+ */
+export function sortFilePaths(paths: string[]): string[] {
+  return [...paths].sort((a, b) => {
+    if (a === ENTRY_FILE) return -1;
+    if (b === ENTRY_FILE) return 1;
+    return a.localeCompare(b);
+  });
+}
+
+/**
+ * Concatenate all file contents (used for package and feature scanning)
+ */
+export function joinSources(files: ProjectFiles): string {
+  return Object.values(files).join("\n");
+}
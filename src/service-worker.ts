@@ -5,6 +5,7 @@
  * 1. Cross-origin isolation headers (COOP/COEP) for WebContainer support
  * 2. Intelligent caching strategies for performance
  * 3. Version-based cache management
+ * 4. Offline copies of the packages scenes import from ESM CDNs
  */
 
 /// <reference lib="webworker" />
@@ -26,6 +27,10 @@ const CACHES = {
 // Resources to cache on install
 const PRECACHE_URLS = ["./", "./index.html"];
 
+// Origins of the ESM CDN or package mirror the page's import map loads
+// modules from, as told by the page before it imports them
+let moduleOrigins = new Set<string>();
+
 // ============================================================================
 // INSTALL
 // ============================================================================
@@ -89,8 +94,12 @@ globalThis.addEventListener("fetch", (event) => {
   const request = event.request;
   const url = new URL(request.url);
 
-  // Only handle requests from our origin
+  // Only handle requests from our origin, apart from the modules of
+  // packages that scenes import from an ESM CDN or package mirror
   if (url.origin !== globalThis.location.origin) {
+    if (isModuleRequest(request) && moduleOrigins.has(url.origin)) {
+      event.respondWith(fetchModule(event));
+    }
     return;
   }
 
@@ -174,6 +183,48 @@ globalThis.addEventListener("fetch", (event) => {
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Whether a request loads an ES module. Module scripts are always fetched
+ * with CORS, unlike classic scripts.
+ */
+function isModuleRequest(request: Request): boolean {
+  return request.destination === "script" && request.mode === "cors";
+}
+
+/**
+ * Stale-while-revalidate for modules from an ESM CDN or package mirror, so
+ * imported packages load quickly and keep working offline, while
+ * unversioned URLs still pick up new releases
+ */
+async function fetchModule(event: FetchEvent): Promise<Response> {
+  const request = event.request;
+  const cache = await caches.open(CACHES.runtime);
+  const cached = await cache.match(request);
+
+  const update = (async (): Promise<Response> => {
+    const response = await fetch(request);
+    if (response.ok) {
+      try {
+        await cache.put(request, response.clone());
+      } catch (error) {
+        console.error("[SW] Error caching module:", request.url, error);
+      }
+    }
+    return response;
+  })();
+
+  if (cached) {
+    console.log("[SW] Serving module from cache:", request.url);
+    event.waitUntil(
+      update.catch((error) => {
+        console.warn("[SW] Failed to revalidate module:", request.url, error);
+      }),
+    );
+    return cached;
+  }
+  return update;
+}
+
 /**
  * Get cached response from appropriate cache
  */
@@ -246,6 +297,13 @@ async function applyCachingStrategy(
       await cache.put(request, response);
       return;
     }
+
+    // Cache other modules, like those of a package mirror (runtime cache)
+    if (isModuleRequest(request)) {
+      const cache = await caches.open(CACHES.runtime);
+      await cache.put(request, response);
+      return;
+    }
   } catch (error) {
     console.error("[SW] Error caching resource:", path, error);
   }
@@ -259,11 +317,16 @@ interface MessageEventData {
   type: string;
   key?: string;
   code?: string;
+  origins?: string[];
 }
 
 globalThis.addEventListener("message", (event) => {
   const data = event.data as MessageEventData;
 
+  if (data.type === "SET_MODULE_ORIGINS") {
+    moduleOrigins = new Set(data.origins);
+  }
+
   if (data.type === "CACHE_COMPILED_SCENE") {
     const { key, code } = data;
     if (!key || !code) return;
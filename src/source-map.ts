@@ -0,0 +1,220 @@
+/**
+ * Source maps for compiled scene modules
+ *
+ * Compiled modules are loaded from blob URLs, so stack traces point at
+ * generated code. Each module's source map is registered under its blob URL,
+ * which lets runtime errors be traced back to a line of a project file.
+ */
+
+/** A source map as produced by Babel and Vite (version 3) */
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+  names?: string[];
+  mappings: string;
+  file?: string;
+  sourceRoot?: string;
+}
+
+/** A position in a project file. Lines and columns start at 1. */
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * A decoded mapping segment: generated column, then the source index, line
+ * and column when the segment maps to a source
+ */
+type Segment = number[];
+
+interface RegisteredMap {
+  lines: Segment[][];
+  /** Project file for each source of the map, or null for other sources */
+  files: (string | null)[];
+}
+
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const BASE64_VALUES = new Map(
+  [...BASE64_CHARS].map((char, index) => [char, index]),
+);
+
+const INLINE_MAP_PATTERN =
+  /\n?\/\/# sourceMappingURL=data:application\/json;(?:charset=utf-8;)?base64,([A-Za-z0-9+/=]+)\s*$/;
+
+// Chromium frames look like "at fn (blob:...:12:5)", Firefox and Safari
+// frames like "fn@blob:...:12:5"
+const STACK_FRAME_PATTERN = /(blob:\S+?):(\d+):(\d+)/g;
+
+const registeredMaps = new Map<string, RegisteredMap>();
+
+/**
+ * Decode the VLQ mappings of a source map into segments per generated line,
+ * with absolute values instead of the relative ones that are stored
+ */
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  // Source index, line and column carry over from one line to the next
+  const state = [0, 0, 0];
+
+  for (const line of mappings.split(";")) {
+    const segments: Segment[] = [];
+    let column = 0;
+
+    for (const encoded of line.split(",")) {
+      if (!encoded) continue;
+
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of encoded) {
+        const digit = BASE64_VALUES.get(char);
+        if (digit === undefined) {
+          throw new Error(`Invalid source map character "${char}"`);
+        }
+        value += (digit & 0x1f) << shift;
+        if (digit & 0x20) {
+          shift += 5;
+        } else {
+          values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+
+      column += values[0];
+      const segment = [column];
+      if (values.length >= 4) {
+        for (let i = 0; i < 3; i++) {
+          state[i] += values[i + 1];
+          segment.push(state[i]);
+        }
+      }
+      segments.push(segment);
+    }
+
+    lines.push(segments.sort((a, b) => a[0] - b[0]));
+  }
+
+  return lines;
+}
+
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(data: string): string {
+  const binary = atob(data);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * A comment embedding the map in the module it belongs to, so the browser's
+ * developer tools show the original source too
+ */
+export function createInlineSourceMap(map: RawSourceMap): string {
+  return `\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${encodeBase64(
+    JSON.stringify(map),
+  )}`;
+}
+
+/**
+ * Read the source map embedded at the end of a module, if any
+ */
+export function extractInlineSourceMap(code: string): RawSourceMap | null {
+  const match = INLINE_MAP_PATTERN.exec(code);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(decodeBase64(match[1]));
+  } catch (error) {
+    console.warn("Failed to read inline source map:", error);
+    return null;
+  }
+}
+
+/**
+ * Register the source map of a module loaded from a blob URL
+ *
+ * @param resolveFile - Turns a source of the map into a project file path, or
+ *                      null for sources that are not part of the project
+ */
+export function registerSourceMap(
+  url: string,
+  map: RawSourceMap,
+  resolveFile: (source: string) => string | null = (source) => source,
+): void {
+  try {
+    registeredMaps.set(url, {
+      lines: decodeMappings(map.mappings),
+      files: map.sources.map(resolveFile),
+    });
+  } catch (error) {
+    console.warn("Failed to register source map:", error);
+  }
+}
+
+/**
+ * Forget the maps of previously compiled modules
+ */
+export function clearSourceMaps(): void {
+  registeredMaps.clear();
+}
+
+function lookup(
+  map: RegisteredMap,
+  line: number,
+  column: number,
+): SourceLocation | null {
+  const segments = map.lines[line - 1];
+  if (!segments) {
+    return null;
+  }
+
+  // The last segment starting at or before the column covers it
+  let found: Segment | null = null;
+  for (const segment of segments) {
+    if (segment[0] > column - 1) break;
+    found = segment;
+  }
+  if (!found || found.length < 4) {
+    return null;
+  }
+
+  const file = map.files[found[1]];
+  if (!file) {
+    return null;
+  }
+
+  return { file, line: found[2] + 1, column: found[3] + 1 };
+}
+
+/**
+ * Find where in the project an error was thrown, from the innermost stack
+ * frame that belongs to a compiled module
+ */
+export function mapStackTrace(stack: string): SourceLocation | null {
+  for (const match of stack.matchAll(STACK_FRAME_PATTERN)) {
+    const map = registeredMaps.get(match[1]);
+    if (!map) continue;
+
+    const location = lookup(map, Number(match[2]), Number(match[3]));
+    if (location) {
+      return location;
+    }
+  }
+
+  return null;
+}
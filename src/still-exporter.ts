@@ -0,0 +1,79 @@
+export type StillFormat = "png" | "jpeg" | "webp";
+
+export interface StillExportSettings {
+  format: StillFormat;
+  quality: number; // 0-1, used by JPEG and WebP
+  scale: number; // resolution scale factor, applied when rendering
+  /** Fill color behind the frame, or null to keep the alpha channel */
+  background: string | null;
+}
+
+/** The resolution scales exports allow, relative to the project resolution */
+export const MIN_EXPORT_SCALE = 0.1;
+export const MAX_EXPORT_SCALE = 8;
+
+export const STILL_EXTENSIONS: Record<StillFormat, string> = {
+  png: "png",
+  jpeg: "jpg",
+  webp: "webp",
+};
+
+/**
+ * Whether images can be put on the clipboard. Browsers only accept PNG.
+ */
+export function canCopyImages(): boolean {
+  return typeof ClipboardItem !== "undefined" && !!navigator.clipboard?.write;
+}
+
+/**
+ * Encode a rendered frame in the requested format
+ */
+export async function encodeStill(
+  source: HTMLCanvasElement,
+  settings: StillExportSettings,
+): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const context = canvas.getContext("2d");
+
+  if (!context) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  if (settings.background) {
+    context.fillStyle = settings.background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(source, 0, 0);
+
+  const type = `image/${settings.format}`;
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, type, settings.quality),
+  );
+
+  // Browsers fall back to PNG for types they cannot encode
+  if (!blob || blob.type !== type) {
+    throw new Error(
+      `This browser cannot encode ${settings.format.toUpperCase()} images`,
+    );
+  }
+
+  return blob;
+}
+
+/**
+ * Put a PNG image on the clipboard. The clipboard is claimed before the image
+ * is produced, while the user gesture that started the copy is still active.
+ */
+export async function copyImageToClipboard(
+  createImage: () => Promise<Blob>,
+): Promise<void> {
+  if (!canCopyImages()) {
+    throw new Error("This browser cannot copy images to the clipboard");
+  }
+
+  await navigator.clipboard.write([
+    new ClipboardItem({ "image/png": createImage() }),
+  ]);
+}
@@ -0,0 +1,368 @@
+/**
+ * Type check worker
+ *
+ * Runs the TypeScript language service over the project files, against the
+ * declaration files of the bundled packages. Besides checking, it answers
+ * the editor's hover, go-to-definition and completion queries. Files live in a virtual
+ * file system: project files under /src and packages under /node_modules.
+ */
+
+/// <reference lib="webworker" />
+
+import ts from "typescript";
+import type { CompileDiagnostic } from "./compiler";
+import type { ProjectFiles } from "./project-files";
+import type {
+  CompletionDetails,
+  CompletionList,
+  DefinitionLocation,
+  QuickInfo,
+  TypeCheckRequest,
+  TypeCheckResponse,
+} from "./type-checker";
+import { AMBIENT_DECLARATIONS, TYPE_DEFINITIONS } from "./type-definitions";
+
+declare const self: DedicatedWorkerGlobalScope;
+
+const SOURCE_ROOT = "/src/";
+const AMBIENT_FILE = "/fiddle-env.d.ts";
+
+// Errors the compiler already reports: unknown names and missing modules.
+// Packages that are installed in the WebContainer have no declarations here.
+const IGNORED_CODES = new Set([2304, 2307]);
+
+// Mirrors the configuration of Motion Canvas projects
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ["lib.es2020.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+  jsx: ts.JsxEmit.ReactJSX,
+  jsxImportSource: "@motion-canvas/2d/lib",
+  noImplicitAny: true,
+  experimentalDecorators: true,
+  allowSyntheticDefaultImports: true,
+  resolveJsonModule: true,
+  skipLibCheck: true,
+  noEmit: true,
+  types: [],
+};
+
+const PREFERENCES: ts.UserPreferences = {
+  includeCompletionsForModuleExports: true,
+  includeCompletionsWithInsertText: true,
+  importModuleSpecifierPreference: "non-relative",
+};
+
+const FORMAT_OPTIONS: ts.FormatCodeSettings = {
+  ...ts.getDefaultFormatCodeSettings(),
+  indentSize: 2,
+  tabSize: 2,
+  convertTabsToSpaces: true,
+};
+
+// Standard decorators are checked without experimentalDecorators
+let compilerOptions = COMPILER_OPTIONS;
+
+let files: ProjectFiles = {};
+const versions = new Map<string, number>();
+
+// Every directory that holds a declaration file, for module resolution
+const directories = new Set<string>();
+for (const path of Object.keys(TYPE_DEFINITIONS)) {
+  for (let index = path.indexOf("/", 1); index !== -1; ) {
+    directories.add(path.slice(0, index));
+    index = path.indexOf("/", index + 1);
+  }
+}
+
+function readFile(fileName: string): string | undefined {
+  if (fileName.startsWith(SOURCE_ROOT)) {
+    return files[fileName.slice(SOURCE_ROOT.length)];
+  }
+  if (fileName === AMBIENT_FILE) {
+    return AMBIENT_DECLARATIONS;
+  }
+  return TYPE_DEFINITIONS[fileName];
+}
+
+const host: ts.LanguageServiceHost = {
+  getCompilationSettings: () => compilerOptions,
+  getScriptFileNames: () => [
+    AMBIENT_FILE,
+    ...Object.keys(files).map((path) => SOURCE_ROOT + path),
+  ],
+  getScriptVersion: (fileName) => String(versions.get(fileName) ?? 0),
+  getScriptSnapshot: (fileName) => {
+    const text = readFile(fileName);
+    return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+  },
+  getCurrentDirectory: () => "/",
+  getDefaultLibFileName: (options) =>
+    `/node_modules/typescript/lib/${ts.getDefaultLibFileName(options)}`,
+  fileExists: (fileName) => readFile(fileName) !== undefined,
+  readFile,
+  directoryExists: (directory) =>
+    directory === "/src" ||
+    directory.startsWith(SOURCE_ROOT) ||
+    directories.has(directory),
+  getDirectories: () => [],
+};
+
+const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+/**
+ * Replace the project files, bumping the version of the files that changed
+ * so the language service only parses those again
+ */
+function updateFiles(next: ProjectFiles): void {
+  for (const [path, content] of Object.entries(next)) {
+    if (files[path] !== content) {
+      const fileName = SOURCE_ROOT + path;
+      versions.set(fileName, (versions.get(fileName) ?? 0) + 1);
+    }
+  }
+  files = next;
+}
+
+function check(): CompileDiagnostic[] {
+  const diagnostics: CompileDiagnostic[] = [];
+
+  for (const path of Object.keys(files)) {
+    for (const diagnostic of service.getSemanticDiagnostics(
+      SOURCE_ROOT + path,
+    )) {
+      if (
+        diagnostic.category !== ts.DiagnosticCategory.Error ||
+        IGNORED_CODES.has(diagnostic.code)
+      ) {
+        continue;
+      }
+
+      const from = diagnostic.start ?? 0;
+      diagnostics.push({
+        file: path,
+        from,
+        to: from + (diagnostic.length ?? 0),
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+function getQuickInfo(file: string, position: number): QuickInfo | null {
+  const info = service.getQuickInfoAtPosition(SOURCE_ROOT + file, position);
+  if (!info) {
+    return null;
+  }
+
+  const tags = (info.tags ?? []).map((tag) =>
+    [`@${tag.name}`, ts.displayPartsToString(tag.text)].join(" ").trim(),
+  );
+  return {
+    from: info.textSpan.start,
+    to: info.textSpan.start + info.textSpan.length,
+    signature: ts.displayPartsToString(info.displayParts),
+    documentation: [ts.displayPartsToString(info.documentation), ...tags]
+      .filter(Boolean)
+      .join("\n\n"),
+  };
+}
+
+function getDefinition(
+  file: string,
+  position: number,
+): DefinitionLocation | null {
+  const [definition] =
+    service.getDefinitionAtPosition(SOURCE_ROOT + file, position) ?? [];
+  if (!definition) {
+    return null;
+  }
+
+  const { fileName, textSpan } = definition;
+  const from = textSpan.start;
+  const to = textSpan.start + textSpan.length;
+  if (fileName.startsWith(SOURCE_ROOT)) {
+    return {
+      kind: "project",
+      file: fileName.slice(SOURCE_ROOT.length),
+      from,
+      to,
+    };
+  }
+
+  const content = readFile(fileName);
+  return content === undefined
+    ? null
+    : { kind: "library", file: fileName, from, to, content };
+}
+
+function getCompletions(file: string, position: number): CompletionList | null {
+  const info = service.getCompletionsAtPosition(
+    SOURCE_ROOT + file,
+    position,
+    PREFERENCES,
+  );
+  if (!info) {
+    return null;
+  }
+
+  const span = info.optionalReplacementSpan;
+  return {
+    from: span?.start,
+    to: span && span.start + span.length,
+    isMemberCompletion: info.isMemberCompletion,
+    entries: info.entries.map((entry) => ({
+      name: entry.name,
+      kind: entry.kind,
+      sortText: entry.sortText,
+      insertText: entry.insertText,
+      from: entry.replacementSpan?.start,
+      to:
+        entry.replacementSpan &&
+        entry.replacementSpan.start + entry.replacementSpan.length,
+      module: entry.sourceDisplay
+        ? ts.displayPartsToString(entry.sourceDisplay)
+        : undefined,
+      hasAction: entry.hasAction ?? false,
+      source: entry.source,
+      data: entry.data,
+    })),
+  };
+}
+
+function getCompletionDetails(
+  file: string,
+  position: number,
+  entry: Extract<TypeCheckRequest, { type: "completionDetails" }>["entry"],
+): CompletionDetails | null {
+  const fileName = SOURCE_ROOT + file;
+  const details = service.getCompletionEntryDetails(
+    fileName,
+    position,
+    entry.name,
+    FORMAT_OPTIONS,
+    entry.source,
+    PREFERENCES,
+    entry.data,
+  );
+  if (!details) {
+    return null;
+  }
+
+  // Signals are properties, so their getter and setter overloads only show
+  // up in the signatures of their type
+  const callSignatures: string[] = [];
+  const symbol = service.getCompletionEntrySymbol(
+    fileName,
+    position,
+    entry.name,
+    entry.source,
+  );
+  const checker = service.getProgram()?.getTypeChecker();
+  if (symbol && checker && symbol.flags & ts.SymbolFlags.Property) {
+    for (const signature of checker
+      .getTypeOfSymbol(symbol)
+      .getCallSignatures()) {
+      callSignatures.push(checker.signatureToString(signature));
+    }
+  }
+
+  const edits = (details.codeActions ?? [])
+    .flatMap((action) => action.changes)
+    .filter((change) => change.fileName === fileName)
+    .flatMap((change) => change.textChanges)
+    .map(({ span, newText }) => ({
+      from: span.start,
+      to: span.start + span.length,
+      insert: newText,
+    }));
+
+  return {
+    signature: ts.displayPartsToString(details.displayParts),
+    documentation: ts.displayPartsToString(details.documentation),
+    callSignatures,
+    edits,
+  };
+}
+
+function post(message: TypeCheckResponse) {
+  self.postMessage(message);
+}
+
+function handle(request: TypeCheckRequest): TypeCheckResponse {
+  const { id } = request;
+  updateFiles(request.files);
+
+  switch (request.type) {
+    case "check":
+      compilerOptions = {
+        ...COMPILER_OPTIONS,
+        experimentalDecorators: request.decorators === "legacy",
+      };
+      return { type: "diagnostics", id, diagnostics: check() };
+    case "quickInfo":
+      return {
+        type: "quickInfo",
+        id,
+        info: getQuickInfo(request.file, request.position),
+      };
+    case "definition":
+      return {
+        type: "definition",
+        id,
+        definition: getDefinition(request.file, request.position),
+      };
+    case "completions":
+      return {
+        type: "completions",
+        id,
+        completions: getCompletions(request.file, request.position),
+      };
+    case "completionDetails":
+      return {
+        type: "completionDetails",
+        id,
+        details: getCompletionDetails(
+          request.file,
+          request.position,
+          request.entry,
+        ),
+      };
+  }
+}
+
+// Requests are handled in order, one per task so that requests sent during
+// a long check are all queued before the next one is handled
+const queue: TypeCheckRequest[] = [];
+
+function handleNext(): void {
+  const request = queue.shift();
+  if (!request) return;
+
+  // Checks are slow, so a check followed by another one is skipped
+  if (
+    request.type === "check" &&
+    queue.some((queued) => queued.type === "check")
+  ) {
+    post({ type: "superseded", id: request.id });
+    return;
+  }
+
+  try {
+    post(handle(request));
+  } catch (error) {
+    post({
+      type: "error",
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+self.onmessage = (event: MessageEvent<TypeCheckRequest>) => {
+  queue.push(event.data);
+  setTimeout(handleNext);
+};
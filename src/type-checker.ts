@@ -0,0 +1,263 @@
+import type { CompletionEntryData } from "typescript";
+import type { CompileDiagnostic, DecoratorVersion } from "./compiler";
+import type { ProjectFiles } from "./project-files";
+
+/** The type and documentation of the symbol at a position */
+export interface QuickInfo {
+  from: number;
+  to: number;
+  signature: string;
+  documentation: string;
+}
+
+/**
+ * Where a symbol is declared: in a project file, or in the typings of a
+ * bundled library, which come with their content since the editor doesn't
+ * have them
+ */
+export type DefinitionLocation =
+  | { kind: "project"; file: string; from: number; to: number }
+  | {
+      kind: "library";
+      file: string;
+      from: number;
+      to: number;
+      content: string;
+    };
+
+/** A completion offered by the language service */
+export interface CompletionEntry {
+  name: string;
+  /** The language service's kind, e.g. "class" or "enum member" */
+  kind: string;
+  sortText: string;
+  insertText?: string;
+  /** The range to replace when it isn't the word before the cursor */
+  from?: number;
+  to?: number;
+  /** The module an auto-import takes the name from */
+  module?: string;
+  /** Whether picking the entry also makes other edits, like an import */
+  hasAction: boolean;
+  source?: string;
+  data?: CompletionEntryData;
+}
+
+/** The completions at a position */
+export interface CompletionList {
+  from?: number;
+  to?: number;
+  isMemberCompletion: boolean;
+  entries: CompletionEntry[];
+}
+
+/** A text edit in the file completions were requested for */
+export interface TextEdit {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+/**
+ * What a completion entry is, along with the call signatures of properties
+ * that can be called (like signals), and the edits picking it makes besides
+ * inserting its name
+ */
+export interface CompletionDetails {
+  signature: string;
+  documentation: string;
+  callSignatures: string[];
+  edits: TextEdit[];
+}
+
+/** Messages sent to the type check worker */
+export type TypeCheckRequest =
+  | {
+      type: "check";
+      id: number;
+      files: ProjectFiles;
+      decorators: DecoratorVersion;
+    }
+  | {
+      type: "quickInfo" | "definition" | "completions";
+      id: number;
+      files: ProjectFiles;
+      file: string;
+      position: number;
+    }
+  | {
+      type: "completionDetails";
+      id: number;
+      files: ProjectFiles;
+      file: string;
+      position: number;
+      entry: Pick<CompletionEntry, "name" | "source" | "data">;
+    };
+
+/** Messages sent back by the type check worker */
+export type TypeCheckResponse =
+  | { type: "diagnostics"; id: number; diagnostics: CompileDiagnostic[] }
+  | { type: "quickInfo"; id: number; info: QuickInfo | null }
+  | { type: "definition"; id: number; definition: DefinitionLocation | null }
+  | { type: "completions"; id: number; completions: CompletionList | null }
+  | { type: "completionDetails"; id: number; details: CompletionDetails | null }
+  | { type: "superseded"; id: number }
+  | { type: "error"; id: number; message: string };
+
+interface PendingRequest {
+  resolve: (response: TypeCheckResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Type checks projects with the TypeScript language service, running in a
+ * worker so checks never hold up compilation or the editor. The worker is
+ * started on the first request.
+ */
+export class TypeChecker {
+  private worker: Worker | null = null;
+  private lastId = 0;
+  private lastCheckId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  /**
+   * Resolves with the type errors of the project files, or null when a newer
+   * check was requested before this one finished
+   */
+  async check(
+    files: ProjectFiles,
+    decorators: DecoratorVersion = "legacy",
+  ): Promise<CompileDiagnostic[] | null> {
+    const id = ++this.lastId;
+    this.lastCheckId = id;
+
+    const response = await this.request({
+      type: "check",
+      id,
+      files,
+      decorators,
+    });
+    return response.type === "diagnostics" && id === this.lastCheckId
+      ? response.diagnostics
+      : null;
+  }
+
+  async getQuickInfo(
+    files: ProjectFiles,
+    file: string,
+    position: number,
+  ): Promise<QuickInfo | null> {
+    const id = ++this.lastId;
+    const response = await this.request({
+      type: "quickInfo",
+      id,
+      files,
+      file,
+      position,
+    });
+    return response.type === "quickInfo" ? response.info : null;
+  }
+
+  async getDefinition(
+    files: ProjectFiles,
+    file: string,
+    position: number,
+  ): Promise<DefinitionLocation | null> {
+    const id = ++this.lastId;
+    const response = await this.request({
+      type: "definition",
+      id,
+      files,
+      file,
+      position,
+    });
+    return response.type === "definition" ? response.definition : null;
+  }
+
+  async getCompletions(
+    files: ProjectFiles,
+    file: string,
+    position: number,
+  ): Promise<CompletionList | null> {
+    const id = ++this.lastId;
+    const response = await this.request({
+      type: "completions",
+      id,
+      files,
+      file,
+      position,
+    });
+    return response.type === "completions" ? response.completions : null;
+  }
+
+  async getCompletionDetails(
+    files: ProjectFiles,
+    file: string,
+    position: number,
+    entry: CompletionEntry,
+  ): Promise<CompletionDetails | null> {
+    const id = ++this.lastId;
+    const response = await this.request({
+      type: "completionDetails",
+      id,
+      files,
+      file,
+      position,
+      entry: { name: entry.name, source: entry.source, data: entry.data },
+    });
+    return response.type === "completionDetails" ? response.details : null;
+  }
+
+  private request(message: TypeCheckRequest): Promise<TypeCheckResponse> {
+    const worker = this.getWorker();
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject });
+      worker.postMessage(message);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(
+        new URL("./type-check-worker.ts", import.meta.url),
+        { type: "module" },
+      );
+      this.worker.onmessage = (event: MessageEvent<TypeCheckResponse>) =>
+        this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        // Drop the worker so the next request starts a new one
+        this.dispose(
+          new Error(event.message || "The type check worker failed to load"),
+        );
+      };
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: TypeCheckResponse): void {
+    const request = this.pending.get(message.id);
+    if (!request) return;
+    this.pending.delete(message.id);
+
+    if (message.type === "error") {
+      request.reject(new Error(message.message));
+    } else {
+      request.resolve(message);
+    }
+  }
+
+  /**
+   * Stop the worker. Requests still running are rejected.
+   */
+  dispose(error = new Error("Type checking was stopped")): void {
+    this.worker?.terminate();
+    this.worker = null;
+
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+}
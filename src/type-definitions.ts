@@ -0,0 +1,150 @@
+/**
+ * Declaration files for the type checker, keyed by their path in its virtual
+ * file system. Only the type check worker imports this module, so the files
+ * are downloaded when type checking starts.
+ */
+export const TYPE_DEFINITIONS = import.meta.glob(
+  [
+    "/node_modules/typescript/lib/lib.{es5,es2015*,es2016*,es2017*,es2018*,es2019*,es2020*,decorators*,dom,dom.iterable}.d.ts",
+    "/node_modules/@motion-canvas/{core,2d}/{package.json,lib/**/*.d.ts}",
+    "/node_modules/@hhenrichsen/canvas-commons/{package.json,lib/**/*.d.ts}",
+    "/node_modules/@types/three/{package.json,index.d.ts,src/**/*.d.ts}",
+    "/node_modules/@types/webxr/{package.json,index.d.ts}",
+    "/node_modules/shiki/{package.json,dist/*.d.mts}",
+    "/node_modules/@shikijs/{core,types,vscode-textmate,engine-javascript,engine-oniguruma}/{package.json,dist/*.d.mts}",
+    "/node_modules/@types/{chroma-js,hast,unist}/{package.json,*.d.ts}",
+    "/node_modules/@lezer/*/{package.json,dist/*.d.ts}",
+  ],
+  { query: "?raw", import: "default", eager: true },
+) as Record<string, string>;
+
+/**
+ * Declarations for bundled packages whose own typings cannot be used. The
+ * graphing package's declaration file embeds the Desmos sources, so its
+ * public API is repeated here.
+ */
+export const AMBIENT_DECLARATIONS = `
+declare module "@spidunno/motion-canvas-graphing" {
+  import type {
+    CanvasStyleSignal,
+    Layout,
+    LayoutProps,
+    Node,
+    NodeProps,
+    PossibleCanvasStyle,
+    Shape,
+    ShapeProps,
+  } from "@motion-canvas/2d";
+  import type {
+    Computed,
+    PossibleVector2,
+    SignalValue,
+    SimpleSignal,
+    Vector2,
+    Vector2Signal,
+  } from "@motion-canvas/core";
+
+  export interface MathExpressionProps extends NodeProps {
+    equation?: SignalValue<string>;
+    stroke?: SignalValue<PossibleCanvasStyle>;
+    fill?: SignalValue<PossibleCanvasStyle>;
+    lineWidth?: SignalValue<number>;
+    domain?: SignalValue<[number, number]>;
+    fillParametric?: SignalValue<boolean>;
+    lineDash?: SignalValue<number[]>;
+  }
+  /**
+   * Represents an expression in the underlying Desmos instance.
+   * Must be a child of \`MathGraphingCalculator\`
+   */
+  export class MathExpression extends Node {
+    readonly equation: SimpleSignal<string, this>;
+    readonly fillParametric: SimpleSignal<boolean, this>;
+    readonly lineDash: SimpleSignal<number[], this>;
+    readonly fn: SimpleSignal<(...args: number[]) => number | number[]>;
+    readonly fill: CanvasStyleSignal<this>;
+    readonly stroke: CanvasStyleSignal<this>;
+    readonly domain: SimpleSignal<[number, number], this>;
+    readonly lineWidth: SimpleSignal<number, this>;
+    readonly expressionId: string;
+    constructor(props?: MathExpressionProps);
+  }
+  /** Alias for {@link MathExpression} */
+  export const MathGraph: typeof MathExpression;
+
+  export interface MathGraphingCalculatorProps extends LayoutProps {
+    complex?: SignalValue<boolean>;
+    debug?: SignalValue<boolean>;
+  }
+  export class MathGraphingCalculator extends Layout {
+    calculator: unknown;
+    plots: Computed<Record<string, any>>;
+    readonly complex: SimpleSignal<boolean, this>;
+    readonly debug: SimpleSignal<boolean, this>;
+    constructor(props?: MathGraphingCalculatorProps);
+  }
+
+  export interface MathGridProps extends ShapeProps {
+    xAxisStroke?: SignalValue<PossibleCanvasStyle>;
+    yAxisStroke?: SignalValue<PossibleCanvasStyle>;
+    axesLineWidth?: SignalValue<number>;
+    spacing?: SignalValue<PossibleVector2>;
+    start?: SignalValue<number>;
+    end?: SignalValue<number>;
+    alpha?: SignalValue<number>;
+  }
+  export class MathGrid extends Shape {
+    readonly spacing: Vector2Signal<this>;
+    readonly alpha: SimpleSignal<number, this>;
+    readonly xAxisStroke: CanvasStyleSignal<this>;
+    readonly yAxisStroke: CanvasStyleSignal<this>;
+    readonly axesLineWidth: SimpleSignal<number, this>;
+    /** The percentage that should be clipped from the beginning of each grid line. */
+    readonly start: SimpleSignal<number, this>;
+    /** The percentage that should be clipped from the end of each grid line. */
+    readonly end: SimpleSignal<number, this>;
+    constructor(props: MathGridProps);
+  }
+
+  export interface MathSpaceProps extends LayoutProps {
+    minX?: SignalValue<number>;
+    minY?: SignalValue<number>;
+    min?: SignalValue<PossibleVector2>;
+    maxX?: SignalValue<number>;
+    maxY?: SignalValue<number>;
+    max?: SignalValue<PossibleVector2>;
+  }
+  export class MathSpace extends Layout {
+    readonly min: Vector2Signal<this>;
+    readonly max: Vector2Signal<this>;
+    constructor(props?: MathSpaceProps);
+    cs(): Vector2;
+    getPointFromPlotSpace(point: PossibleVector2): Vector2;
+  }
+
+  export interface MathAxisProps extends ShapeProps {
+    spacing?: SignalValue<number>;
+    start?: SignalValue<number>;
+    end?: SignalValue<number>;
+    alpha?: SignalValue<number>;
+    axis?: SignalValue<"x" | "y">;
+    displayZero?: SignalValue<boolean>;
+  }
+  export class MathAxis extends Shape {
+    readonly axis: SimpleSignal<string, this>;
+    readonly spacing: SimpleSignal<number, this>;
+    readonly alpha: SimpleSignal<number, this>;
+    /** The percentage that should be clipped from the beginning of each grid line. */
+    readonly start: SimpleSignal<number, this>;
+    readonly fontSize: SimpleSignal<number, this>;
+    /** The percentage that should be clipped from the end of each grid line. */
+    readonly end: SimpleSignal<number, this>;
+    readonly fill: CanvasStyleSignal<this>;
+    readonly stroke: CanvasStyleSignal<this>;
+    readonly lineWidth: SimpleSignal<number, this>;
+    readonly strokeFirst: SimpleSignal<boolean, this>;
+    readonly displayZero: SimpleSignal<boolean, this>;
+    constructor(props: MathAxisProps);
+  }
+}
+`;
@@ -0,0 +1,201 @@
+import type { EditorState, Extension } from "@codemirror/state";
+import { EditorView, hoverTooltip, keymap } from "@codemirror/view";
+import { syntaxTree } from "@codemirror/language";
+import { componentProps } from "./generated-component-props";
+import type { ProjectFiles } from "./project-files";
+import type {
+  DefinitionLocation,
+  QuickInfo,
+  TypeChecker,
+} from "./type-checker";
+import "./components/declaration-modal";
+
+/**
+ * What the hover and go-to-definition extensions need from the editor
+ */
+export interface TypeInfoSource {
+  checker: TypeChecker;
+  getFiles: () => ProjectFiles;
+  getActiveFile: () => string;
+  openFile: (path: string) => void;
+}
+
+/**
+ * Prop info from the generated component props, for when the type checker
+ * can't answer (e.g. its worker failed to load)
+ */
+function getPropInfo(state: EditorState, pos: number): QuickInfo | null {
+  const node = syntaxTree(state).resolveInner(pos, 1);
+  const attribute = node.parent;
+  if (node.name !== "JSXIdentifier" || attribute?.name !== "JSXAttribute") {
+    return null;
+  }
+
+  const tagName = attribute.parent?.getChild("JSXIdentifier");
+  if (!tagName) {
+    return null;
+  }
+
+  const component = state.sliceDoc(tagName.from, tagName.to);
+  const name = state.sliceDoc(node.from, node.to);
+  const prop = componentProps[component]?.find((prop) => prop.name === name);
+  if (!prop) {
+    return null;
+  }
+
+  return {
+    from: node.from,
+    to: node.to,
+    signature: `(property) ${name}: ${prop.type ?? "unknown"}`,
+    documentation: [
+      prop.description,
+      prop.defaultValue && `@defaultValue ${prop.defaultValue}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+  };
+}
+
+function renderQuickInfo(info: QuickInfo): HTMLElement {
+  const dom = document.createElement("div");
+  dom.className = "cm-type-info";
+
+  const signature = document.createElement("pre");
+  signature.className = "cm-type-info-signature";
+  signature.textContent = info.signature;
+  dom.append(signature);
+
+  if (info.documentation) {
+    const documentation = document.createElement("div");
+    documentation.className = "cm-type-info-documentation";
+    documentation.textContent = info.documentation;
+    dom.append(documentation);
+  }
+
+  return dom;
+}
+
+function showLibraryDefinition(
+  definition: Extract<DefinitionLocation, { kind: "library" }>,
+): void {
+  const modal = document.createElement("declaration-modal");
+  modal.declaration = definition;
+  modal.addEventListener("close", () => modal.remove());
+  document.body.appendChild(modal);
+}
+
+async function goToDefinition(
+  view: EditorView,
+  pos: number,
+  source: TypeInfoSource,
+): Promise<void> {
+  const definition = await source.checker.getDefinition(
+    source.getFiles(),
+    source.getActiveFile(),
+    pos,
+  );
+  if (!definition) {
+    return;
+  }
+
+  if (definition.kind === "library") {
+    showLibraryDefinition(definition);
+    return;
+  }
+
+  source.openFile(definition.file);
+  const length = view.state.doc.length;
+  view.dispatch({
+    selection: {
+      anchor: Math.min(definition.from, length),
+      head: Math.min(definition.to, length),
+    },
+    scrollIntoView: true,
+  });
+  view.focus();
+}
+
+/**
+ * Hover tooltips with the type and documentation of identifiers and JSX
+ * props, and go-to-definition on Ctrl/Cmd-click or F12
+ */
+export function typeInfo(source: TypeInfoSource): Extension {
+  const openDefinition = (view: EditorView, pos: number) => {
+    goToDefinition(view, pos, source).catch((error) => {
+      console.warn("Go to definition failed:", error);
+    });
+  };
+
+  return [
+    hoverTooltip(async (view, pos) => {
+      let info: QuickInfo | null = null;
+      try {
+        info = await source.checker.getQuickInfo(
+          source.getFiles(),
+          source.getActiveFile(),
+          pos,
+        );
+      } catch (error) {
+        console.warn("Type info failed:", error);
+      }
+
+      info = info ?? getPropInfo(view.state, pos);
+      if (!info) {
+        return null;
+      }
+
+      const dom = renderQuickInfo(info);
+      return {
+        pos: info.from,
+        end: info.to,
+        above: true,
+        create: () => ({ dom }),
+      };
+    }),
+    EditorView.domEventHandlers({
+      mousedown(event, view) {
+        if (event.button !== 0 || !(event.ctrlKey || event.metaKey)) {
+          return false;
+        }
+
+        const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+        if (pos === null) {
+          return false;
+        }
+
+        event.preventDefault();
+        openDefinition(view, pos);
+        return true;
+      },
+    }),
+    keymap.of([
+      {
+        key: "F12",
+        run: (view) => {
+          openDefinition(view, view.state.selection.main.head);
+          return true;
+        },
+      },
+    ]),
+    EditorView.baseTheme({
+      ".cm-type-info": {
+        maxWidth: "480px",
+        padding: "6px 8px",
+        fontSize: "12px",
+      },
+      ".cm-type-info-signature": {
+        margin: "0",
+        whiteSpace: "pre-wrap",
+        fontFamily: "monospace",
+        color: "var(--ctp-mocha-sky)",
+      },
+      ".cm-type-info-documentation": {
+        marginTop: "6px",
+        paddingTop: "6px",
+        borderTop: "1px solid var(--ctp-mocha-surface1)",
+        whiteSpace: "pre-wrap",
+        color: "var(--ctp-mocha-subtext1)",
+      },
+    }),
+  ];
+}
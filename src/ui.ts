@@ -25,16 +25,12 @@ export class UIController {
   setPlayer(player: MotionCanvasPlayer): void {
     this.player = player;
     this.currentFps = player.currentFps;
-    this.exportController = new ExportController(
-      player,
-      {
-        onProgress: (progress: ExportProgress) =>
-          this.updateExportProgress(progress),
-        onComplete: () => this.onExportComplete(),
-        onError: (error: string) => this.onExportError(error),
-      },
-      () => document.getElementById("canvas") as HTMLCanvasElement | null,
-    );
+    this.exportController = new ExportController(player, {
+      onProgress: (progress: ExportProgress) =>
+        this.updateExportProgress(progress),
+      onComplete: () => this.onExportComplete(),
+      onError: (error: string) => this.onExportError(error),
+    });
   }
 
   async initialize(): Promise<void> {
@@ -499,7 +495,8 @@ export class UIController {
       fps: parseInt(fpsSelect?.value || "30"),
       quality: parseFloat(qualitySelect?.value || "0.8"),
       videoBitrate: parseInt(bitrateSelect?.value || "5000000"),
-      videoCodec: "h264",
+      container: "mp4" as const,
+      videoCodec: "avc" as const,
     };
 
     // Show progress UI
@@ -512,7 +509,7 @@ export class UIController {
     if (cancelBtn) cancelBtn.style.display = "block";
 
     try {
-      await this.exportController.exportMP4(settings);
+      await this.exportController.exportVideo(settings);
     } catch (error) {
       this.onExportError(
         error instanceof Error ? error.message : String(error),
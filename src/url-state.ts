@@ -1,18 +1,35 @@
 import * as LZString from "lz-string";
+import { ENTRY_FILE, type ProjectFiles } from "./project-files";
+import {
+  MAX_EXPORT_SCALE,
+  MIN_EXPORT_SCALE,
+  type StillFormat,
+} from "./still-exporter";
 
 export interface ProjectSettings {
   width?: number;
   height?: number;
   fps?: number;
   background?: string | null;
+  /** Audio track offset in seconds */
+  audioOffset?: number;
 }
 
+/** Time events moved on the timeline, keyed by scene name */
+export type SavedTimeEvents = Record<
+  string,
+  { name: string; targetTime: number }[]
+>;
+
 export class URLStateManager {
   private static readonly FRAME_PARAM = "f";
   private static readonly CODE_PARAM = "c";
   private static readonly SETTINGS_PARAM = "s";
   private static readonly GIST_PARAM = "g";
   private static readonly SRC_PARAM = "src";
+  private static readonly FILES_PARAM = "p";
+  private static readonly TIME_EVENTS_PARAM = "t";
+  private static readonly STILL_PARAM = "still";
 
   static updateFrame(frame: number): void {
     const url = new URL(window.location.href);
@@ -27,7 +44,11 @@ export class URLStateManager {
     window.history.replaceState({}, "", url.toString());
   }
 
-  static updateCode(code: string): void {
+  /**
+   * Save single-file code
+   * @returns False when it's too large for the URL, which then holds no code
+   */
+  static updateCode(code: string): boolean {
     const url = new URL(window.location.href);
 
     if (code && code.trim()) {
@@ -44,7 +65,10 @@ export class URLStateManager {
         console.warn(
           "Code is too large to save in URL (would exceed length limit)",
         );
-        return;
+        // Older code left in the URL would be restored on reload
+        url.searchParams.delete(this.CODE_PARAM);
+        window.history.replaceState({}, "", url.toString());
+        return false;
       }
 
       url.searchParams.set(this.CODE_PARAM, compressed);
@@ -54,6 +78,73 @@ export class URLStateManager {
 
     // Update URL without causing page reload
     window.history.replaceState({}, "", url.toString());
+    return true;
+  }
+
+  /**
+   * Save a project. Single-file projects keep using the code parameter so
+   * existing links stay short; multi-file projects are stored as JSON.
+   * @returns False when the project is too large for the URL, which then
+   * holds no project
+   */
+  static updateFiles(files: ProjectFiles): boolean {
+    const paths = Object.keys(files);
+    if (paths.length === 1 && paths[0] === ENTRY_FILE) {
+      const url = new URL(window.location.href);
+      url.searchParams.delete(this.FILES_PARAM);
+      window.history.replaceState({}, "", url.toString());
+      return this.updateCode(files[ENTRY_FILE]);
+    }
+
+    const url = new URL(window.location.href);
+    const compressed = LZString.compressToEncodedURIComponent(
+      JSON.stringify(files),
+    );
+
+    const testUrl = new URL(url);
+    testUrl.searchParams.delete(this.CODE_PARAM);
+    testUrl.searchParams.set(this.FILES_PARAM, compressed);
+
+    // Same conservative limit as single-file code
+    if (testUrl.toString().length > 2000) {
+      console.warn(
+        "Project is too large to save in URL (would exceed length limit)",
+      );
+      this.clearCode();
+      return false;
+    }
+
+    window.history.replaceState({}, "", testUrl.toString());
+    return true;
+  }
+
+  static getInitialFiles(): ProjectFiles | null {
+    const url = new URL(window.location.href);
+    const filesParam = url.searchParams.get(this.FILES_PARAM);
+
+    if (filesParam) {
+      try {
+        const decompressed =
+          LZString.decompressFromEncodedURIComponent(filesParam);
+        if (!decompressed) {
+          return null;
+        }
+
+        const parsed = JSON.parse(decompressed);
+        if (
+          parsed &&
+          typeof parsed === "object" &&
+          typeof parsed[ENTRY_FILE] === "string" &&
+          Object.values(parsed).every((value) => typeof value === "string")
+        ) {
+          return parsed as ProjectFiles;
+        }
+      } catch (error) {
+        console.warn("Failed to decompress project files from URL:", error);
+      }
+    }
+
+    return null;
   }
 
   static getInitialFrame(): number {
@@ -68,6 +159,51 @@ export class URLStateManager {
     return 0;
   }
 
+  /**
+   * Still export requested in the URL, e.g. `still=png` or `still=jpeg@2`
+   * for a JPEG at twice the project resolution. Used with the frame
+   * parameter to render a frame without opening the export dialog.
+   */
+  static getInitialStillExport(): {
+    format: StillFormat;
+    scale: number;
+  } | null {
+    const url = new URL(window.location.href);
+    const stillParam = url.searchParams.get(this.STILL_PARAM);
+
+    if (stillParam === null) {
+      return null;
+    }
+
+    const [format, scaleParam] = stillParam.split("@");
+    if (
+      format !== "" &&
+      format !== "png" &&
+      format !== "jpeg" &&
+      format !== "webp"
+    ) {
+      console.warn(`Unsupported still export format: ${format}`);
+      return null;
+    }
+
+    let scale = scaleParam ? parseFloat(scaleParam) : 1;
+    if (isNaN(scale) || scale <= 0) {
+      scale = 1;
+    } else if (scale < MIN_EXPORT_SCALE || scale > MAX_EXPORT_SCALE) {
+      console.warn(
+        `Still export scale ${scale} is outside ${MIN_EXPORT_SCALE}-${MAX_EXPORT_SCALE}, clamping it`,
+      );
+      scale = Math.min(Math.max(scale, MIN_EXPORT_SCALE), MAX_EXPORT_SCALE);
+    }
+    return { format: format || "png", scale };
+  }
+
+  static clearStillExport(): void {
+    const url = new URL(window.location.href);
+    url.searchParams.delete(this.STILL_PARAM);
+    window.history.replaceState({}, "", url.toString());
+  }
+
   static getInitialCode(): string | null {
     const url = new URL(window.location.href);
     const codeParam = url.searchParams.get(this.CODE_PARAM);
@@ -96,6 +232,7 @@ export class URLStateManager {
   static clearCode(): void {
     const url = new URL(window.location.href);
     url.searchParams.delete(this.CODE_PARAM);
+    url.searchParams.delete(this.FILES_PARAM);
     window.history.replaceState({}, "", url.toString());
   }
 
@@ -110,6 +247,8 @@ export class URLStateManager {
       if (settings.fps !== undefined) cleanSettings.fps = settings.fps;
       if (settings.background !== undefined)
         cleanSettings.background = settings.background;
+      if (settings.audioOffset)
+        cleanSettings.audioOffset = settings.audioOffset;
 
       if (Object.keys(cleanSettings).length > 0) {
         const compressed = LZString.compressToEncodedURIComponent(
@@ -145,6 +284,43 @@ export class URLStateManager {
     return null;
   }
 
+  static updateTimeEvents(events: SavedTimeEvents): void {
+    const url = new URL(window.location.href);
+
+    if (Object.keys(events).length > 0) {
+      const compressed = LZString.compressToEncodedURIComponent(
+        JSON.stringify(events),
+      );
+      url.searchParams.set(this.TIME_EVENTS_PARAM, compressed);
+    } else {
+      url.searchParams.delete(this.TIME_EVENTS_PARAM);
+    }
+
+    window.history.replaceState({}, "", url.toString());
+  }
+
+  static getInitialTimeEvents(): SavedTimeEvents | null {
+    const url = new URL(window.location.href);
+    const eventsParam = url.searchParams.get(this.TIME_EVENTS_PARAM);
+
+    if (eventsParam) {
+      try {
+        const decompressed =
+          LZString.decompressFromEncodedURIComponent(eventsParam);
+        if (decompressed) {
+          const parsed = JSON.parse(decompressed);
+          if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+            return parsed as SavedTimeEvents;
+          }
+        }
+      } catch (error) {
+        console.warn("Failed to decompress time events from URL:", error);
+      }
+    }
+
+    return null;
+  }
+
   static clearSettings(): void {
     const url = new URL(window.location.href);
     url.searchParams.delete(this.SETTINGS_PARAM);
@@ -155,7 +331,10 @@ export class URLStateManager {
     const url = new URL(window.location.href);
     url.searchParams.delete(this.FRAME_PARAM);
     url.searchParams.delete(this.CODE_PARAM);
+    url.searchParams.delete(this.FILES_PARAM);
     url.searchParams.delete(this.SETTINGS_PARAM);
+    url.searchParams.delete(this.TIME_EVENTS_PARAM);
+    url.searchParams.delete(this.STILL_PARAM);
     window.history.replaceState({}, "", url.toString());
   }
 
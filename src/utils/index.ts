@@ -25,6 +25,15 @@ export function isHTMLSelectElement(
   return element instanceof HTMLSelectElement;
 }
 
+/**
+ * Type guard to check if an element is an HTMLTextAreaElement
+ */
+export function isHTMLTextAreaElement(
+  element: EventTarget | null,
+): element is HTMLTextAreaElement {
+  return element instanceof HTMLTextAreaElement;
+}
+
 /**
  * Validates a number input and returns the parsed value or default
  */
@@ -0,0 +1,210 @@
+/**
+ * Video encoding worker
+ *
+ * Encodes the frames rendered by the export and muxes them, along with the
+ * audio track, into an MP4 or WebM file. Frames arrive as ImageBitmaps and
+ * are drawn onto an OffscreenCanvas that feeds mediabunny's CanvasSource.
+ */
+
+/// <reference lib="webworker" />
+
+import type {
+  VideoWorkerRequest,
+  VideoWorkerResponse,
+  WorkerAudio,
+} from "./video-exporter";
+import { CODEC_LABELS, CONTAINER_CODECS } from "./video-exporter";
+
+declare const self: DedicatedWorkerGlobalScope;
+
+// Bitrate for the muxed audio track (bits per second)
+const AUDIO_BITRATE = 192000;
+
+// Audio is handed to the encoder in chunks of at most this many samples
+const MAX_AUDIO_CHUNK = 48000 * 5;
+
+let output: any = null;
+let canvasSource: any = null;
+let audioAdded: Promise<void> | null = null;
+let canvas: OffscreenCanvas | null = null;
+let context: OffscreenCanvasRenderingContext2D | null = null;
+let fps = 30;
+let frameCount = 0;
+let mimeType = "video/mp4";
+
+function post(message: VideoWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, transfer);
+}
+
+async function start(
+  request: Extract<VideoWorkerRequest, { type: "start" }>,
+): Promise<void> {
+  const { settings, width, height, audio } = request;
+  const {
+    Output,
+    BufferTarget,
+    CanvasSource,
+    AudioSampleSource,
+    Mp4OutputFormat,
+    WebMOutputFormat,
+    canEncodeVideo,
+    getFirstEncodableAudioCodec,
+  } = await import("mediabunny");
+
+  canvas = new OffscreenCanvas(width, height);
+  context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  const { container, videoCodec } = settings;
+  if (!CONTAINER_CODECS[container].includes(videoCodec)) {
+    throw new Error(
+      `${CODEC_LABELS[videoCodec]} cannot be stored in ${container.toUpperCase()}`,
+    );
+  }
+  if (
+    !(await canEncodeVideo(videoCodec, {
+      width,
+      height,
+      bitrate: settings.videoBitrate,
+    }))
+  ) {
+    throw new Error(
+      `${CODEC_LABELS[videoCodec]} encoding is not supported by this browser`,
+    );
+  }
+
+  const format =
+    container === "webm" ? new WebMOutputFormat() : new Mp4OutputFormat();
+  mimeType = format.mimeType;
+  fps = settings.fps;
+  frameCount = 0;
+
+  output = new Output({ format, target: new BufferTarget() });
+
+  canvasSource = new CanvasSource(canvas, {
+    codec: videoCodec,
+    bitrate: settings.videoBitrate,
+  });
+  output.addVideoTrack(canvasSource, { frameRate: settings.fps });
+
+  let audioSource: InstanceType<typeof AudioSampleSource> | null = null;
+  if (audio) {
+    const audioCodec = await getFirstEncodableAudioCodec(
+      format.getSupportedAudioCodecs(),
+      {
+        numberOfChannels: audio.channels.length,
+        sampleRate: audio.sampleRate,
+        bitrate: AUDIO_BITRATE,
+      },
+    );
+
+    if (audioCodec) {
+      audioSource = new AudioSampleSource({
+        codec: audioCodec,
+        bitrate: AUDIO_BITRATE,
+      });
+      output.addAudioTrack(audioSource);
+    } else {
+      console.warn("No supported audio codec, exporting without audio");
+    }
+  }
+
+  await output.start();
+
+  // Not awaited here: the muxer interleaves audio with the video frames
+  // as they arrive, so waiting now could stall on backpressure
+  if (audioSource && audio) {
+    audioAdded = addAudio(audioSource, audio);
+  }
+}
+
+/**
+ * Feed the audio track to the encoder in chunks, like AudioBufferSource
+ * does for an AudioBuffer (which does not exist in workers)
+ */
+async function addAudio(source: any, audio: WorkerAudio): Promise<void> {
+  const { AudioSample } = await import("mediabunny");
+  const numberOfChannels = audio.channels.length;
+  const length = audio.channels[0]?.length ?? 0;
+  const chunkFrames = Math.floor(MAX_AUDIO_CHUNK / numberOfChannels);
+
+  for (let offset = 0; offset < length; offset += chunkFrames) {
+    const frames = Math.min(chunkFrames, length - offset);
+    const data = new Float32Array(numberOfChannels * frames);
+    audio.channels.forEach((channel, index) => {
+      data.set(channel.subarray(offset, offset + frames), index * frames);
+    });
+
+    await source.add(
+      new AudioSample({
+        data,
+        format: "f32-planar",
+        numberOfChannels,
+        sampleRate: audio.sampleRate,
+        timestamp: offset / audio.sampleRate,
+      }),
+    );
+  }
+}
+
+async function addFrame(bitmap: ImageBitmap): Promise<void> {
+  if (!canvas || !context || !canvasSource) {
+    bitmap.close();
+    throw new Error("Export has not been started");
+  }
+
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  // Waiting for the encoder applies its backpressure to the render loop,
+  // which waits for this frame to be acknowledged
+  await canvasSource.add(frameCount / fps, 1 / fps);
+  frameCount++;
+}
+
+async function stop(): Promise<void> {
+  if (!output) {
+    throw new Error("Export has not been started");
+  }
+
+  if (audioAdded) {
+    await audioAdded;
+  }
+  await output.finalize();
+
+  const buffer: ArrayBuffer = output.target.buffer;
+  post({ type: "complete", buffer, mimeType }, [buffer]);
+}
+
+// Requests are handled one at a time, in the order they were sent
+let queue = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<VideoWorkerRequest>) => {
+  const request = event.data;
+
+  queue = queue.then(async () => {
+    try {
+      switch (request.type) {
+        case "start":
+          await start(request);
+          post({ type: "started" });
+          break;
+        case "frame":
+          await addFrame(request.bitmap);
+          post({ type: "frameAdded" });
+          break;
+        case "stop":
+          await stop();
+          break;
+      }
+    } catch (error) {
+      post({
+        type: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+};
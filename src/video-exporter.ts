@@ -0,0 +1,329 @@
+export type VideoContainer = "mp4" | "webm";
+
+/** Video codecs as named by mediabunny */
+export type VideoCodec = "avc" | "vp9" | "av1";
+
+export interface ExportSettings {
+  quality: number;
+  fps: number;
+  videoBitrate: number;
+  scale: number; // resolution scale factor, applied when rendering
+  container: VideoContainer;
+  videoCodec: VideoCodec;
+}
+
+/** Codecs offered for each container, in order of preference */
+export const CONTAINER_CODECS: Record<VideoContainer, VideoCodec[]> = {
+  mp4: ["avc"],
+  webm: ["vp9", "av1"],
+};
+
+export const CODEC_LABELS: Record<VideoCodec, string> = {
+  avc: "H.264",
+  vp9: "VP9",
+  av1: "AV1",
+};
+
+/** Audio laid out on the export's timeline, one array per channel */
+export interface WorkerAudio {
+  channels: Float32Array<ArrayBuffer>[];
+  sampleRate: number;
+}
+
+/** Messages sent to the video encoding worker */
+export type VideoWorkerRequest =
+  | {
+      type: "start";
+      settings: ExportSettings;
+      width: number;
+      height: number;
+      audio: WorkerAudio | null;
+    }
+  | { type: "frame"; bitmap: ImageBitmap }
+  | { type: "stop" };
+
+/** Messages sent back by the video encoding worker */
+export type VideoWorkerResponse =
+  | { type: "started" }
+  | { type: "frameAdded" }
+  | { type: "complete"; buffer: ArrayBuffer; mimeType: string }
+  | { type: "error"; message: string };
+
+export interface ExportCallbacks {
+  onProgress: (progress: number) => void;
+  onComplete: (blob: Blob) => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * Check which codecs the browser can encode at the given size and bitrate,
+ * so unsupported ones can be disabled before an export starts
+ */
+export async function probeVideoCodecs(
+  width: number,
+  height: number,
+  bitrate: number,
+): Promise<Record<VideoCodec, boolean>> {
+  const { canEncodeVideo } = await import("mediabunny");
+  const codecs = Object.keys(CODEC_LABELS) as VideoCodec[];
+  const results = await Promise.all(
+    codecs.map((codec) =>
+      canEncodeVideo(codec, { width, height, bitrate }).catch(() => false),
+    ),
+  );
+
+  return Object.fromEntries(
+    codecs.map((codec, index) => [codec, results[index]]),
+  ) as Record<VideoCodec, boolean>;
+}
+
+/**
+ * Exports video through a dedicated worker, which encodes and muxes the
+ * frames so the editor stays responsive. Frames are still rendered on the
+ * main thread, since Motion Canvas lays out scenes with the DOM.
+ */
+export class VideoExporter {
+  private worker: Worker | null = null;
+  /** The request waiting for the worker's answer */
+  private pending: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private isExporting = false;
+  private abortController: AbortController | null = null;
+  private frameCount = 0;
+  private totalFrames = 0;
+  private settings: ExportSettings;
+  private callbacks: ExportCallbacks;
+
+  constructor(settings: ExportSettings, callbacks: ExportCallbacks) {
+    this.settings = settings;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * @param audio - Audio already laid out on the animation's timeline, muxed
+   *                as a second track when the browser can encode it
+   */
+  async start(
+    width: number,
+    height: number,
+    duration: number,
+    sourceFps: number,
+    audio: AudioBuffer | null = null,
+  ): Promise<void> {
+    if (this.isExporting) {
+      throw new Error("Export already in progress");
+    }
+
+    this.isExporting = true;
+    this.abortController = new AbortController();
+    this.frameCount = 0;
+    // Duration is in frames at sourceFps, convert to seconds then to frames at export fps
+    const durationInSeconds = duration / sourceFps;
+    this.totalFrames = Math.ceil(durationInSeconds * this.settings.fps);
+
+    try {
+      this.worker = new Worker(
+        new URL("./video-export-worker.ts", import.meta.url),
+        { type: "module" },
+      );
+      this.worker.onmessage = (event: MessageEvent<VideoWorkerResponse>) =>
+        this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        this.handleMessage({
+          type: "error",
+          message: event.message || "The export worker failed to load",
+        });
+      };
+
+      // AudioBuffer cannot be sent to a worker, so its samples are copied
+      const channels = audio
+        ? Array.from({ length: audio.numberOfChannels }, (_, channel) =>
+            audio.getChannelData(channel).slice(),
+          )
+        : [];
+
+      await this.request(
+        {
+          type: "start",
+          settings: this.settings,
+          width,
+          height,
+          audio: audio ? { channels, sampleRate: audio.sampleRate } : null,
+        },
+        channels.map((channel) => channel.buffer),
+      );
+
+      this.callbacks.onProgress(0);
+    } catch (error) {
+      this.terminate();
+      this.isExporting = false;
+      // Nothing is rendered for an export that failed to start
+      this.abortController?.abort();
+      this.callbacks.onError(
+        `Failed to start export: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  async addFrame(sourceCanvas: HTMLCanvasElement): Promise<void> {
+    if (!this.isExporting || this.abortController?.signal.aborted) {
+      return;
+    }
+
+    // Check the worker is still available (not cleaned up)
+    if (!this.worker) {
+      return;
+    }
+
+    try {
+      // The bitmap is a snapshot, so the source canvas can be reused as soon
+      // as it has been taken
+      const bitmap = await createImageBitmap(sourceCanvas);
+
+      // Waiting for the worker applies the encoder's backpressure to the
+      // render loop
+      await this.request({ type: "frame", bitmap }, [bitmap]);
+
+      // The export may have been cancelled while the frame was encoding
+      if (!this.isExporting) {
+        return;
+      }
+
+      this.frameCount++;
+      const progress =
+        this.totalFrames > 0 ? (this.frameCount / this.totalFrames) * 100 : 0;
+      this.callbacks.onProgress(Math.min(progress, 95)); // Cap at 95% until finalization
+    } catch (error) {
+      // Don't report errors if we're aborted
+      if (!this.abortController?.signal.aborted) {
+        this.callbacks.onError(
+          `Failed to add frame: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (
+      !this.isExporting ||
+      !this.worker ||
+      this.abortController?.signal.aborted
+    ) {
+      return;
+    }
+
+    try {
+      this.callbacks.onProgress(95);
+
+      // Resolved once the worker has sent the finished file
+      await this.request({ type: "stop" });
+    } catch (error) {
+      if (!this.abortController?.signal.aborted) {
+        this.callbacks.onError(
+          `Failed to finalize export: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  private request(
+    message: VideoWorkerRequest,
+    transfer: Transferable[] = [],
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.worker) {
+        reject(new Error("Export worker is not running"));
+        return;
+      }
+      this.pending = { resolve, reject };
+      this.worker.postMessage(message, transfer);
+    });
+  }
+
+  private handleMessage(message: VideoWorkerResponse): void {
+    const pending = this.pending;
+    this.pending = null;
+
+    switch (message.type) {
+      case "started":
+      case "frameAdded":
+        pending?.resolve();
+        break;
+      case "complete":
+        this.callbacks.onProgress(100);
+        this.callbacks.onComplete(
+          new Blob([message.buffer], { type: message.mimeType }),
+        );
+        pending?.resolve();
+        break;
+      case "error":
+        if (pending) {
+          pending.reject(new Error(message.message));
+        } else if (!this.abortController?.signal.aborted) {
+          this.callbacks.onError(`Export failed: ${message.message}`);
+        }
+        break;
+    }
+  }
+
+  cancel(): void {
+    if (!this.isExporting) {
+      return;
+    }
+
+    // Signal abort to all operations
+    this.abortController?.abort();
+
+    // Stopping the worker discards the encoder and everything muxed so far
+    this.cleanup();
+  }
+
+  private terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+
+    // Release the render loop if it is waiting on the worker
+    this.pending?.resolve();
+    this.pending = null;
+  }
+
+  private cleanup(): void {
+    this.terminate();
+    this.isExporting = false;
+    this.abortController = null;
+    this.frameCount = 0;
+    this.totalFrames = 0;
+  }
+
+  get exportProgress(): number {
+    return this.totalFrames > 0
+      ? (this.frameCount / this.totalFrames) * 100
+      : 0;
+  }
+
+  get signal(): AbortSignal | undefined {
+    return this.abortController?.signal;
+  }
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
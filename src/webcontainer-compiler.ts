@@ -6,7 +6,26 @@
  */
 
 import { WebContainer } from "@webcontainer/api";
+import {
+  loadDependencySnapshot,
+  saveDependencySnapshot,
+  type CompiledScene,
+} from "./compile-cache";
 import type { FeatureFlags } from "./feature-detector";
+import { rewriteImports } from "./module-resolver";
+import {
+  BUNDLED_PACKAGES,
+  findImportedPackages,
+  getExternalPatterns,
+  loadBundledPackages,
+} from "./package-registry";
+import { ENTRY_FILE, joinSources, type ProjectFiles } from "./project-files";
+import {
+  clearSourceMaps,
+  createInlineSourceMap,
+  extractInlineSourceMap,
+  registerSourceMap,
+} from "./source-map";
 
 export interface CompilationProgress {
   stage: "boot" | "install" | "write" | "build" | "extract" | "complete";
@@ -37,39 +56,12 @@ const state: WebContainerState = {
   lastDependencies: [],
 };
 
-// Base dependencies always included
+// Build tools, installed alongside the bundled packages
 const BASE_DEPENDENCIES: Record<string, string> = {
-  "@motion-canvas/core": "^3.17.2",
-  "@motion-canvas/2d": "^3.17.2",
   vite: "^5.0.0",
   typescript: "^5.3.3",
 };
 
-// Optional dependencies added only when used
-const OPTIONAL_DEPENDENCIES: Record<string, string> = {
-  "@hhenrichsen/canvas-commons": "^0.10.2",
-  "@spidunno/motion-canvas-graphing": "latest",
-  three: "^0.180.0",
-  shiki: "latest",
-  "@lezer/common": "latest",
-  "@lezer/highlight": "latest",
-  "@lezer/lr": "latest",
-  "@lezer/cpp": "^1.1.3",
-  "@lezer/css": "^1.3.0",
-  "@lezer/go": "^1.0.1",
-  "@lezer/html": "^1.3.12",
-  "@lezer/java": "^1.1.3",
-  "@lezer/javascript": "^1.5.4",
-  "@lezer/json": "^1.0.3",
-  "@lezer/markdown": "^1.5.1",
-  "@lezer/php": "^1.0.5",
-  "@lezer/python": "^1.1.18",
-  "@lezer/rust": "^1.0.2",
-  "@lezer/sass": "^1.1.0",
-  "@lezer/xml": "^1.0.6",
-  "@lezer/yaml": "^1.0.3",
-};
-
 /**
  * Boot the WebContainer instance (singleton)
  */
@@ -102,72 +94,59 @@ async function bootWebContainer(
 }
 
 /**
- * Detect which optional dependencies are used in the code
+ * The bundled packages to install: the ones every scene uses, and the ones
+ * the code imports. Local modules aren't installed.
  */
-function detectOptionalDependencies(code: string): string[] {
-  const used: string[] = [];
+function detectBundledDependencies(code: string): Record<string, string> {
+  const imported = new Set(findImportedPackages(code));
+  const dependencies: Record<string, string> = {};
 
-  // Check for each optional dependency
-  if (code.includes("@hhenrichsen/canvas-commons")) {
-    used.push("@hhenrichsen/canvas-commons");
-  }
-  if (code.includes("@spidunno/motion-canvas-graphing")) {
-    used.push("@spidunno/motion-canvas-graphing");
-  }
-  if (code.includes('from "three"') || code.includes("from 'three'")) {
-    used.push("three");
-  }
-  if (code.includes('from "shiki"') || code.includes("from 'shiki'")) {
-    used.push("shiki");
+  for (const pkg of BUNDLED_PACKAGES) {
+    if (pkg.version && (pkg.core || imported.has(pkg))) {
+      dependencies[pkg.name] = pkg.version;
+    }
   }
 
-  // Check for lezer packages
-  const lezerPackages = [
-    "@lezer/common",
-    "@lezer/highlight",
-    "@lezer/lr",
-    "@lezer/cpp",
-    "@lezer/css",
-    "@lezer/go",
-    "@lezer/html",
-    "@lezer/java",
-    "@lezer/javascript",
-    "@lezer/json",
-    "@lezer/markdown",
-    "@lezer/php",
-    "@lezer/python",
-    "@lezer/rust",
-    "@lezer/sass",
-    "@lezer/xml",
-    "@lezer/yaml",
-  ];
-
-  for (const pkg of lezerPackages) {
-    if (code.includes(pkg)) {
-      used.push(pkg);
+  return dependencies;
+}
+
+/**
+ * Build the src/ directory tree from the project files, creating nested
+ * directories for paths like `components/Card.tsx`
+ */
+function createSourceTree(files: ProjectFiles): Record<string, any> {
+  const tree: Record<string, any> = {};
+
+  for (const [path, contents] of Object.entries(files)) {
+    const segments = path.split("/");
+    const fileName = segments.pop()!;
+
+    let directory = tree;
+    for (const segment of segments) {
+      if (!directory[segment]) {
+        directory[segment] = { directory: {} };
+      }
+      directory = directory[segment].directory;
     }
+
+    directory[fileName] = { file: { contents } };
   }
 
-  return used;
+  return tree;
 }
 
 /**
- * Create the virtual file system structure
+ * The dependencies of the project's package.json, by name and version
  */
-function createFileSystem(
+function getDependencies(
   code: string,
   features: FeatureFlags,
-): Record<string, any> {
+): Record<string, string> {
   // Determine dependencies based on detected features
-  const dependencies = { ...BASE_DEPENDENCIES };
-
-  // Add optional dependencies if used in code
-  const usedOptionalDeps = detectOptionalDependencies(code);
-  for (const pkg of usedOptionalDeps) {
-    if (OPTIONAL_DEPENDENCIES[pkg]) {
-      dependencies[pkg] = OPTIONAL_DEPENDENCIES[pkg];
-    }
-  }
+  const dependencies = {
+    ...BASE_DEPENDENCIES,
+    ...detectBundledDependencies(code),
+  };
 
   // Add external packages if detected
   for (const pkg of features.externalPackages) {
@@ -176,6 +155,18 @@ function createFileSystem(
     }
   }
 
+  return dependencies;
+}
+
+/**
+ * Create the virtual file system structure
+ */
+function createFileSystem(
+  files: ProjectFiles,
+  features: FeatureFlags,
+): Record<string, any> {
+  const dependencies = getDependencies(joinSources(files), features);
+
   const packageJson = {
     name: "motion-canvas-scene",
     type: "module",
@@ -186,47 +177,29 @@ function createFileSystem(
     dependencies,
   };
 
+  // Bundled packages are read from their globals once built
+  const externals = BUNDLED_PACKAGES.filter((pkg) => pkg.version)
+    .flatMap(getExternalPatterns)
+    .map((pattern) => `        ${pattern},`)
+    .join("\n");
+
   const viteConfig = `
 import { defineConfig } from 'vite';
 
 export default defineConfig({
   build: {
     lib: {
-      entry: './src/scene.tsx',
+      entry: './src/${ENTRY_FILE}',
       formats: ['es'],
       fileName: 'scene',
     },
     rollupOptions: {
       external: [
-        '@motion-canvas/core',
-        '@motion-canvas/2d',
-        '@motion-canvas/2d/jsx-runtime',
-        '@motion-canvas/2d/lib/jsx-runtime',
-        '@hhenrichsen/canvas-commons',
-        '@spidunno/motion-canvas-graphing',
-        'three',
-        'shiki',
-        '@lezer/common',
-        '@lezer/highlight',
-        '@lezer/lr',
-        '@lezer/cpp',
-        '@lezer/css',
-        '@lezer/go',
-        '@lezer/html',
-        '@lezer/java',
-        '@lezer/javascript',
-        '@lezer/json',
-        '@lezer/markdown',
-        '@lezer/php',
-        '@lezer/python',
-        '@lezer/rust',
-        '@lezer/sass',
-        '@lezer/xml',
-        '@lezer/yaml',
+${externals}
       ],
     },
     minify: false,
-    sourcemap: false,
+    sourcemap: 'inline',
     target: 'esnext',
   },
   esbuild: {
@@ -274,17 +247,57 @@ export default defineConfig({
       },
     },
     src: {
-      directory: {
-        "scene.tsx": {
-          file: {
-            contents: code,
-          },
-        },
-      },
+      directory: createSourceTree(files),
     },
   };
 }
 
+/**
+ * Mount the cached node_modules of an earlier session, when they have the
+ * same dependencies
+ * @returns Whether they were restored
+ */
+async function restoreDependencies(
+  container: WebContainer,
+  dependencies: Record<string, string>,
+  logger?: Logger,
+): Promise<boolean> {
+  try {
+    const snapshot = await loadDependencySnapshot(dependencies);
+    if (!snapshot) {
+      return false;
+    }
+
+    await container.fs.mkdir("node_modules", { recursive: true });
+    await container.mount(snapshot, { mountPoint: "node_modules" });
+
+    console.log("[WebContainer] Restored cached dependencies");
+    logger?.info("[WebContainer] Restored cached dependencies");
+    return true;
+  } catch (error) {
+    console.warn(
+      "[WebContainer] Failed to restore cached dependencies:",
+      error,
+    );
+    return false;
+  }
+}
+
+/**
+ * Snapshot the installed node_modules for later sessions, in the background
+ */
+function cacheDependencies(
+  container: WebContainer,
+  dependencies: Record<string, string>,
+): void {
+  container
+    .export("node_modules", { format: "binary" })
+    .then((snapshot) => saveDependencySnapshot(dependencies, snapshot))
+    .catch((error) => {
+      console.warn("[WebContainer] Failed to cache dependencies:", error);
+    });
+}
+
 /**
  * Install dependencies in the WebContainer
  */
@@ -295,13 +308,11 @@ async function installDependencies(
   onProgress?: ProgressCallback,
   logger?: Logger,
 ): Promise<void> {
-  // Build the actual dependency list
-  const usedOptionalDeps = detectOptionalDependencies(code);
-  const currentDeps = [
-    ...Object.keys(BASE_DEPENDENCIES),
-    ...usedOptionalDeps,
-    ...features.externalPackages,
-  ].sort();
+  // Build the actual dependency list, as name@version
+  const dependencies = getDependencies(code, features);
+  const currentDeps = Object.entries(dependencies)
+    .map(([name, version]) => `${name}@${version}`)
+    .sort();
 
   // Check if we need to reinstall (dependencies changed)
   const needsInstall =
@@ -317,6 +328,15 @@ async function installDependencies(
     throw new Error("Installation already in progress");
   }
 
+  // A new container can reuse the node_modules of an earlier session
+  if (
+    state.lastDependencies.length === 0 &&
+    (await restoreDependencies(container, dependencies, logger))
+  ) {
+    state.lastDependencies = currentDeps;
+    return;
+  }
+
   state.installing = true;
 
   try {
@@ -346,6 +366,7 @@ async function installDependencies(
     }
 
     state.lastDependencies = currentDeps;
+    cacheDependencies(container, dependencies);
     console.log("[WebContainer] Dependencies installed");
     logger?.info("[WebContainer] Dependencies installed successfully");
   } finally {
@@ -441,297 +462,27 @@ async function extractBuiltScene(
 }
 
 /**
- * Replace imports with global window references
+ * Execute compiled code and return the scene module. The bundle's source map
+ * is registered so runtime errors can be traced back to the project files.
  */
-function replaceImportsWithGlobals(code: string): string {
-  let finalCode = code;
-
-  // Replace Motion Canvas Core imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@motion-canvas\/core['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.CanvasCore.${original};`;
-        } else {
-          return `const ${trimmed} = window.CanvasCore.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  // Replace Motion Canvas 2D imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@motion-canvas\/2d['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.Canvas2D.${original};`;
-        } else {
-          return `const ${trimmed} = window.Canvas2D.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  // Replace Motion Canvas 2D JSX runtime imports (both paths)
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@motion-canvas\/2d\/(lib\/)?jsx-runtime['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.Canvas2D.${original};`;
-        } else {
-          return `const ${trimmed} = window.Canvas2D.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  // Replace Canvas Commons imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@hhenrichsen\/canvas-commons['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.CanvasCommons.${original};`;
-        } else {
-          return `const ${trimmed} = window.CanvasCommons.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  // Replace motion-canvas-graphing imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@spidunno\/motion-canvas-graphing['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.MotionCanvasGraphing.${original};`;
-        } else {
-          return `const ${trimmed} = window.MotionCanvasGraphing.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s+(\w+)\s*from\s*['"]@spidunno\/motion-canvas-graphing['"]/g,
-    (_match, importName) => {
-      return `const ${importName} = window.MotionCanvasGraphing.${importName};`;
-    },
-  );
-
-  // Replace three.js imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]three['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.THREE.${original};`;
-        } else {
-          return `const ${trimmed} = window.THREE.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s+\*\s+as\s+(\w+)\s*from\s*['"]three['"]/g,
-    (_match, importName) => {
-      return `const ${importName} = window.THREE;`;
-    },
-  );
-
-  // Replace shiki imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]shiki['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.Shiki.${original};`;
-        } else {
-          return `const ${trimmed} = window.Shiki.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s+\*\s+as\s+(\w+)\s*from\s*['"]shiki['"]/g,
-    (_match, importName) => {
-      return `const ${importName} = window.Shiki;`;
-    },
-  );
-
-  // Replace lezer imports
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@lezer\/common['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.LezerCommon.${original};`;
-        } else {
-          return `const ${trimmed} = window.LezerCommon.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@lezer\/highlight['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.LezerHighlight.${original};`;
-        } else {
-          return `const ${trimmed} = window.LezerHighlight.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]@lezer\/lr['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.LezerLR.${original};`;
-        } else {
-          return `const ${trimmed} = window.LezerLR.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  // Replace lezer language parser imports
-  const lezerParsers = [
-    { pkg: "cpp", window: "LezerCpp" },
-    { pkg: "css", window: "LezerCss" },
-    { pkg: "go", window: "LezerGo" },
-    { pkg: "html", window: "LezerHtml" },
-    { pkg: "java", window: "LezerJava" },
-    { pkg: "javascript", window: "LezerJavascript" },
-    { pkg: "json", window: "LezerJson" },
-    { pkg: "markdown", window: "LezerMarkdown" },
-    { pkg: "php", window: "LezerPhp" },
-    { pkg: "python", window: "LezerPython" },
-    { pkg: "rust", window: "LezerRust" },
-    { pkg: "sass", window: "LezerSass" },
-    { pkg: "xml", window: "LezerXml" },
-    { pkg: "yaml", window: "LezerYaml" },
-  ];
-
-  for (const { pkg, window: windowVar } of lezerParsers) {
-    const pattern = new RegExp(
-      `import\\s*{\\s*([^}]+)\\s*}\\s*from\\s*['"]@lezer/${pkg}['"]`,
-      "g",
-    );
-    finalCode = finalCode.replace(pattern, (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.${windowVar}.${original};`;
-        } else {
-          return `const ${trimmed} = window.${windowVar}.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    });
-  }
-
-  // Handle local ./shiki module
-  finalCode = finalCode.replace(
-    /import\s*{\s*([^}]+)\s*}\s*from\s*['"]\.\/shiki['"]/g,
-    (_match, imports) => {
-      const importItems = imports.split(",").map((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.includes(" as ")) {
-          const [original, alias] = trimmed
-            .split(" as ")
-            .map((s: string) => s.trim());
-          return `const ${alias} = window.${original};`;
-        } else {
-          return `const ${trimmed} = window.${trimmed};`;
-        }
-      });
-      return importItems.join("\n");
-    },
-  );
-
-  finalCode = finalCode.replace(
-    /import\s+(\w+)\s*from\s*['"]\.\/shiki['"]/g,
-    (_match, importName) => {
-      return `const ${importName} = window.${importName};`;
-    },
-  );
-
-  return finalCode;
-}
-
-/**
- * Execute compiled code and return the scene module
- */
-async function executeCompiledCode(
+export async function executeCompiledCode(
   code: string,
+  files: ProjectFiles,
 ): Promise<{ default: unknown }> {
   const blob = new Blob([code], { type: "application/javascript" });
   const url = URL.createObjectURL(blob);
 
+  clearSourceMaps();
+  const map = extractInlineSourceMap(code);
+  if (map) {
+    // Sources are relative to dist/, e.g. "../src/scene.tsx"; bundled
+    // packages are not project files
+    registerSourceMap(url, map, (source) => {
+      const path = source.replace(/^(\.\.\/)*src\//, "");
+      return path in files ? path : null;
+    });
+  }
+
   try {
     const module = await import(/* @vite-ignore */ url);
     return module;
@@ -741,14 +492,15 @@ async function executeCompiledCode(
 }
 
 /**
- * Compile a Motion Canvas scene using WebContainer + Vite
+ * Compile a Motion Canvas scene using WebContainer + Vite, into a single
+ * module with an inline source map
  */
 export async function compileWithWebContainer(
-  code: string,
+  files: ProjectFiles,
   features: FeatureFlags,
   onProgress?: ProgressCallback,
   logger?: Logger,
-): Promise<unknown> {
+): Promise<CompiledScene> {
   try {
     logger?.info("[WebContainer] Starting compilation...");
 
@@ -762,14 +514,20 @@ export async function compileWithWebContainer(
       progress: 20,
     });
 
-    const files = createFileSystem(code, features);
-    await container.mount(files);
+    const fileSystem = createFileSystem(files, features);
+    await container.mount(fileSystem);
 
     console.log("[WebContainer] File system mounted");
     logger?.info("[WebContainer] Project files ready");
 
     // Install dependencies
-    await installDependencies(container, code, features, onProgress, logger);
+    await installDependencies(
+      container,
+      joinSources(files),
+      features,
+      onProgress,
+      logger,
+    );
 
     // Build with Vite
     await buildScene(container, onProgress, logger);
@@ -777,15 +535,18 @@ export async function compileWithWebContainer(
     // Extract built scene
     const builtCode = await extractBuiltScene(container, onProgress);
 
-    // Replace imports with globals
-    const finalCode = replaceImportsWithGlobals(builtCode);
-
-    // Execute and return the scene
-    const sceneModule = await executeCompiledCode(finalCode);
-
-    if (!sceneModule.default) {
-      throw new Error("Compiled code must export a default scene");
+    // Replace imports with globals. Vite bundled everything else, so any
+    // import left that isn't a bundled package can't be resolved.
+    const packages = findImportedPackages(builtCode).map((pkg) => pkg.name);
+    await loadBundledPackages(packages);
+    const Babel = await import("@babel/standalone");
+    const { code, map, unresolved } = rewriteImports(Babel, builtCode);
+    if (unresolved.length > 0) {
+      throw new Error(
+        `Cannot find modules: ${unresolved.map((name) => `'${name}'`).join(", ")}`,
+      );
     }
+    const finalCode = map ? code + createInlineSourceMap(map) : code;
 
     onProgress?.({
       stage: "complete",
@@ -796,7 +557,12 @@ export async function compileWithWebContainer(
     console.log("[WebContainer] Compilation successful");
     logger?.info("[WebContainer] Compilation complete!");
 
-    return sceneModule.default;
+    return {
+      compiler: "webcontainer",
+      modules: [{ filename: ENTRY_FILE, code: finalCode, map: null }],
+      packages,
+      diagnostics: [],
+    };
   } catch (error) {
     console.error("[WebContainer] Compilation failed:", error);
     const errorMessage = error instanceof Error ? error.message : String(error);
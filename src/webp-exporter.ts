@@ -0,0 +1,325 @@
+export interface WebPExportSettings {
+  fps: number;
+  quality: number; // 0-1, 1 = lossless
+  loop: number; // Number of plays, 0 = forever
+  scale: number; // resolution scale factor, applied when rendering
+  /** Fill color behind each frame, or null to keep the alpha channel */
+  background: string | null;
+}
+
+export interface WebPExportCallbacks {
+  onProgress: (progress: number) => void;
+  onComplete: (blob: Blob) => void;
+  onError: (error: string) => void;
+}
+
+// The VP8 and VP8L bitstreams store frame dimensions in 14 bits
+const MAX_DIMENSION = 16383;
+
+interface WebPChunk {
+  type: string;
+  /** The whole chunk including its header and padding */
+  bytes: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Check whether the browser can encode WebP images from a canvas. Browsers
+ * without an encoder silently fall back to PNG.
+ */
+export function canEncodeWebP(): boolean {
+  const canvas = document.createElement("canvas");
+  canvas.width = 1;
+  canvas.height = 1;
+  return canvas.toDataURL("image/webp").startsWith("data:image/webp");
+}
+
+function readChunks(webp: Uint8Array<ArrayBuffer>): WebPChunk[] {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const chunks: WebPChunk[] = [];
+  // Skip the RIFF header and the WEBP form type
+  let offset = 12;
+
+  while (offset + 8 <= webp.length) {
+    const type = String.fromCharCode(...webp.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    chunks.push({ type, bytes: webp.subarray(offset, end) });
+    offset = end;
+  }
+
+  return chunks;
+}
+
+function writeChunkHeader(type: string, size: number): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(8);
+  for (let i = 0; i < 4; i++) {
+    header[i] = type.charCodeAt(i);
+  }
+  new DataView(header.buffer).setUint32(4, size, true);
+  return header;
+}
+
+function setUint24(view: DataView, offset: number, value: number): void {
+  view.setUint8(offset, value & 0xff);
+  view.setUint8(offset + 1, (value >> 8) & 0xff);
+  view.setUint8(offset + 2, (value >> 16) & 0xff);
+}
+
+/**
+ * Encodes frames as an animated WebP. Each frame is compressed by the
+ * browser's WebP encoder and its bitstream is wrapped in an ANMF chunk.
+ */
+export class WebPExporter {
+  private frameParts: Blob[] = [];
+  private framesSize = 0;
+  private hasAlpha = false;
+  private isExporting = false;
+  private abortController: AbortController | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  private frameCount = 0;
+  private totalFrames = 0;
+  private settings: WebPExportSettings;
+  private callbacks: WebPExportCallbacks;
+
+  constructor(settings: WebPExportSettings, callbacks: WebPExportCallbacks) {
+    this.settings = settings;
+    this.callbacks = callbacks;
+  }
+
+  async start(
+    width: number,
+    height: number,
+    duration: number,
+    sourceFps: number,
+  ): Promise<void> {
+    if (this.isExporting) {
+      throw new Error("Export already in progress");
+    }
+
+    this.isExporting = true;
+    this.abortController = new AbortController();
+    this.frameCount = 0;
+    // Duration is in frames at sourceFps, convert to seconds then to frames at export fps
+    const durationInSeconds = duration / sourceFps;
+    this.totalFrames = Math.ceil(durationInSeconds * this.settings.fps);
+
+    try {
+      if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+        throw new Error(
+          `WebP images are limited to ${MAX_DIMENSION}×${MAX_DIMENSION} pixels`,
+        );
+      }
+      if (!canEncodeWebP()) {
+        throw new Error("This browser cannot encode WebP images");
+      }
+
+      this.canvas = document.createElement("canvas");
+      this.canvas.width = width;
+      this.canvas.height = height;
+      this.context = this.canvas.getContext("2d");
+
+      if (!this.context) {
+        throw new Error("Failed to get canvas context");
+      }
+
+      this.callbacks.onProgress(0);
+    } catch (error) {
+      this.isExporting = false;
+      // Nothing is rendered for an export that failed to start
+      this.abortController?.abort();
+      this.callbacks.onError(
+        `Failed to start WebP export: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  async addFrame(sourceCanvas: HTMLCanvasElement): Promise<void> {
+    if (!this.isExporting || this.abortController?.signal.aborted) {
+      return;
+    }
+
+    // Check all required objects are still available (not cleaned up)
+    if (!this.context || !this.canvas) {
+      return;
+    }
+
+    try {
+      this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+      if (this.settings.background) {
+        this.context.fillStyle = this.settings.background;
+        this.context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      }
+      this.context.drawImage(
+        sourceCanvas,
+        0,
+        0,
+        this.canvas.width,
+        this.canvas.height,
+      );
+
+      const blob = await new Promise<Blob | null>((resolve) =>
+        this.canvas!.toBlob(resolve, "image/webp", this.settings.quality),
+      );
+      if (!blob) {
+        throw new Error("Failed to encode WebP");
+      }
+
+      // The export may have been cancelled while the frame was encoding
+      if (this.abortController?.signal.aborted || !this.isExporting) {
+        return;
+      }
+
+      // Only the image data goes into the animation; VP8X and metadata
+      // chunks of the still image are replaced by the animation's own
+      const chunks = readChunks(
+        new Uint8Array(await blob.arrayBuffer()),
+      ).filter((chunk) => ["ALPH", "VP8 ", "VP8L"].includes(chunk.type));
+      if (!chunks.some((chunk) => chunk.type !== "ALPH")) {
+        throw new Error("Encoded WebP has no image data");
+      }
+      if (chunks.some((chunk) => chunk.type !== "VP8 ")) {
+        this.hasAlpha = true;
+      }
+
+      this.writeFrame(chunks);
+
+      this.frameCount++;
+      const progress =
+        this.totalFrames > 0 ? (this.frameCount / this.totalFrames) * 100 : 0;
+      this.callbacks.onProgress(Math.min(progress, 95)); // Cap at 95% until finalization
+    } catch (error) {
+      // Don't report errors if we're aborted
+      if (!this.abortController?.signal.aborted) {
+        this.callbacks.onError(
+          `Failed to add frame: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Wrap a frame's image data in an ANMF chunk. Durations are rounded so
+   * their sum stays in step with the frame rate instead of drifting.
+   */
+  private writeFrame(chunks: WebPChunk[]): void {
+    const { fps } = this.settings;
+    const duration =
+      Math.round(((this.frameCount + 1) * 1000) / fps) -
+      Math.round((this.frameCount * 1000) / fps);
+
+    const header = new DataView(new ArrayBuffer(16));
+    // x and y offsets stay zero: every frame covers the whole canvas
+    setUint24(header, 6, this.canvas!.width - 1);
+    setUint24(header, 9, this.canvas!.height - 1);
+    setUint24(header, 12, duration);
+    // Don't blend with the previous frame, so transparent pixels stay clear
+    header.setUint8(15, 0x02);
+
+    const size =
+      header.byteLength +
+      chunks.reduce((total, chunk) => total + chunk.bytes.length, 0);
+    this.frameParts.push(
+      new Blob([
+        writeChunkHeader("ANMF", size),
+        header.buffer,
+        ...chunks.map((chunk) => chunk.bytes),
+      ]),
+    );
+    this.framesSize += 8 + size;
+  }
+
+  async stop(): Promise<void> {
+    if (
+      !this.isExporting ||
+      !this.canvas ||
+      this.abortController?.signal.aborted
+    ) {
+      return;
+    }
+
+    try {
+      this.callbacks.onProgress(95);
+      const blob = this.assemble(this.canvas.width, this.canvas.height);
+      this.callbacks.onProgress(100);
+      this.callbacks.onComplete(blob);
+    } catch (error) {
+      if (!this.abortController?.signal.aborted) {
+        this.callbacks.onError(
+          `Failed to finalize WebP: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  private assemble(width: number, height: number): Blob {
+    const features = new DataView(new ArrayBuffer(10));
+    // Animation flag, plus the alpha flag when any frame is transparent
+    features.setUint8(0, 0x02 | (this.hasAlpha ? 0x10 : 0));
+    setUint24(features, 4, width - 1);
+    setUint24(features, 7, height - 1);
+
+    const animation = new DataView(new ArrayBuffer(6));
+    // A transparent background color, then the loop count
+    animation.setUint16(4, this.settings.loop, true);
+
+    const riffSize =
+      4 +
+      (8 + features.byteLength) +
+      (8 + animation.byteLength) +
+      this.framesSize;
+
+    return new Blob(
+      [
+        writeChunkHeader("RIFF", riffSize),
+        new TextEncoder().encode("WEBP"),
+        writeChunkHeader("VP8X", features.byteLength),
+        features.buffer,
+        writeChunkHeader("ANIM", animation.byteLength),
+        animation.buffer,
+        ...this.frameParts,
+      ],
+      { type: "image/webp" },
+    );
+  }
+
+  cancel(): void {
+    if (!this.isExporting) {
+      return;
+    }
+
+    // Signal abort to all operations
+    this.abortController?.abort();
+    this.cleanup();
+  }
+
+  private cleanup(): void {
+    this.isExporting = false;
+    this.abortController = null;
+    this.frameParts = [];
+    this.framesSize = 0;
+    this.hasAlpha = false;
+    this.canvas = null;
+    this.context = null;
+    this.frameCount = 0;
+    this.totalFrames = 0;
+  }
+
+  get exportProgress(): number {
+    return this.totalFrames > 0
+      ? (this.frameCount / this.totalFrames) * 100
+      : 0;
+  }
+
+  get signal(): AbortSignal | undefined {
+    return this.abortController?.signal;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Minimal ZIP archive writer
+ *
+ * Entries are stored without compression, which suits already-compressed
+ * files such as PNGs. Each entry is turned into a Blob as soon as it is
+ * added instead of holding every file until the archive is finished.
+ */
+
+// Entry count limit of the classic (non-ZIP64) format
+const MAX_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 as used by ZIP and PNG
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode a date in MS-DOS format as used by ZIP headers
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+interface CentralEntry {
+  name: Uint8Array<ArrayBuffer>;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export class ZipWriter {
+  private parts: BlobPart[] = [];
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+  private timestamp = dosDateTime(new Date());
+
+  addFile(path: string, data: Uint8Array<ArrayBuffer>): void {
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new Error(`ZIP archives are limited to ${MAX_ENTRIES} files`);
+    }
+
+    const name = new TextEncoder().encode(path);
+    const crc = crc32(data);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true); // Local file header signature
+    header.setUint16(4, 20, true); // Version needed to extract
+    header.setUint16(6, 0x0800, true); // UTF-8 file names
+    header.setUint16(8, 0, true); // Stored (no compression)
+    header.setUint16(10, this.timestamp.time, true);
+    header.setUint16(12, this.timestamp.date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true);
+
+    // Wrapping each entry in a Blob lets the browser move it out of memory
+    this.parts.push(new Blob([header.buffer, name, data]));
+    this.entries.push({ name, crc, size: data.length, offset: this.offset });
+    this.offset += 30 + name.length + data.length;
+  }
+
+  /**
+   * Write the central directory and return the finished archive
+   */
+  finish(): Blob {
+    const directoryOffset = this.offset;
+    let directorySize = 0;
+
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true); // Central directory signature
+      header.setUint16(4, 20, true); // Version made by
+      header.setUint16(6, 20, true); // Version needed to extract
+      header.setUint16(8, 0x0800, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, this.timestamp.time, true);
+      header.setUint16(14, this.timestamp.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      // Extra field, comment, disk number and attributes stay zero
+      header.setUint32(42, entry.offset, true);
+
+      this.parts.push(header.buffer, entry.name);
+      directorySize += 46 + entry.name.length;
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true); // End of central directory signature
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, directoryOffset, true);
+    this.parts.push(end.buffer);
+
+    const blob = new Blob(this.parts, { type: "application/zip" });
+    this.parts = [];
+    this.entries = [];
+    this.offset = 0;
+    return blob;
+  }
+}
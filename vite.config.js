@@ -20,6 +20,10 @@ export default defineConfig({
       },
     },
   },
+  worker: {
+    // The export worker loads mediabunny on demand, which needs code splitting
+    format: "es",
+  },
   optimizeDeps: {
     include: ["@motion-canvas/core", "@motion-canvas/2d", "chroma-js"],
   },